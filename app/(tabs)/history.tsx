@@ -1,84 +1,136 @@
-import React, { useEffect, useState } from 'react';
-import { RefreshControl, ScrollView, StyleSheet, View } from 'react-native';
-import { Button, Card, Chip, Divider, List, Paragraph, Title } from 'react-native-paper';
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { FlatList, RefreshControl, ScrollView, StyleSheet, View } from 'react-native';
+import { Button, Card, Chip, Divider, List, Paragraph, Searchbar, Title } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import Toast from 'react-native-toast-message';
+import { MerchantInfo } from '@/constants/merchant';
+import { usePrinter } from '@/hooks/use-printer';
+import { PAYMENT_METHODS, PAYMENT_TYPES } from '../../src/services/PaymentMethods';
+import { reprintReceipt } from '../../src/services/ReceiptReprinter';
+import TransactionLedger, {
+  AdjustmentState,
+  DisplayStatus,
+  getAdjustmentState,
+  getDisplayStatus,
+  getNetAmount,
+  getTransactionType,
+  LedgerEntry,
+  LedgerQuery,
+  PaymentType
+} from '../../src/services/TransactionLedger';
+import { DATE_RANGE_LABELS, DateRangePreset, getDateRange } from '../../src/utils/dateRange';
+import { formatMoney, Money } from '../../src/utils/money';
 
-interface Transaction {
-  id: string;
-  reference: string;
-  amount: number;
-  status: 'successful' | 'failed' | 'pending';
-  customerName: string;
-  customerEmail: string;
-  channel: string;
-  date: string;
-}
+type SortOption = 'newest' | 'oldest' | 'highest' | 'lowest';
+
+const PAGE_SIZE = 20;
+
+const STATUS_FILTERS: DisplayStatus[] = ['successful', 'declined', 'failed', 'cancelled', 'pending'];
+const DATE_FILTERS: DateRangePreset[] = ['all', 'today', 'yesterday', 'last7Days', 'last30Days'];
+
+const SORT_OPTIONS: { value: SortOption; label: string; query: Pick<LedgerQuery, 'sortBy' | 'sortOrder'> }[] = [
+  { value: 'newest', label: 'Newest', query: { sortBy: 'date', sortOrder: 'desc' } },
+  { value: 'oldest', label: 'Oldest', query: { sortBy: 'date', sortOrder: 'asc' } },
+  { value: 'highest', label: 'Highest amount', query: { sortBy: 'amount', sortOrder: 'desc' } },
+  { value: 'lowest', label: 'Lowest amount', query: { sortBy: 'amount', sortOrder: 'asc' } },
+];
+
+const ADJUSTMENT_STATE_LABELS: Record<AdjustmentState, string> = {
+  reversed: 'Reversed',
+  voided: 'Voided',
+  refunded: 'Refunded',
+  partiallyRefunded: 'Part refunded',
+};
+
+const toggle = <T,>(values: T[], value: T): T[] => (
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value]
+);
 
 export default function TransactionHistoryScreen() {
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [transactions, setTransactions] = useState<LedgerEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<DisplayStatus[]>([]);
+  const [typeFilter, setTypeFilter] = useState<PaymentType[]>([]);
+  const [datePreset, setDatePreset] = useState<DateRangePreset>('all');
+  const [sort, setSort] = useState<SortOption>('newest');
+  const [reprintingReference, setReprintingReference] = useState<string | null>(null);
+  const { printing } = usePrinter();
+  const loadedCount = useRef(0);
+  const loadingMore = useRef(false);
+
+  const filtersActive = !!search.trim() || statusFilter.length > 0 || typeFilter.length > 0 || datePreset !== 'all';
+
+  const buildQuery = useCallback((offset: number, limit: number): LedgerQuery => ({
+    search,
+    statuses: statusFilter,
+    paymentTypes: typeFilter,
+    dateRange: getDateRange(datePreset),
+    ...SORT_OPTIONS.find((option) => option.value === sort)!.query,
+    offset,
+    limit,
+  }), [search, statusFilter, typeFilter, datePreset, sort]);
 
-  const mockTransactions: Transaction[] = [
-    {
-      id: '1',
-      reference: 'TXN_1703875200_123456',
-      amount: 50000, // in kobo
-      status: 'successful',
-      customerName: 'John Doe',
-      customerEmail: 'john.doe@example.com',
-      channel: 'CARD',
-      date: '2024-12-29T10:30:00Z'
-    },
-    {
-      id: '2',
-      reference: 'TXN_1703788800_789012',
-      amount: 25000,
-      status: 'failed',
-      customerName: 'Jane Smith',
-      customerEmail: 'jane.smith@example.com',
-      channel: 'BANK_TRANSFER',
-      date: '2024-12-28T15:45:00Z'
-    },
-    {
-      id: '3',
-      reference: 'TXN_1703702400_345678',
-      amount: 100000,
-      status: 'pending',
-      customerName: 'Mike Johnson',
-      customerEmail: 'mike.johnson@example.com',
-      channel: 'USSD',
-      date: '2024-12-27T09:15:00Z'
+  // Reload from the top, keeping at least as many rows as are already on screen
+  const loadTransactions = useCallback(async () => {
+    try {
+      const page = await TransactionLedger.query(buildQuery(0, Math.max(loadedCount.current, PAGE_SIZE)));
+      loadedCount.current = page.entries.length;
+      setTransactions(page.entries);
+      setTotal(page.total);
+      setHasMore(page.hasMore);
+    } catch (error: any) {
+      Toast.show({ type: 'error', text1: 'History Unavailable', text2: error.message });
     }
-  ];
+  }, [buildQuery]);
 
   useEffect(() => {
+    loadedCount.current = 0;
     loadTransactions();
-  }, []);
+    return TransactionLedger.subscribe(() => {
+      loadTransactions();
+    });
+  }, [loadTransactions]);
 
-  const loadTransactions = () => {
-    // Simulate loading delay
-    setTimeout(() => {
-      setTransactions(mockTransactions);
-    }, 500);
+  const loadMore = async () => {
+    if (!hasMore || loadingMore.current) return;
+
+    loadingMore.current = true;
+    try {
+      const page = await TransactionLedger.query(buildQuery(loadedCount.current, PAGE_SIZE));
+      loadedCount.current += page.entries.length;
+      setTransactions((prev) => [...prev, ...page.entries]);
+      setTotal(page.total);
+      setHasMore(page.hasMore);
+    } catch (error: any) {
+      Toast.show({ type: 'error', text1: 'History Unavailable', text2: error.message });
+    } finally {
+      loadingMore.current = false;
+    }
   };
 
-  const onRefresh = () => {
+  const onRefresh = async () => {
     setRefreshing(true);
-    setTimeout(() => {
-      loadTransactions();
-      setRefreshing(false);
-    }, 1000);
+    await loadTransactions();
+    setRefreshing(false);
   };
 
-  const formatAmount = (amountInKobo: number): string => {
-    return (amountInKobo / 100).toLocaleString('en-NG', {
-      style: 'currency',
-      currency: 'NGN'
-    });
+  const clearFilters = () => {
+    setSearch('');
+    setStatusFilter([]);
+    setTypeFilter([]);
+    setDatePreset('all');
+  };
+
+  const formatAmount = (amount: Money): string => {
+    return formatMoney(amount);
   };
 
-  const formatDate = (dateString: string): string => {
-    return new Date(dateString).toLocaleDateString('en-GB', {
+  const formatDate = (timestamp: number): string => {
+    return new Date(timestamp).toLocaleDateString('en-GB', {
       year: 'numeric',
       month: 'short',
       day: 'numeric',
@@ -92,7 +144,10 @@ export default function TransactionHistoryScreen() {
       case 'successful':
         return '#27ae60';
       case 'failed':
+      case 'declined':
         return '#e74c3c';
+      case 'cancelled':
+        return '#7f8c8d';
       case 'pending':
         return '#f39c12';
       default:
@@ -100,124 +155,220 @@ export default function TransactionHistoryScreen() {
     }
   };
 
-  const getChannelDisplayName = (channel: string): string => {
-    switch (channel) {
-      case 'CARD':
-        return 'Card Payment';
-      case 'BANK_TRANSFER':
-        return 'Bank Transfer';
-      case 'USSD':
-        return 'USSD';
-      case 'QR':
-        return 'QR Code';
-      default:
-        return channel;
-    }
-  };
+  const reprint = async (reference: string) => {
+    setReprintingReference(reference);
+    const result = await reprintReceipt(reference, MerchantInfo);
+    setReprintingReference(null);
 
-  const getChannelIcon = (channel: string): string => {
-    switch (channel) {
-      case 'CARD':
-        return 'credit-card';
-      case 'BANK_TRANSFER':
-        return 'bank';
-      case 'USSD':
-        return 'phone';
-      case 'QR':
-        return 'qrcode';
-      default:
-        return 'payment';
-    }
+    Toast.show({
+      type: result.success ? 'success' : 'error',
+      text1: result.success ? 'Duplicate Printed' : 'Reprint Failed',
+      text2: result.success ? `Copy #${result.reprintCount} of ${reference}` : result.error,
+    });
   };
 
+  const renderTransaction = ({ item: transaction }: { item: LedgerEntry }) => (
+    <Card
+      style={styles.transactionCard}
+      onPress={() => router.push({ pathname: '/modal', params: { reference: transaction.reference } })}
+    >
+      <Card.Content>
+        <View style={styles.transactionHeader}>
+          <Paragraph style={styles.referenceText}>
+            {transaction.reference}
+          </Paragraph>
+          <Chip
+            style={[
+              styles.statusChip,
+              { backgroundColor: getStatusColor(getDisplayStatus(transaction)) }
+            ]}
+            textStyle={styles.statusText}
+          >
+            {getDisplayStatus(transaction).toUpperCase()}
+          </Chip>
+        </View>
+
+        {getTransactionType(transaction) !== 'Sale' && (
+          <Paragraph style={styles.adjustmentText}>
+            {getTransactionType(transaction)} of {transaction.originalReference}
+          </Paragraph>
+        )}
+        {getAdjustmentState(transaction) && (
+          <Paragraph style={styles.adjustmentText}>
+            {ADJUSTMENT_STATE_LABELS[getAdjustmentState(transaction)!]} - net {formatAmount(getNetAmount(transaction))}
+          </Paragraph>
+        )}
+
+        <Divider style={styles.divider} />
+
+        <List.Item
+          title={transaction.customer?.name || 'Walk-in customer'}
+          description={transaction.customer?.email || transaction.remark}
+          left={(props) => (
+            <List.Icon 
+              {...props} 
+              icon={PAYMENT_METHODS[transaction.paymentType]?.icon ?? 'cash-register'} 
+              color="#3498db"
+            />
+          )}
+          right={() => (
+            <View style={styles.amountContainer}>
+              <Paragraph style={styles.amountText}>
+                {getTransactionType(transaction) === 'Sale' ? '' : '-'}{formatAmount(transaction.amount)}
+              </Paragraph>
+              <Paragraph style={styles.channelText}>
+                {PAYMENT_METHODS[transaction.paymentType]?.label ?? transaction.paymentType}
+              </Paragraph>
+            </View>
+          )}
+        />
+
+        <View style={styles.transactionFooter}>
+          {transaction.result ? (
+            <Button
+              mode="text"
+              icon="printer"
+              compact
+              onPress={() => reprint(transaction.reference)}
+              loading={reprintingReference === transaction.reference}
+              disabled={reprintingReference !== null || printing}
+            >
+              {transaction.reprints?.length ? `Reprint (${transaction.reprints.length})` : 'Reprint'}
+            </Button>
+          ) : <View />}
+          <Paragraph style={styles.dateText}>
+            {formatDate(transaction.createdAt)}
+          </Paragraph>
+        </View>
+
+      </Card.Content>
+    </Card>
+  );
+
+  const renderHeader = () => (
+    <>
+      <Card style={styles.headerCard}>
+        <Card.Content>
+          <Title style={styles.headerTitle}>Transaction History</Title>
+          <Paragraph style={styles.headerSubtitle}>
+            {total} transaction{total !== 1 ? 's' : ''}{filtersActive ? ' found' : ''}
+          </Paragraph>
+        </Card.Content>
+      </Card>
+
+      <Searchbar
+        placeholder="Reference, RRN, customer, PAN or amount"
+        value={search}
+        onChangeText={setSearch}
+        style={styles.searchbar}
+        autoCapitalize="none"
+      />
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {STATUS_FILTERS.map((status) => (
+          <Chip
+            key={status}
+            selected={statusFilter.includes(status)}
+            onPress={() => setStatusFilter((prev) => toggle(prev, status))}
+            style={styles.filterChip}
+          >
+            {status.charAt(0).toUpperCase() + status.slice(1)}
+          </Chip>
+        ))}
+      </ScrollView>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {PAYMENT_TYPES.map((paymentType) => (
+          <Chip
+            key={paymentType}
+            icon={PAYMENT_METHODS[paymentType].icon}
+            selected={typeFilter.includes(paymentType)}
+            onPress={() => setTypeFilter((prev) => toggle(prev, paymentType))}
+            style={styles.filterChip}
+          >
+            {PAYMENT_METHODS[paymentType].label}
+          </Chip>
+        ))}
+      </ScrollView>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {DATE_FILTERS.map((preset) => (
+          <Chip
+            key={preset}
+            icon="calendar"
+            selected={datePreset === preset}
+            onPress={() => setDatePreset(preset)}
+            style={styles.filterChip}
+          >
+            {DATE_RANGE_LABELS[preset]}
+          </Chip>
+        ))}
+      </ScrollView>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {SORT_OPTIONS.map((option) => (
+          <Chip
+            key={option.value}
+            icon="sort"
+            selected={sort === option.value}
+            onPress={() => setSort(option.value)}
+            style={styles.filterChip}
+          >
+            {option.label}
+          </Chip>
+        ))}
+      </ScrollView>
+    </>
+  );
+
+  const renderEmpty = () => (
+    filtersActive ? (
+      <Card style={styles.emptyCard}>
+        <Card.Content>
+          <Title style={styles.emptyTitle}>No Matching Transactions</Title>
+          <Paragraph style={styles.emptyText}>
+            Try a different search or remove some filters.
+          </Paragraph>
+          <Button mode="outlined" style={styles.emptyButton} onPress={clearFilters}>
+            Clear Filters
+          </Button>
+        </Card.Content>
+      </Card>
+    ) : (
+      <Card style={styles.emptyCard}>
+        <Card.Content>
+          <Title style={styles.emptyTitle}>No Transactions Yet</Title>
+          <Paragraph style={styles.emptyText}>
+            Your transaction history will appear here once you make payments.
+          </Paragraph>
+          <Button 
+            mode="outlined" 
+            style={styles.emptyButton}
+            onPress={() => {/* Navigate to payment */}}
+          >
+            Make Your First Payment
+          </Button>
+        </Card.Content>
+      </Card>
+    )
+  );
+
   return (
     <SafeAreaView style={styles.container}>
-      <ScrollView
+      <FlatList
+        data={transactions}
+        keyExtractor={(transaction) => transaction.reference}
+        renderItem={renderTransaction}
+        ListHeaderComponent={renderHeader()}
+        ListEmptyComponent={renderEmpty}
         contentContainerStyle={styles.scrollContainer}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        keyboardShouldPersistTaps="handled"
         refreshControl={
           <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
         }
-      >
-        
-        <Card style={styles.headerCard}>
-          <Card.Content>
-            <Title style={styles.headerTitle}>Transaction History</Title>
-            <Paragraph style={styles.headerSubtitle}>
-              {transactions.length} transaction{transactions.length !== 1 ? 's' : ''}
-            </Paragraph>
-          </Card.Content>
-        </Card>
-        
-        {transactions.length === 0 ? (
-          <Card style={styles.emptyCard}>
-            <Card.Content>
-              <Title style={styles.emptyTitle}>No Transactions Yet</Title>
-              <Paragraph style={styles.emptyText}>
-                Your transaction history will appear here once you make payments.
-              </Paragraph>
-              <Button 
-                mode="outlined" 
-                style={styles.emptyButton}
-                onPress={() => {/* Navigate to payment */}}
-              >
-                Make Your First Payment
-              </Button>
-            </Card.Content>
-          </Card>
-        ) : (
-          transactions.map((transaction) => (
-            <Card key={transaction.id} style={styles.transactionCard}>
-              <Card.Content>
-                
-                <View style={styles.transactionHeader}>
-                  <Paragraph style={styles.referenceText}>
-                    {transaction.reference}
-                  </Paragraph>
-                  <Chip
-                    style={[
-                      styles.statusChip,
-                      { backgroundColor: getStatusColor(transaction.status) }
-                    ]}
-                    textStyle={styles.statusText}
-                  >
-                    {transaction.status.toUpperCase()}
-                  </Chip>
-                </View>
-
-                <Divider style={styles.divider} />
-
-                <List.Item
-                  title={transaction.customerName}
-                  description={transaction.customerEmail}
-                  left={(props) => (
-                    <List.Icon 
-                      {...props} 
-                      icon={getChannelIcon(transaction.channel)} 
-                      color="#3498db"
-                    />
-                  )}
-                  right={() => (
-                    <View style={styles.amountContainer}>
-                      <Paragraph style={styles.amountText}>
-                        {formatAmount(transaction.amount)}
-                      </Paragraph>
-                      <Paragraph style={styles.channelText}>
-                        {getChannelDisplayName(transaction.channel)}
-                      </Paragraph>
-                    </View>
-                  )}
-                />
-
-                <Paragraph style={styles.dateText}>
-                  {formatDate(transaction.date)}
-                </Paragraph>
-
-              </Card.Content>
-            </Card>
-          ))
-        )}
-
-      </ScrollView>
+      />
     </SafeAreaView>
   );
 }
@@ -245,6 +396,16 @@ const styles = StyleSheet.create({
     color: '#7f8c8d',
     marginTop: 4,
   },
+  searchbar: {
+    marginBottom: 8,
+    elevation: 1,
+  },
+  chipRow: {
+    paddingVertical: 4,
+  },
+  filterChip: {
+    marginRight: 8,
+  },
   transactionCard: {
     marginBottom: 12,
     elevation: 3,
@@ -269,6 +430,12 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     fontSize: 10,
   },
+  adjustmentText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#e67e22',
+    marginTop: 4,
+  },
   divider: {
     marginVertical: 8,
   },
@@ -284,11 +451,16 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#7f8c8d',
   },
+  transactionFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 4,
+  },
   dateText: {
     fontSize: 12,
     color: '#95a5a6',
     textAlign: 'right',
-    marginTop: 4,
   },
   emptyCard: {
     marginTop: 40,
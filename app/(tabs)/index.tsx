@@ -1,32 +1,46 @@
 import { Link } from 'expo-router';
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { ScrollView, StyleSheet, View } from 'react-native';
-import { Button, Card, Chip, List, Paragraph, Title } from 'react-native-paper';
+import { Button, Card, List, Paragraph, Title } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import Toast from 'react-native-toast-message';
+import { useEnvironment } from '@/hooks/use-environment';
+import { useMerchantSettings } from '@/hooks/use-merchant-settings';
+import { usePayment } from '@/hooks/use-payment';
+import { useTerminal } from '@/hooks/use-terminal';
+import InterswitchPOSService from '../../src/services/InterswitchService';
+import { getEnabledPaymentTypes, PAYMENT_METHODS } from '../../src/services/PaymentMethods';
+import { TERMINAL_STATE_LABELS } from '../../src/services/TerminalStateMachine';
+import TransactionLedger, { LedgerStats } from '../../src/services/TransactionLedger';
+import { ZERO } from '../../src/utils/money';
 
 export default function HomeScreen() {
-  const features = [
-    {
-      title: 'Card Payments',
-      description: 'Accept Visa, Mastercard, and Verve cards',
-      icon: '💳'
-    },
-    {
-      title: 'Bank Transfer',
-      description: 'Direct bank account transfers',
-      icon: '🏦'
-    },
-    {
-      title: 'USSD Payments',
-      description: 'Mobile money via USSD codes',
-      icon: '📱'
-    },
-    {
-      title: 'QR Payments',
-      description: 'Quick scan-to-pay functionality',
-      icon: '🔲'
-    },
-  ];
+  const environment = useEnvironment();
+  const testMode = environment === 'TEST';
+  const terminal = useTerminal();
+  const { lastPayment } = usePayment();
+  const { enabledPaymentTypes } = useMerchantSettings();
+  const [stats, setStats] = useState<LedgerStats>({
+    approvedCount: 0,
+    approvedTotal: ZERO,
+    transactionCount: 0
+  });
+
+  useEffect(() => {
+    const loadStats = async () => {
+      try {
+        setStats(await TransactionLedger.getStats());
+      } catch (error: any) {
+        Toast.show({ type: 'error', text1: 'History Unavailable', text2: error.message });
+      }
+    };
+
+    loadStats();
+    return TransactionLedger.subscribe(loadStats);
+  }, []);
+
+  // Only the methods this merchant has enabled in Settings
+  const features = getEnabledPaymentTypes(enabledPaymentTypes).map((type) => PAYMENT_METHODS[type]);
 
   return (
     <SafeAreaView style={styles.container}>
@@ -38,25 +52,37 @@ export default function HomeScreen() {
             <Title style={styles.welcomeTitle}>Interswitch SDK Demo</Title>
             <Paragraph style={styles.welcomeText}>
               Complete payment solution for your mobile application. 
-              Test all payment methods in sandbox mode.
+              {testMode ? ' Test all payment methods in sandbox mode.' : ' Accepting live payments.'}
             </Paragraph>
-            <Chip mode="outlined" style={styles.testModeChip} textStyle={styles.chipText}>
-              🧪 Test Mode Active
-            </Chip>
           </Card.Content>
         </Card>
 
+        {/* Terminal Status */}
+        <Card style={styles.terminalCard}>
+          <List.Item
+            title={`Terminal: ${TERMINAL_STATE_LABELS[terminal.state]}`}
+            description={lastPayment
+              ? lastPayment.cancelled
+                ? `Last payment cancelled: ${lastPayment.cancellation.message}`
+                : `Last payment ${lastPayment.result.isSuccessful ? 'approved' : 'declined'}: ${InterswitchPOSService.formatCurrency(lastPayment.result.amount)}`
+              : terminal.info?.serialNumber ? `Serial ${terminal.info.serialNumber}` : terminal.error}
+            left={(props) => <List.Icon {...props} icon={terminal.ready ? 'check-circle' : 'progress-clock'} color={terminal.ready ? '#27ae60' : '#f39c12'} />}
+          />
+        </Card>
+
         {/* Quick Stats */}
         <View style={styles.statsContainer}>
           <Card style={styles.statCard}>
             <Card.Content style={styles.statContent}>
-              <Title style={styles.statNumber}>₦0.00</Title>
+              <Title style={styles.statNumber}>
+                {InterswitchPOSService.formatCurrency(stats.approvedTotal)}
+              </Title>
               <Paragraph style={styles.statLabel}>Total Processed</Paragraph>
             </Card.Content>
           </Card>
           <Card style={styles.statCard}>
             <Card.Content style={styles.statContent}>
-              <Title style={styles.statNumber}>0</Title>
+              <Title style={styles.statNumber}>{stats.transactionCount}</Title>
               <Paragraph style={styles.statLabel}>Transactions</Paragraph>
             </Card.Content>
           </Card>
@@ -64,16 +90,12 @@ export default function HomeScreen() {
 
         {/* Features Section */}
         <Title style={styles.sectionTitle}>Supported Payment Methods</Title>
-        {features.map((feature, index) => (
-          <Card key={index} style={styles.featureCard}>
+        {features.map((feature) => (
+          <Card key={feature.label} style={styles.featureCard}>
             <List.Item
-              title={feature.title}
+              title={feature.label}
               description={feature.description}
-              left={() => (
-                <View style={styles.iconContainer}>
-                  <Paragraph style={styles.featureIcon}>{feature.icon}</Paragraph>
-                </View>
-              )}
+              left={(props) => <List.Icon {...props} icon={feature.icon} color="#3498db" />}
             />
           </Card>
         ))}
@@ -87,7 +109,7 @@ export default function HomeScreen() {
               contentStyle={styles.buttonContent}
               icon="credit-card"
             >
-              Make Test Payment
+              {testMode ? 'Make Test Payment' : 'Make Payment'}
             </Button>
           </Link>
           
@@ -101,6 +123,17 @@ export default function HomeScreen() {
               View Transaction History
             </Button>
           </Link>
+
+          <Link href="/reports" asChild>
+            <Button
+              mode="outlined"
+              style={styles.secondaryButton}
+              contentStyle={styles.buttonContent}
+              icon="chart-box"
+            >
+              End-of-Day Reports
+            </Button>
+          </Link>
         </View>
 
       </ScrollView>
@@ -120,6 +153,10 @@ const styles = StyleSheet.create({
     marginBottom: 20,
     elevation: 4,
   },
+  terminalCard: {
+    marginBottom: 20,
+    elevation: 2,
+  },
   welcomeTitle: {
     fontSize: 28,
     fontWeight: 'bold',
@@ -133,13 +170,6 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     lineHeight: 22,
   },
-  testModeChip: {
-    alignSelf: 'center',
-  },
-  chipText: {
-    fontSize: 12,
-    fontWeight: '600',
-  },
   statsContainer: {
     flexDirection: 'row',
     gap: 12,
@@ -172,14 +202,6 @@ const styles = StyleSheet.create({
     marginBottom: 8,
     elevation: 1,
   },
-  iconContainer: {
-    justifyContent: 'center',
-    alignItems: 'center',
-    marginLeft: 8,
-  },
-  featureIcon: {
-    fontSize: 24,
-  },
   actionsContainer: {
     marginTop: 24,
     gap: 12,
@@ -1,9 +1,37 @@
-import React, { useEffect, useState } from 'react';
-import { ScrollView, StyleSheet, View } from 'react-native';
-import { Button, Card, Chip, HelperText, TextInput, Title } from 'react-native-paper';
+import { Link, router } from 'expo-router';
+import React, { useRef, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, View } from 'react-native';
+import { Button, Card, Chip, HelperText, List, TextInput, Title } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Toast from 'react-native-toast-message';
-import InterswitchPOSService, { PaymentResult } from '../../src/services/InterswitchService';
+import { ChargeBreakdownView } from '@/components/charge-breakdown';
+import { SupervisorPinDialog } from '@/components/supervisor-pin-dialog';
+import { MerchantInfo } from '@/constants/merchant';
+import { useCart } from '@/hooks/use-cart';
+import { useEnvironment } from '@/hooks/use-environment';
+import { useMerchantSettings } from '@/hooks/use-merchant-settings';
+import { usePayment } from '@/hooks/use-payment';
+import { useTerminal } from '@/hooks/use-terminal';
+import Cart from '../../src/services/Cart';
+import { calculateCharges, hasCharges, TipChoice } from '../../src/services/Charges';
+import InterswitchPOSService, { PaymentResult, SaleDetails } from '../../src/services/InterswitchService';
+import logger from '../../src/services/Logger';
+import MerchantSettings from '../../src/services/MerchantSettings';
+import OperatorSession from '../../src/services/OperatorSession';
+import { getEnabledPaymentTypes, PAYMENT_METHODS } from '../../src/services/PaymentMethods';
+import { getReceiptCopies, printReceiptCopies, ReceiptCopy } from '../../src/services/ReceiptCopies';
+import {
+  DeclineCategoryDetails,
+  describeDeclineCategory,
+  describeResponseCode,
+  getErrorCategory,
+  NEXT_ACTION_LABELS
+} from '../../src/services/ResponseCodes';
+import { reprintLastReceipt } from '../../src/services/ReceiptReprinter';
+import TerminalStateMachine, { TERMINAL_STATE_LABELS } from '../../src/services/TerminalStateMachine';
+import TransactionLedger, { PaymentType } from '../../src/services/TransactionLedger';
+import TransactionLimits, { describeViolations, LimitRule } from '../../src/services/TransactionLimits';
+import { formatMoney, parseMoney, ZERO } from '../../src/utils/money';
 
 interface FormData {
   customerName: string;
@@ -25,118 +53,71 @@ export default function PaymentScreen() {
   });
   const [errors, setErrors] = useState<FormErrors>({});
   const [loading, setLoading] = useState(false);
-  const [terminalReady, setTerminalReady] = useState(false);
-
-  useEffect(() => {
-    initializeTerminal();
-    setupEventListeners();
+  const [reprinting, setReprinting] = useState(false);
+  // Limits the cashier asked a supervisor to approve going past
+  const [overrideRules, setOverrideRules] = useState<LimitRule[] | null>(null);
+  const [paymentType, setPaymentType] = useState<PaymentType>('Card');
+  const environment = useEnvironment();
+  const merchantSettings = useMerchantSettings();
+  const { enabledPaymentTypes } = merchantSettings;
+  const paymentTypes = getEnabledPaymentTypes(enabledPaymentTypes);
+  // Fall back to the first enabled method when the selected one is switched off in Settings
+  const selectedType = paymentTypes.includes(paymentType) ? paymentType : paymentTypes[0] ?? 'Card';
+  const method = PAYMENT_METHODS[selectedType];
+  const [tip, setTip] = useState<TipChoice>({ type: 'none' });
+  const [customTip, setCustomTip] = useState('');
+  const cart = useCart();
+  // A non-empty cart sets the subtotal instead of the typed amount
+  const fromCart = cart.items.length > 0;
+  const chargesApply = merchantSettings.vatRate > 0 || merchantSettings.serviceChargeRate > 0 || merchantSettings.tipsEnabled;
+  const charges = calculateCharges(
+    fromCart ? cart.totals.subtotal : parseMoney(formData.amount) ?? ZERO,
+    merchantSettings,
+    merchantSettings.tipsEnabled ? tip : { type: 'none' },
+    fromCart ? cart.totals.taxableSubtotal : undefined
+  );
+  const terminal = useTerminal();
+  const { pay } = usePayment();
+  const terminalReady = terminal.ready;
+  // Guards against a double tap before the terminal state has re-rendered
+  const paymentInProgress = useRef(false);
+
+  const askForCopies = () => new Promise<ReceiptCopy[]>((resolve) => {
+    Alert.alert('Print Receipt', 'Which copies should be printed?', [
+      { text: 'Customer Only', onPress: () => resolve(getReceiptCopies('customer')) },
+      { text: 'Both Copies', onPress: () => resolve(getReceiptCopies('both')) },
+    ], { cancelable: false });
+  });
 
-    return () => {
-      InterswitchPOSService.removeEventListeners();
-    };
-  }, []);
+  // Pause between copies so the cashier can tear off the merchant copy
+  const confirmNextCopy = (next: ReceiptCopy) => new Promise<boolean>((resolve) => {
+    Alert.alert('Tear Off Receipt', `Tear off the printed copy, then print the ${next} copy.`, [
+      { text: 'Skip', style: 'cancel', onPress: () => resolve(false) },
+      { text: `Print ${next === 'customer' ? 'Customer' : 'Merchant'} Copy`, onPress: () => resolve(true) },
+    ], { cancelable: false });
+  });
 
-  const initializeTerminal = async () => {
+  const printReceipt = async (transactionData: PaymentResult, sale?: SaleDetails) => {
     try {
-      const result = await InterswitchPOSService.initializeTerminal({
-        environment: 'TEST', // Use TEST for development
-        appVersion: '1.0.0'
-      });
+      const { receiptCopies } = await MerchantSettings.getSettings();
+      const copies = receiptCopies === 'ask' ? await askForCopies() : getReceiptCopies(receiptCopies);
 
-      if (result.success) {
-        setTerminalReady(true);
-        Toast.show({
-          type: 'success',
-          text1: 'Terminal Ready',
-          text2: 'POS terminal initialized successfully',
-        });
-      } else {
-        Toast.show({
-          type: 'error',
-          text1: 'Terminal Error',
-          text2: result.error || 'Failed to initialize terminal',
-        });
-      }
+      await printReceiptCopies(transactionData, MerchantInfo, copies, confirmNextCopy, sale);
     } catch (error) {
-      console.error('Terminal initialization error:', error);
+      logger.error('print', 'Receipt print error', error);
     }
   };
 
-  const setupEventListeners = () => {
-    InterswitchPOSService.addEventListeners({
-      onPaymentCompleted: (result: PaymentResult) => {
-        console.log('Payment completed:', result);
-        if (result.isSuccessful) {
-          Toast.show({
-            type: 'success',
-            text1: 'Payment Successful! 🎉',
-            text2: `Amount: ₦${result.amount} - RRN: ${result.rrn}`,
-            visibilityTime: 6000,
-          });
-          
-          // Print receipt
-          printReceipt(result);
-          
-          // Reset form
-          setFormData({
-            customerName: '',
-            customerEmail: '',
-            customerMobile: '',
-            amount: ''
-          });
-        } else {
-          Toast.show({
-            type: 'error',
-            text1: 'Payment Failed',
-            text2: result.responseMessage || 'Transaction declined',
-            visibilityTime: 4000,
-          });
-        }
-        setLoading(false);
-      },
-      onPaymentCancelled: (result) => {
-        console.log('Payment cancelled:', result);
-        Toast.show({
-          type: 'info',
-          text1: 'Payment Cancelled',
-          text2: 'Transaction was cancelled by user',
-        });
-        setLoading(false);
-      },
-      onPrintCompleted: (result) => {
-        console.log('Print completed:', result);
-        Toast.show({
-          type: 'success',
-          text1: 'Receipt Printed',
-          text2: 'Transaction receipt printed successfully',
-        });
-      },
-      onPrintError: (result) => {
-        console.log('Print error:', result);
-        Toast.show({
-          type: 'error',
-          text1: 'Print Error',
-          text2: result.message || 'Failed to print receipt',
-        });
-      }
-    });
-  };
-
-  const printReceipt = async (transactionData: PaymentResult) => {
-    try {
-      const receiptData = InterswitchPOSService.createStandardReceipt(
-        transactionData,
-        {
-          name: 'Your Business Name',
-          address: '123 Business Street, Lagos',
-          phone: '+234 123 456 7890'
-        }
-      );
+  const reprintLast = async () => {
+    setReprinting(true);
+    const result = await reprintLastReceipt(MerchantInfo);
+    setReprinting(false);
 
-      await InterswitchPOSService.printReceipt(receiptData);
-    } catch (error) {
-      console.error('Print error:', error);
-    }
+    Toast.show({
+      type: result.success ? 'success' : 'error',
+      text1: result.success ? 'Duplicate Printed' : 'Reprint Failed',
+      text2: result.success ? `${result.reference} - copy #${result.reprintCount}` : result.error,
+    });
   };
 
   const handleInputChange = (field: keyof FormData, value: string) => {
@@ -154,22 +135,30 @@ export default function PaymentScreen() {
     }
 
     if (!formData.customerEmail.trim()) {
-      newErrors.customerEmail = 'Email is required';
+      if (method.requiredFields.includes('email')) {
+        newErrors.customerEmail = 'Email is required';
+      }
     } else if (!/\S+@\S+\.\S+/.test(formData.customerEmail)) {
       newErrors.customerEmail = 'Enter a valid email address';
     }
 
     if (!formData.customerMobile.trim()) {
-      newErrors.customerMobile = 'Phone number is required';
+      if (method.requiredFields.includes('mobile')) {
+        newErrors.customerMobile = `Phone number is required for ${method.label}`;
+      }
     } else if (!/^[0-9]{10,11}$/.test(formData.customerMobile.replace(/\D/g, ''))) {
       newErrors.customerMobile = 'Enter a valid phone number (10-11 digits)';
     }
 
-    if (!formData.amount.trim()) {
+    if (!fromCart && !formData.amount.trim()) {
       newErrors.amount = 'Amount is required';
+    } else if (!fromCart && parseMoney(formData.amount) === undefined) {
+      newErrors.amount = 'Enter an amount in Naira with at most 2 decimal places';
     } else {
-      const amountValidation = InterswitchPOSService.validatePaymentAmount(Number(formData.amount));
-      if (!amountValidation.valid) {
+      // Limits apply to what the customer is actually charged. A broken limit
+      // is not a form error: handlePayment offers a supervisor override.
+      const amountValidation = InterswitchPOSService.validatePaymentAmount(charges.total, selectedType);
+      if (!amountValidation.valid && !amountValidation.rule) {
         newErrors.amount = amountValidation.error!;
       }
     }
@@ -178,54 +167,166 @@ export default function PaymentScreen() {
     return Object.keys(newErrors).length === 0;
   };
 
-  const handlePayment = async () => {
+  const handlePayment = async (approvedOverrides: LimitRule[] = []) => {
     if (!validateForm()) return;
 
-    if (!terminalReady) {
+    if (paymentInProgress.current) return;
+    // Claimed before any await so a second tap cannot slip in while limits are checked
+    paymentInProgress.current = true;
+
+    if (!TerminalStateMachine.can('startPayment')) {
+      paymentInProgress.current = false;
       Toast.show({
         type: 'error',
         text1: 'Terminal Not Ready',
-        text2: 'Please wait for terminal initialization',
+        text2: `Terminal is ${TERMINAL_STATE_LABELS[TerminalStateMachine.getState()].toLowerCase()}`,
       });
       return;
     }
 
     setLoading(true);
-    
+
     try {
+      const operator = await OperatorSession.getOperator();
+      const violations = (await TransactionLimits.check({ amount: charges.total, paymentType: selectedType, operator }))
+        .filter((violation) => !approvedOverrides.includes(violation.rule));
+      if (violations.length > 0) {
+        Alert.alert('Over Transaction Limit', describeViolations(violations), [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Supervisor Override',
+            onPress: () => setOverrideRules([...approvedOverrides, ...violations.map((violation) => violation.rule)]),
+          },
+        ]);
+        return;
+      }
+
+      const sale: SaleDetails = {
+        charges: hasCharges(charges) ? charges : undefined,
+        items: fromCart ? cart.items : undefined,
+      };
       const paymentData = {
-        amount: Number(formData.amount),
-        paymentType: 'Card' as const, // Default to Card payment
+        amount: charges.total,
+        paymentType: selectedType,
         reference: await InterswitchPOSService.generateTransactionReference(),
         remark: `Payment for ${formData.customerName}`
       };
 
-      console.log('Initiating payment:', paymentData);
-      
-      // The actual payment result will be handled by the event listeners
-      const result = await InterswitchPOSService.makePayment(paymentData);
-      
-      if (!result.success) {
-        setLoading(false);
+      logger.info('payment', 'Initiating payment', paymentData);
+
+      await TransactionLedger.recordInitiated({
+        reference: paymentData.reference,
+        amount: paymentData.amount,
+        paymentType: paymentData.paymentType,
+        remark: paymentData.remark,
+        operator,
+        limitOverrides: approvedOverrides.length > 0 ? approvedOverrides : undefined,
+        ...sale,
+        customer: {
+          name: formData.customerName.trim(),
+          email: formData.customerEmail.trim(),
+          mobile: formData.customerMobile.trim(),
+        },
+      });
+
+      let outcome;
+      try {
+        outcome = await pay(paymentData, { approvedOverrides });
+      } catch (error: any) {
+        const category = getErrorCategory(error);
+        await TransactionLedger.recordFailed(paymentData.reference, error.message || 'Payment failed', category);
+        showDecline(describeDeclineCategory(category));
+        return;
+      }
+
+      if (outcome.cancelled) {
+        await TransactionLedger.recordCancelled(paymentData.reference, outcome.cancellation);
+        Toast.show({
+          type: 'info',
+          text1: 'Payment Cancelled',
+          text2: outcome.cancellation.message,
+        });
+        return;
+      }
+
+      const result = outcome.result;
+      await TransactionLedger.recordCompleted(paymentData.reference, result);
+
+      if (result.isSuccessful) {
         Toast.show({
-          type: 'error',
-          text1: 'Payment Error',
-          text2: result.error || 'Failed to initiate payment',
+          type: 'success',
+          text1: 'Payment Successful! 🎉',
+          text2: `Amount: ${formatMoney(result.amount)} - RRN: ${result.rrn}`,
+          visibilityTime: 6000,
         });
+
+        // Print receipt
+        printReceipt(result, sale);
+
+        // Reset form
+        setFormData({
+          customerName: '',
+          customerEmail: '',
+          customerMobile: '',
+          amount: ''
+        });
+        selectTip({ type: 'none' });
+        if (fromCart) {
+          await Cart.clear();
+        }
+      } else {
+        showDecline(describeResponseCode(result.responseCode, result.responseMessage));
       }
-      // If successful, the loading state will be handled by onPaymentCompleted callback
-      
     } catch (error: any) {
-      setLoading(false);
-      console.error('Payment error:', error);
+      logger.error('payment', 'Payment error', error);
       Toast.show({
         type: 'error',
         text1: 'Payment Error',
         text2: error.message || 'An unexpected error occurred',
       });
+    } finally {
+      paymentInProgress.current = false;
+      setLoading(false);
+    }
+  };
+
+  // Explain a decline to the cashier, with the wording to pass on to the customer
+  const showDecline = (decline: DeclineCategoryDetails) => {
+    Alert.alert(
+      decline.label,
+      `${decline.cashierMessage}\n\nTell the customer: "${decline.customerMessage}"\n\nNext step: ${NEXT_ACTION_LABELS[decline.action]}`,
+      decline.action === 'retry'
+        ? [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Retry', onPress: () => handlePayment() },
+        ]
+        // Never offer Retry here: the timed-out payment may still be approved
+        : decline.action === 'checkHistory'
+          ? [
+            { text: 'OK', style: 'cancel' },
+            { text: 'View History', onPress: () => router.push('/history') },
+          ]
+          : [{ text: 'OK' }]
+    );
+  };
+
+  const selectTip = (choice: TipChoice) => {
+    setTip(choice);
+    if (choice.type !== 'amount') {
+      setCustomTip('');
     }
   };
 
+  const changeCustomTip = (value: string) => {
+    setCustomTip(value);
+    setTip({ type: 'amount', amount: parseMoney(value) ?? ZERO });
+  };
+
+  const selectPaymentType = (type: PaymentType) => {
+    setPaymentType(type);
+    setErrors({});
+  };
+
   const fillTestData = () => {
     setFormData({
       customerName: 'John Doe',
@@ -239,7 +340,7 @@ export default function PaymentScreen() {
     try {
       await InterswitchPOSService.showSettings();
     } catch (error) {
-      console.error('Settings error:', error);
+      logger.error('terminal', 'Terminal settings error', error);
     }
   };
 
@@ -254,7 +355,7 @@ export default function PaymentScreen() {
         });
       }
     } catch (error) {
-      console.error('Call home error:', error);
+      logger.error('sync', 'Call home error', error);
     }
   };
 
@@ -271,16 +372,19 @@ export default function PaymentScreen() {
                 textStyle={[styles.statusText, terminalReady ? styles.readyText : styles.notReadyText]}
                 style={terminalReady ? styles.readyChip : styles.notReadyChip}
               >
-                {terminalReady ? '✅ Terminal Ready' : '⏳ Initializing...'}
+                {terminalReady ? '✅ ' : terminal.state === 'error' ? '❌ ' : '⏳ '}
+                {TERMINAL_STATE_LABELS[terminal.state]}
               </Chip>
-              <Button 
-                mode="text" 
-                onPress={fillTestData}
-                style={styles.fillTestButton}
-                labelStyle={styles.fillTestLabel}
-              >
-                Fill Test Data
-              </Button>
+              {environment === 'TEST' && (
+                <Button 
+                  mode="text" 
+                  onPress={fillTestData}
+                  style={styles.fillTestButton}
+                  labelStyle={styles.fillTestLabel}
+                >
+                  Fill Test Data
+                </Button>
+              )}
             </View>
             <View style={styles.actionButtons}>
               <Button mode="outlined" onPress={showSettings} style={styles.actionButton}>
@@ -289,13 +393,39 @@ export default function PaymentScreen() {
               <Button mode="outlined" onPress={callHome} style={styles.actionButton}>
                 Sync
               </Button>
+              <Button
+                mode="outlined"
+                onPress={reprintLast}
+                loading={reprinting}
+                disabled={reprinting || loading}
+                style={styles.actionButton}
+              >
+                Reprint Last
+              </Button>
             </View>
           </Card.Content>
         </Card>
         
         <Card style={styles.formCard}>
           <Card.Content>
-            
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.methodRow}>
+              {paymentTypes.map((type) => (
+                <Chip
+                  key={type}
+                  icon={PAYMENT_METHODS[type].icon}
+                  selected={type === selectedType}
+                  onPress={() => selectPaymentType(type)}
+                  disabled={loading}
+                  style={styles.methodChip}
+                >
+                  {PAYMENT_METHODS[type].label}
+                </Chip>
+              ))}
+            </ScrollView>
+            <HelperText type="info" style={styles.methodInstructions}>
+              {method.instructions}
+            </HelperText>
+
             <TextInput
               label="Customer Name *"
               value={formData.customerName}
@@ -311,7 +441,7 @@ export default function PaymentScreen() {
             </HelperText>
 
             <TextInput
-              label="Email Address *"
+              label={method.requiredFields.includes('email') ? 'Email Address *' : 'Email Address'}
               value={formData.customerEmail}
               onChangeText={(value) => handleInputChange('customerEmail', value)}
               mode="outlined"
@@ -327,7 +457,7 @@ export default function PaymentScreen() {
             </HelperText>
 
             <TextInput
-              label="Phone Number *"
+              label={method.requiredFields.includes('mobile') ? 'Phone Number *' : 'Phone Number'}
               value={formData.customerMobile}
               onChangeText={(value) => handleInputChange('customerMobile', value)}
               mode="outlined"
@@ -341,42 +471,117 @@ export default function PaymentScreen() {
               {errors.customerMobile}
             </HelperText>
 
-            <TextInput
-              label="Amount (₦) *"
-              value={formData.amount}
-              onChangeText={(value) => handleInputChange('amount', value)}
-              mode="outlined"
-              style={styles.input}
-              keyboardType="decimal-pad"
-              error={!!errors.amount}
-              disabled={loading}
-              left={<TextInput.Icon icon="currency-ngn" />}
-            />
+            {fromCart ? (
+              <List.Item
+                title={`Cart: ${cart.totals.itemCount} item${cart.totals.itemCount !== 1 ? 's' : ''}`}
+                description={formatMoney(cart.totals.subtotal)}
+                left={(props) => <List.Icon {...props} icon="cart" />}
+                right={(props) => <List.Icon {...props} icon="chevron-right" />}
+                onPress={() => router.push('/cart')}
+                disabled={loading}
+                style={styles.cartSummary}
+              />
+            ) : (
+              <TextInput
+                label={chargesApply ? 'Subtotal (₦) *' : 'Amount (₦) *'}
+                value={formData.amount}
+                onChangeText={(value) => handleInputChange('amount', value)}
+                mode="outlined"
+                style={styles.input}
+                keyboardType="decimal-pad"
+                error={!!errors.amount}
+                disabled={loading}
+                left={<TextInput.Icon icon="currency-ngn" />}
+              />
+            )}
             <HelperText type="error" visible={!!errors.amount}>
               {errors.amount}
             </HelperText>
 
+            {merchantSettings.tipsEnabled && (
+              <>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.methodRow}>
+                  <Chip
+                    selected={tip.type === 'none'}
+                    onPress={() => selectTip({ type: 'none' })}
+                    disabled={loading}
+                    style={styles.methodChip}
+                  >
+                    No Tip
+                  </Chip>
+                  {merchantSettings.tipPresets.map((rate) => (
+                    <Chip
+                      key={rate}
+                      selected={tip.type === 'percent' && tip.rate === rate}
+                      onPress={() => selectTip({ type: 'percent', rate })}
+                      disabled={loading}
+                      style={styles.methodChip}
+                    >
+                      {`${rate}%`}
+                    </Chip>
+                  ))}
+                  <Chip
+                    icon="pencil"
+                    selected={tip.type === 'amount'}
+                    onPress={() => changeCustomTip(customTip)}
+                    disabled={loading}
+                    style={styles.methodChip}
+                  >
+                    Custom
+                  </Chip>
+                </ScrollView>
+                {tip.type === 'amount' && (
+                  <TextInput
+                    label="Tip (₦)"
+                    value={customTip}
+                    onChangeText={changeCustomTip}
+                    mode="outlined"
+                    style={styles.input}
+                    keyboardType="decimal-pad"
+                    disabled={loading}
+                    left={<TextInput.Icon icon="hand-coin" />}
+                  />
+                )}
+              </>
+            )}
+
+            {chargesApply && charges.subtotal > 0 && <ChargeBreakdownView charges={charges} />}
+
             <Button
               mode="contained"
-              onPress={handlePayment}
+              onPress={() => handlePayment()}
               loading={loading}
               disabled={loading || !terminalReady}
               style={[styles.payButton, !terminalReady && styles.disabledButton]}
               contentStyle={styles.payButtonContent}
-              icon="credit-card"
+              icon={method.icon}
             >
-              {loading ? 'Processing Payment...' : 'Pay with POS Terminal'}
+              {loading ? 'Processing Payment...' : method.payLabel}
             </Button>
 
+            <Link href="/split-payment" asChild>
+              <Button mode="text" icon="call-split" disabled={loading} style={styles.splitButton}>
+                Split Bill Across Payment Methods
+              </Button>
+            </Link>
+
+            {!fromCart && (
+              <Link href="/products" asChild>
+                <Button mode="text" icon="package-variant" disabled={loading} style={styles.splitButton}>
+                  Sell from Product Catalogue
+                </Button>
+              </Link>
+            )}
+
           </Card.Content>
         </Card>
 
         <Card style={styles.infoCard}>
           <Card.Content>
             <Title style={styles.infoTitle}>SmartPOS Features</Title>
-            <HelperText>
+            <HelperText type="info">
               • Card payments (Chip & PIN, Contactless){'\n'}
-              • Multiple payment methods (Card, QR, USSD){'\n'}
+              • Accepting {paymentTypes.map((type) => PAYMENT_METHODS[type].label).join(', ')}{'\n'}
               • Automatic receipt printing{'\n'}
               • Real-time transaction processing{'\n'}
               • Secure PAX terminal integration
@@ -385,6 +590,18 @@ export default function PaymentScreen() {
         </Card>
 
       </ScrollView>
+
+      <SupervisorPinDialog
+        visible={!!overrideRules}
+        title="Approve Over-Limit Payment"
+        message="A supervisor must approve a payment outside the transaction limits."
+        onDismiss={() => setOverrideRules(null)}
+        onApproved={() => {
+          const rules = overrideRules!;
+          setOverrideRules(null);
+          handlePayment(rules);
+        }}
+      />
     </SafeAreaView>
   );
 }
@@ -449,6 +666,15 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     elevation: 4,
   },
+  methodRow: {
+    paddingBottom: 4,
+  },
+  methodChip: {
+    marginRight: 8,
+  },
+  methodInstructions: {
+    marginBottom: 8,
+  },
   input: {
     marginBottom: 4,
   },
@@ -456,6 +682,14 @@ const styles = StyleSheet.create({
     backgroundColor: '#27ae60',
     marginTop: 20,
   },
+  splitButton: {
+    marginTop: 8,
+  },
+  cartSummary: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    marginBottom: 8,
+  },
   disabledButton: {
     backgroundColor: '#95a5a6',
   },
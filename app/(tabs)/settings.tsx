@@ -1,12 +1,215 @@
+import { router } from 'expo-router';
 import React, { useState } from 'react';
-import { View, StyleSheet, ScrollView } from 'react-native';
-import { List, Card, Title, Paragraph, Switch, Button, Divider } from 'react-native-paper';
+import { Alert, View, StyleSheet, ScrollView } from 'react-native';
+import { List, Card, Title, Paragraph, Switch, Button, Checkbox, Divider, Dialog, Portal, RadioButton, TextInput } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import Toast from 'react-native-toast-message';
+import { SupervisorPinDialog, SupervisorPinSetupDialog } from '@/components/supervisor-pin-dialog';
+import { useEnvironment } from '@/hooks/use-environment';
+import { useMerchantSettings } from '@/hooks/use-merchant-settings';
+import { useOperator } from '@/hooks/use-operator';
+import { useTerminal } from '@/hooks/use-terminal';
+import { NIGERIA_VAT_RATE } from '../../src/services/Charges';
+import { exportLedgerCsv } from '../../src/services/CsvExportService';
+import { Environment } from '../../src/services/EnvironmentService';
+import InterswitchPOSService from '../../src/services/InterswitchService';
+import MerchantSettings, { ReceiptCopiesMode } from '../../src/services/MerchantSettings';
+import OperatorSession from '../../src/services/OperatorSession';
+import { getEnabledPaymentTypes, PAYMENT_METHODS, PAYMENT_TYPES } from '../../src/services/PaymentMethods';
+import ReportService from '../../src/services/ReportService';
+import SupervisorAuth from '../../src/services/SupervisorAuth';
+import { TERMINAL_STATE_LABELS } from '../../src/services/TerminalStateMachine';
+import { PaymentType } from '../../src/services/TransactionLedger';
+import { DATE_RANGE_LABELS, DateRangePreset, getDateRange } from '../../src/utils/dateRange';
+
+const RECEIPT_COPIES_LABELS: Record<ReceiptCopiesMode, string> = {
+  both: 'Merchant and customer copies',
+  customer: 'Customer copy only',
+  ask: 'Ask each time',
+};
+
+// Percent of the subtotal
+const SERVICE_CHARGE_RATES = [0, 5, 10, 12.5, 15];
+
+const EXPORT_RANGES: DateRangePreset[] = ['today', 'yesterday', 'last7Days', 'last30Days', 'thisMonth', 'all'];
 
 export default function SettingsScreen() {
-  const [testMode, setTestMode] = useState(true);
+  const environment = useEnvironment();
+  const testMode = environment === 'TEST';
+  const [switchingEnvironment, setSwitchingEnvironment] = useState(false);
+  const [productionPinVisible, setProductionPinVisible] = useState(false);
+  const [pinSetupVisible, setPinSetupVisible] = useState(false);
+  const [limitsPinVisible, setLimitsPinVisible] = useState(false);
+  const [clearPinVisible, setClearPinVisible] = useState(false);
   const [notifications, setNotifications] = useState(true);
   const [autoBackup, setAutoBackup] = useState(false);
+  const [exportDialogVisible, setExportDialogVisible] = useState(false);
+  const [exportRange, setExportRange] = useState<DateRangePreset>('last7Days');
+  const [exporting, setExporting] = useState(false);
+  const operator = useOperator();
+  const terminal = useTerminal();
+  const [operatorDialogVisible, setOperatorDialogVisible] = useState(false);
+  const [operatorName, setOperatorName] = useState('');
+  const [operatorPinVisible, setOperatorPinVisible] = useState(false);
+  const merchantSettings = useMerchantSettings();
+  const [receiptCopiesDialogVisible, setReceiptCopiesDialogVisible] = useState(false);
+  const [paymentMethodsDialogVisible, setPaymentMethodsDialogVisible] = useState(false);
+  const [serviceChargeDialogVisible, setServiceChargeDialogVisible] = useState(false);
+  const enabledPaymentTypes = getEnabledPaymentTypes(merchantSettings.enabledPaymentTypes);
+
+  const switchEnvironment = async (target: Environment) => {
+    setSwitchingEnvironment(true);
+    const result = await InterswitchPOSService.switchEnvironment(target);
+    setSwitchingEnvironment(false);
+
+    Toast.show({
+      type: result.success ? 'success' : 'error',
+      text1: result.success ? `${target === 'PRODUCTION' ? 'Production' : 'Test'} Mode Active` : 'Environment Switch Failed',
+      text2: result.success ? 'Terminal re-initialized' : result.error,
+    });
+  };
+
+  const onTestModeChange = async (enabled: boolean) => {
+    if (enabled) {
+      Alert.alert(
+        'Switch to Test Mode',
+        'Payments will go to the Interswitch sandbox and will not be settled.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Switch', onPress: () => switchEnvironment('TEST') },
+        ]
+      );
+      return;
+    }
+
+    if (!(await SupervisorAuth.hasPin())) {
+      Alert.alert(
+        'Supervisor PIN Required',
+        'Set a supervisor PIN before switching to production.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Set PIN', onPress: () => setPinSetupVisible(true) },
+        ]
+      );
+      return;
+    }
+
+    Alert.alert(
+      'Switch to Production',
+      'Real cards will be charged and settled. Make sure live credentials are configured.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Continue', style: 'destructive', onPress: () => setProductionPinVisible(true) },
+      ]
+    );
+  };
+
+  const confirmClearHistory = () => {
+    Alert.alert(
+      'Clear Transaction History',
+      'This permanently removes every transaction stored on this device, with its reprint and refund history. Only settled days can be cleared.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Continue', style: 'destructive', onPress: () => setClearPinVisible(true) },
+      ]
+    );
+  };
+
+  const clearHistory = async () => {
+    setClearPinVisible(false);
+    const result = await ReportService.clearSettledHistory();
+
+    Toast.show({
+      type: result.success ? 'success' : 'error',
+      text1: result.success ? 'History Cleared' : 'History Not Cleared',
+      text2: result.success ? 'All stored transactions were removed' : result.error,
+    });
+  };
+
+  const exportData = async () => {
+    setExporting(true);
+    const result = await exportLedgerCsv(getDateRange(exportRange));
+    setExporting(false);
+    setExportDialogVisible(false);
+
+    if (result.success) {
+      Toast.show({
+        type: 'success',
+        text1: 'Export Ready',
+        text2: `${result.count} transaction${result.count !== 1 ? 's' : ''} exported to CSV`,
+      });
+    } else {
+      Toast.show({
+        type: 'error',
+        text1: 'Export Failed',
+        text2: result.error || 'Failed to export transactions',
+      });
+    }
+  };
+
+  const openOperatorDialog = () => {
+    setOperatorName(operator);
+    setOperatorDialogVisible(true);
+  };
+
+  // Operator caps are keyed by name, so only a supervisor may change it
+  const requestOperatorChange = () => {
+    setOperatorDialogVisible(false);
+    setOperatorPinVisible(true);
+  };
+
+  const saveOperator = async () => {
+    setOperatorPinVisible(false);
+    try {
+      await OperatorSession.setOperator(operatorName);
+      Toast.show({
+        type: 'success',
+        text1: 'Operator Changed',
+        text2: `Signed in as ${operatorName.trim()}`,
+      });
+    } catch (error: any) {
+      Toast.show({
+        type: 'error',
+        text1: 'Operator Not Saved',
+        text2: error.message,
+      });
+    }
+  };
+
+  const saveReceiptCopies = async (receiptCopies: ReceiptCopiesMode) => {
+    setReceiptCopiesDialogVisible(false);
+    await MerchantSettings.update({ receiptCopies });
+  };
+
+  const togglePaymentType = async (type: PaymentType) => {
+    const enabled = enabledPaymentTypes.includes(type)
+      ? enabledPaymentTypes.filter((value) => value !== type)
+      : [...enabledPaymentTypes, type];
+
+    if (enabled.length === 0) {
+      Toast.show({
+        type: 'error',
+        text1: 'Payment Methods',
+        text2: 'At least one payment method must stay enabled',
+      });
+      return;
+    }
+
+    await MerchantSettings.update({ enabledPaymentTypes: enabled });
+  };
+
+  const toggleVat = async (enabled: boolean) => {
+    await MerchantSettings.update({ vatRate: enabled ? NIGERIA_VAT_RATE : 0 });
+  };
+
+  const toggleTips = async (tipsEnabled: boolean) => {
+    await MerchantSettings.update({ tipsEnabled });
+  };
+
+  const saveServiceChargeRate = async (serviceChargeRate: number) => {
+    setServiceChargeDialogVisible(false);
+    await MerchantSettings.update({ serviceChargeRate });
+  };
 
   return (
     <SafeAreaView style={styles.container}>
@@ -30,7 +233,7 @@ export default function SettingsScreen() {
             </View>
             <View style={styles.infoRow}>
               <Paragraph style={styles.infoLabel}>Environment:</Paragraph>
-              <Paragraph style={[styles.infoValue, styles.sandboxText]}>
+              <Paragraph style={[styles.infoValue, testMode ? styles.sandboxText : styles.productionText]}>
                 {testMode ? 'Sandbox' : 'Production'}
               </Paragraph>
             </View>
@@ -42,6 +245,16 @@ export default function SettingsScreen() {
           <Card.Content>
             <Title style={styles.cardTitle}>Settings</Title>
             
+            <List.Item
+              title="Operator"
+              description={`Signed in as ${operator}`}
+              left={(props) => <List.Icon {...props} icon="account-tie" color="#16a085" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={openOperatorDialog}
+            />
+
+            <Divider />
+
             <List.Item
               title="Test Mode"
               description="Enable sandbox environment for testing"
@@ -49,13 +262,106 @@ export default function SettingsScreen() {
               right={() => (
                 <Switch
                   value={testMode}
-                  onValueChange={setTestMode}
+                  onValueChange={onTestModeChange}
+                  disabled={switchingEnvironment}
                 />
               )}
             />
+
+            <Divider />
+
+            <List.Item
+              title="Supervisor PIN"
+              description="Required for production and other protected actions"
+              left={(props) => <List.Icon {...props} icon="shield-lock" color="#e67e22" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => setPinSetupVisible(true)}
+            />
             
             <Divider />
+
+            <List.Item
+              title="Terminal"
+              description={terminal.info
+                ? `${TERMINAL_STATE_LABELS[terminal.state]} - ${terminal.info.deviceType} ${terminal.info.serialNumber}`
+                : terminal.error || TERMINAL_STATE_LABELS[terminal.state]}
+              left={(props) => <List.Icon {...props} icon="cellphone-check" color="#2980b9" />}
+              right={(props) => <List.Icon {...props} icon="refresh" />}
+              onPress={terminal.state === 'ready' || terminal.state === 'error' ? terminal.initialize : undefined}
+            />
+
+            <Divider />
+
+            <List.Item
+              title="Terminal Credentials"
+              description="Client ID, secret and merchant details"
+              left={(props) => <List.Icon {...props} icon="key" color="#9b59b6" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => router.push('/terminal-credentials')}
+            />
             
+            <Divider />
+            
+            <List.Item
+              title="Receipt Copies"
+              description={RECEIPT_COPIES_LABELS[merchantSettings.receiptCopies]}
+              left={(props) => <List.Icon {...props} icon="receipt" color="#34495e" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => setReceiptCopiesDialogVisible(true)}
+            />
+
+            <Divider />
+
+            <List.Item
+              title="Payment Methods"
+              description={enabledPaymentTypes.map((type) => PAYMENT_METHODS[type].label).join(', ')}
+              left={(props) => <List.Icon {...props} icon="wallet" color="#27ae60" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => setPaymentMethodsDialogVisible(true)}
+            />
+
+            <Divider />
+
+            <List.Item
+              title="Charge VAT"
+              description={merchantSettings.vatRate > 0 ? `${merchantSettings.vatRate}% added to every sale` : 'Prices are entered VAT-free'}
+              left={(props) => <List.Icon {...props} icon="percent" color="#e67e22" />}
+              right={() => (
+                <Switch
+                  value={merchantSettings.vatRate > 0}
+                  onValueChange={toggleVat}
+                />
+              )}
+            />
+
+            <Divider />
+
+            <List.Item
+              title="Service Charge"
+              description={merchantSettings.serviceChargeRate > 0 ? `${merchantSettings.serviceChargeRate}% of the subtotal` : 'None'}
+              left={(props) => <List.Icon {...props} icon="room-service" color="#16a085" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => setServiceChargeDialogVisible(true)}
+            />
+
+            <Divider />
+
+            <List.Item
+              title="Tips"
+              description={merchantSettings.tipsEnabled
+                ? `Offer ${merchantSettings.tipPresets.map((rate) => `${rate}%`).join(', ')} or a custom tip`
+                : 'Not offered'}
+              left={(props) => <List.Icon {...props} icon="hand-coin" color="#f39c12" />}
+              right={() => (
+                <Switch
+                  value={merchantSettings.tipsEnabled}
+                  onValueChange={toggleTips}
+                />
+              )}
+            />
+
+            <Divider />
+
             <List.Item
               title="Push Notifications"
               description="Get notified about transaction updates"
@@ -92,12 +398,36 @@ export default function SettingsScreen() {
             
             <List.Item
               title="Clear Transaction History"
-              description="Remove all stored transaction data"
+              description="Remove stored transactions once the day is closed"
               left={(props) => <List.Icon {...props} icon="delete" color="#e74c3c" />}
-              onPress={() => {
-                // Handle clear history
-                console.log('Clear transaction history');
-              }}
+              onPress={confirmClearHistory}
+            />
+            
+            <Divider />
+            
+            <List.Item
+              title="Product Catalogue"
+              description="Products, prices and tax classes sold from the cart"
+              left={(props) => <List.Icon {...props} icon="package-variant" color="#8e44ad" />}
+              onPress={() => router.push('/products')}
+            />
+
+            <Divider />
+
+            <List.Item
+              title="Transaction Limits"
+              description="Amount ranges, operator caps and daily cap"
+              left={(props) => <List.Icon {...props} icon="scale-balance" color="#c0392b" />}
+              onPress={() => setLimitsPinVisible(true)}
+            />
+
+            <Divider />
+
+            <List.Item
+              title="Reports"
+              description="X-report, close day and past Z-reports"
+              left={(props) => <List.Icon {...props} icon="chart-box" color="#27ae60" />}
+              onPress={() => router.push('/reports')}
             />
             
             <Divider />
@@ -106,10 +436,7 @@ export default function SettingsScreen() {
               title="Export Data"
               description="Export transaction data to CSV"
               left={(props) => <List.Icon {...props} icon="download" color="#3498db" />}
-              onPress={() => {
-                // Handle export data
-                console.log('Export data');
-              }}
+              onPress={() => setExportDialogVisible(true)}
             />
             
             <Divider />
@@ -118,10 +445,16 @@ export default function SettingsScreen() {
               title="View Logs"
               description="View application logs and debug info"
               left={(props) => <List.Icon {...props} icon="text-box" color="#95a5a6" />}
-              onPress={() => {
-                // Handle view logs
-                console.log('View logs');
-              }}
+              onPress={() => router.push('/logs')}
+            />
+
+            <Divider />
+
+            <List.Item
+              title="Receipt Preview"
+              description="Preview receipt templates without printing"
+              left={(props) => <List.Icon {...props} icon="receipt" color="#9b59b6" />}
+              onPress={() => router.push('/receipt-preview')}
             />
             
           </Card.Content>
@@ -192,6 +525,144 @@ export default function SettingsScreen() {
         </Card>
 
       </ScrollView>
+
+      <SupervisorPinDialog
+        visible={productionPinVisible}
+        title="Approve Production Mode"
+        message="A supervisor must approve switching this terminal to live payments."
+        onDismiss={() => setProductionPinVisible(false)}
+        onApproved={() => {
+          setProductionPinVisible(false);
+          switchEnvironment('PRODUCTION');
+        }}
+      />
+
+      <SupervisorPinDialog
+        visible={clearPinVisible}
+        title="Approve Clearing History"
+        message="A supervisor must approve removing stored transactions."
+        onDismiss={() => setClearPinVisible(false)}
+        onApproved={clearHistory}
+      />
+
+      <SupervisorPinDialog
+        visible={operatorPinVisible}
+        title="Approve Operator Change"
+        message={`A supervisor must approve signing in as ${operatorName.trim()}.`}
+        onDismiss={() => setOperatorPinVisible(false)}
+        onApproved={saveOperator}
+      />
+
+      <SupervisorPinDialog
+        visible={limitsPinVisible}
+        title="Approve Limit Changes"
+        message="A supervisor must approve changing transaction limits."
+        onDismiss={() => setLimitsPinVisible(false)}
+        onApproved={() => {
+          setLimitsPinVisible(false);
+          router.push('/transaction-limits');
+        }}
+      />
+
+      <SupervisorPinSetupDialog
+        visible={pinSetupVisible}
+        onDismiss={() => setPinSetupVisible(false)}
+        onSaved={() => {
+          setPinSetupVisible(false);
+          Toast.show({
+            type: 'success',
+            text1: 'Supervisor PIN Saved',
+          });
+        }}
+      />
+
+      <Portal>
+        <Dialog visible={operatorDialogVisible} onDismiss={() => setOperatorDialogVisible(false)}>
+          <Dialog.Title>Change Operator</Dialog.Title>
+          <Dialog.Content>
+            <TextInput
+              label="Operator Name"
+              value={operatorName}
+              onChangeText={setOperatorName}
+              mode="outlined"
+              autoFocus
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setOperatorDialogVisible(false)}>Cancel</Button>
+            <Button onPress={requestOperatorChange} disabled={!operatorName.trim()}>Save</Button>
+          </Dialog.Actions>
+        </Dialog>
+
+        <Dialog visible={receiptCopiesDialogVisible} onDismiss={() => setReceiptCopiesDialogVisible(false)}>
+          <Dialog.Title>Receipt Copies</Dialog.Title>
+          <Dialog.Content>
+            <RadioButton.Group
+              value={merchantSettings.receiptCopies}
+              onValueChange={(value) => saveReceiptCopies(value as ReceiptCopiesMode)}
+            >
+              {(Object.keys(RECEIPT_COPIES_LABELS) as ReceiptCopiesMode[]).map((mode) => (
+                <RadioButton.Item key={mode} label={RECEIPT_COPIES_LABELS[mode]} value={mode} />
+              ))}
+            </RadioButton.Group>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setReceiptCopiesDialogVisible(false)}>Close</Button>
+          </Dialog.Actions>
+        </Dialog>
+
+        <Dialog visible={paymentMethodsDialogVisible} onDismiss={() => setPaymentMethodsDialogVisible(false)}>
+          <Dialog.Title>Payment Methods</Dialog.Title>
+          <Dialog.Content>
+            {PAYMENT_TYPES.map((type) => (
+              <Checkbox.Item
+                key={type}
+                label={PAYMENT_METHODS[type].label}
+                status={enabledPaymentTypes.includes(type) ? 'checked' : 'unchecked'}
+                onPress={() => togglePaymentType(type)}
+              />
+            ))}
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setPaymentMethodsDialogVisible(false)}>Close</Button>
+          </Dialog.Actions>
+        </Dialog>
+
+        <Dialog visible={serviceChargeDialogVisible} onDismiss={() => setServiceChargeDialogVisible(false)}>
+          <Dialog.Title>Service Charge</Dialog.Title>
+          <Dialog.Content>
+            <RadioButton.Group
+              value={String(merchantSettings.serviceChargeRate)}
+              onValueChange={(value) => saveServiceChargeRate(Number(value))}
+            >
+              {SERVICE_CHARGE_RATES.map((rate) => (
+                <RadioButton.Item key={rate} label={rate > 0 ? `${rate}%` : 'None'} value={String(rate)} />
+              ))}
+            </RadioButton.Group>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setServiceChargeDialogVisible(false)}>Close</Button>
+          </Dialog.Actions>
+        </Dialog>
+
+        <Dialog visible={exportDialogVisible} onDismiss={() => setExportDialogVisible(false)}>
+          <Dialog.Title>Export Transactions</Dialog.Title>
+          <Dialog.Content>
+            <RadioButton.Group
+              value={exportRange}
+              onValueChange={(value) => setExportRange(value as DateRangePreset)}
+            >
+              {EXPORT_RANGES.map((preset) => (
+                <RadioButton.Item key={preset} label={DATE_RANGE_LABELS[preset]} value={preset} />
+              ))}
+            </RadioButton.Group>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setExportDialogVisible(false)} disabled={exporting}>Cancel</Button>
+            <Button onPress={exportData} loading={exporting} disabled={exporting}>Export CSV</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
     </SafeAreaView>
   );
 }
@@ -250,6 +721,10 @@ const styles = StyleSheet.create({
     color: '#f39c12',
     fontWeight: 'bold',
   },
+  productionText: {
+    color: '#27ae60',
+    fontWeight: 'bold',
+  },
   developerText: {
     fontSize: 14,
     color: '#27ae60',
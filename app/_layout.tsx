@@ -2,10 +2,14 @@ import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import React from 'react';
+import { StyleSheet, View } from 'react-native';
 import { MD3LightTheme, Provider as PaperProvider } from 'react-native-paper';
 import 'react-native-reanimated';
+import { SafeAreaView } from 'react-native-safe-area-context';
 import Toast from 'react-native-toast-message';
 
+import { EnvironmentBanner } from '@/components/environment-banner';
+import { TerminalProvider } from '@/components/terminal-provider';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 
 const theme = {
@@ -21,19 +25,51 @@ export const unstable_settings = {
   anchor: '(tabs)',
 };
 
+/**
+ * Every screen, modals included, gets the environment banner below its header,
+ * or below the status bar when it has none
+ */
+function ScreenWithBanner({ children, options }: { children: React.ReactNode; options: { headerShown?: boolean } }) {
+  return (
+    <View style={styles.screen}>
+      <SafeAreaView edges={options.headerShown === false ? ['top'] : []}>
+        <EnvironmentBanner />
+      </SafeAreaView>
+      {children}
+    </View>
+  );
+}
+
 export default function RootLayout() {
   const colorScheme = useColorScheme();
 
   return (
     <PaperProvider theme={theme}>
-      <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-        <Stack>
-          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-          <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Payment Details' }} />
-        </Stack>
-        <StatusBar style="auto" />
-        <Toast />
-      </ThemeProvider>
+      <TerminalProvider>
+        <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+          <Stack screenLayout={ScreenWithBanner}>
+            <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+            <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Payment Details' }} />
+            <Stack.Screen name="logs" options={{ title: 'Logs' }} />
+            <Stack.Screen name="terminal-credentials" options={{ title: 'Terminal Credentials' }} />
+            <Stack.Screen name="receipt-preview" options={{ title: 'Receipt Preview' }} />
+            <Stack.Screen name="reports" options={{ title: 'Reports' }} />
+            <Stack.Screen name="split-payment" options={{ title: 'Split Payment' }} />
+            <Stack.Screen name="products" options={{ title: 'Products' }} />
+            <Stack.Screen name="product-edit" options={{ title: 'Product' }} />
+            <Stack.Screen name="cart" options={{ title: 'Cart' }} />
+            <Stack.Screen name="transaction-limits" options={{ title: 'Transaction Limits' }} />
+          </Stack>
+          <StatusBar style="auto" />
+          <Toast />
+        </ThemeProvider>
+      </TerminalProvider>
     </PaperProvider>
   );
-}
\ No newline at end of file
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+  },
+});
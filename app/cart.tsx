@@ -0,0 +1,249 @@
+import { router } from 'expo-router';
+import React, { useState } from 'react';
+import { Alert, ScrollView, StyleSheet, View } from 'react-native';
+import { Button, Card, Dialog, Divider, HelperText, IconButton, Paragraph, Portal, TextInput, Title } from 'react-native-paper';
+
+import { useCart } from '@/hooks/use-cart';
+import Cart, { getLineGross, getLineTotal, LineItem } from '../src/services/Cart';
+import { formatMoney, parseMoney, toDecimalString, ZERO } from '../src/utils/money';
+
+export default function CartScreen() {
+  const { items, totals } = useCart();
+  const [discountItem, setDiscountItem] = useState<LineItem | null>(null);
+  const [discountInput, setDiscountInput] = useState('');
+  const [discountError, setDiscountError] = useState('');
+
+  const openDiscountDialog = (item: LineItem) => {
+    setDiscountInput(item.discount > ZERO ? toDecimalString(item.discount) : '');
+    setDiscountError('');
+    setDiscountItem(item);
+  };
+
+  const saveDiscount = async () => {
+    const discount = discountInput.trim() ? parseMoney(discountInput) : ZERO;
+    if (discount === undefined) {
+      setDiscountError('Enter a valid amount');
+      return;
+    }
+
+    await Cart.setDiscount(discountItem!.productId, discount);
+    setDiscountItem(null);
+  };
+
+  const confirmClear = () => {
+    Alert.alert('Clear Cart', 'Remove every item from the cart?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Clear', style: 'destructive', onPress: () => Cart.clear() },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContainer}>
+        <Card style={styles.card}>
+          <Card.Content>
+            <Title style={styles.cardTitle}>Items</Title>
+            {items.length === 0 && (
+              <Paragraph style={styles.emptyText}>The cart is empty. Add products from the catalogue.</Paragraph>
+            )}
+            {items.map((item, index) => (
+              <React.Fragment key={item.productId}>
+                {index > 0 && <Divider />}
+                <View style={styles.line}>
+                  <View style={styles.lineInfo}>
+                    <Paragraph style={styles.lineName}>{item.name}</Paragraph>
+                    <Paragraph style={styles.lineDetail}>
+                      {item.sku} - {formatMoney(item.unitPrice)} each
+                    </Paragraph>
+                    {item.discount > ZERO && (
+                      <Paragraph style={styles.lineDiscount}>
+                        Discount -{formatMoney(item.discount)}
+                      </Paragraph>
+                    )}
+                  </View>
+                  <View style={styles.lineActions}>
+                    <View style={styles.quantityRow}>
+                      <IconButton icon="minus" size={18} onPress={() => Cart.setQuantity(item.productId, item.quantity - 1)} />
+                      <Paragraph style={styles.quantity}>{item.quantity}</Paragraph>
+                      <IconButton icon="plus" size={18} onPress={() => Cart.setQuantity(item.productId, item.quantity + 1)} />
+                      <IconButton icon="tag-outline" size={18} onPress={() => openDiscountDialog(item)} />
+                    </View>
+                    <Paragraph style={styles.lineTotal}>
+                      {formatMoney(getLineTotal(item))}
+                    </Paragraph>
+                  </View>
+                </View>
+              </React.Fragment>
+            ))}
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <View style={styles.summaryRow}>
+              <Paragraph style={styles.summaryLabel}>Items</Paragraph>
+              <Paragraph style={styles.summaryValue}>{totals.itemCount}</Paragraph>
+            </View>
+            {totals.discount > ZERO && (
+              <View style={styles.summaryRow}>
+                <Paragraph style={styles.summaryLabel}>Discounts</Paragraph>
+                <Paragraph style={styles.summaryValue}>
+                  -{formatMoney(totals.discount)}
+                </Paragraph>
+              </View>
+            )}
+            <View style={styles.summaryRow}>
+              <Paragraph style={styles.summaryLabel}>Subtotal</Paragraph>
+              <Title style={styles.subtotal}>{formatMoney(totals.subtotal)}</Title>
+            </View>
+
+            <Button
+              mode="contained"
+              icon="cash-register"
+              onPress={() => router.push('/payment')}
+              disabled={totals.subtotal <= ZERO}
+              style={styles.chargeButton}
+              contentStyle={styles.buttonContent}
+            >
+              Checkout
+            </Button>
+            <View style={styles.actionButtons}>
+              <Button mode="outlined" icon="plus" onPress={() => router.push('/products')} style={styles.actionButton}>
+                Add Items
+              </Button>
+              <Button
+                mode="outlined"
+                icon="cart-remove"
+                onPress={confirmClear}
+                disabled={items.length === 0}
+                textColor="#e74c3c"
+                style={styles.actionButton}
+              >
+                Clear
+              </Button>
+            </View>
+          </Card.Content>
+        </Card>
+      </ScrollView>
+
+      <Portal>
+        <Dialog visible={!!discountItem} onDismiss={() => setDiscountItem(null)}>
+          <Dialog.Title>Line Discount</Dialog.Title>
+          <Dialog.Content>
+            <Paragraph>
+              {discountItem && `${discountItem.quantity} x ${discountItem.name}, up to ${formatMoney(getLineGross(discountItem))}`}
+            </Paragraph>
+            <TextInput
+              label="Discount (₦)"
+              value={discountInput}
+              onChangeText={setDiscountInput}
+              mode="outlined"
+              keyboardType="decimal-pad"
+              error={!!discountError}
+              left={<TextInput.Icon icon="tag-outline" />}
+            />
+            <HelperText type="error" visible={!!discountError}>
+              {discountError}
+            </HelperText>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setDiscountItem(null)}>Cancel</Button>
+            <Button onPress={saveDiscount}>Apply</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f6fa',
+  },
+  scrollContainer: {
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginBottom: 12,
+  },
+  emptyText: {
+    color: '#7f8c8d',
+  },
+  line: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+  },
+  lineInfo: {
+    flex: 1,
+  },
+  lineName: {
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  lineDetail: {
+    fontSize: 12,
+    color: '#7f8c8d',
+  },
+  lineDiscount: {
+    fontSize: 12,
+    color: '#e67e22',
+  },
+  lineActions: {
+    alignItems: 'flex-end',
+  },
+  quantityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  quantity: {
+    minWidth: 24,
+    textAlign: 'center',
+    fontWeight: 'bold',
+  },
+  lineTotal: {
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginRight: 12,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  summaryLabel: {
+    color: '#7f8c8d',
+  },
+  summaryValue: {
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  subtotal: {
+    color: '#27ae60',
+    fontWeight: 'bold',
+  },
+  chargeButton: {
+    backgroundColor: '#27ae60',
+    marginTop: 12,
+  },
+  buttonContent: {
+    paddingVertical: 8,
+  },
+  actionButtons: {
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  actionButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+});
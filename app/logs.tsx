@@ -0,0 +1,225 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, FlatList, ScrollView, StyleSheet, View } from 'react-native';
+import { Button, Card, Chip, Paragraph, Searchbar, Text } from 'react-native-paper';
+import Toast from 'react-native-toast-message';
+import InterswitchPOSService from '../src/services/InterswitchService';
+import logger, { LOG_LEVELS, LOG_TAGS, LogEntry, LogLevel, LogTag } from '../src/services/Logger';
+import { shareTextFile } from '../src/utils/shareFile';
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: '#95a5a6',
+  info: '#3498db',
+  warn: '#f39c12',
+  error: '#e74c3c',
+};
+
+const toggle = <T,>(values: T[], value: T): T[] => (
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value]
+);
+
+export default function LogsScreen() {
+  const [entries, setEntries] = useState<LogEntry[]>([]);
+  const [levels, setLevels] = useState<LogLevel[]>([]);
+  const [tags, setTags] = useState<LogTag[]>([]);
+  const [search, setSearch] = useState('');
+  const [sharing, setSharing] = useState(false);
+
+  const loadEntries = useCallback(async () => {
+    setEntries(await logger.getEntries({ levels, tags, search }));
+  }, [levels, tags, search]);
+
+  useEffect(() => {
+    loadEntries();
+    return logger.subscribe(() => {
+      loadEntries();
+    });
+  }, [loadEntries]);
+
+  const shareBundle = async () => {
+    setSharing(true);
+    try {
+      const terminalInfo = await InterswitchPOSService.getTerminalInfo();
+      const bundle = await logger.buildBundle({
+        'App Version': '1.0.0',
+        'Driver': InterswitchPOSService.getDriverName(),
+        'Terminal Serial': terminalInfo.data?.serialNumber,
+        'Device Type': terminalInfo.data?.deviceType,
+        'SDK Version': terminalInfo.data?.sdkVersion,
+      });
+
+      await shareTextFile(`pos-logs_${Date.now()}.txt`, bundle, {
+        mimeType: 'text/plain',
+        UTI: 'public.plain-text',
+        dialogTitle: 'Share logs',
+      });
+    } catch (error: any) {
+      Toast.show({
+        type: 'error',
+        text1: 'Share Failed',
+        text2: error.message || 'Failed to share logs',
+      });
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const clearLogs = () => {
+    Alert.alert('Clear Logs', 'Remove every log entry stored on this device?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Clear', style: 'destructive', onPress: () => logger.clear() },
+    ]);
+  };
+
+  const renderEntry = ({ item }: { item: LogEntry }) => (
+    <Card style={styles.entryCard}>
+      <Card.Content>
+        <View style={styles.entryHeader}>
+          <Text style={[styles.levelText, { color: LEVEL_COLORS[item.level] }]}>
+            {item.level.toUpperCase()}
+          </Text>
+          <Text style={styles.tagText}>[{item.tag}]</Text>
+          <Text style={styles.timeText}>{new Date(item.timestamp).toLocaleString('en-GB')}</Text>
+        </View>
+        <Paragraph style={styles.messageText}>{item.message}</Paragraph>
+        {item.data !== undefined && (
+          <Text style={styles.dataText} selectable>{item.data}</Text>
+        )}
+      </Card.Content>
+    </Card>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.filters}>
+        <Searchbar
+          placeholder="Search logs"
+          value={search}
+          onChangeText={setSearch}
+          style={styles.searchbar}
+          autoCapitalize="none"
+        />
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {LOG_LEVELS.map((level) => (
+            <Chip
+              key={level}
+              selected={levels.includes(level)}
+              onPress={() => setLevels((prev) => toggle(prev, level))}
+              style={styles.filterChip}
+            >
+              {level}
+            </Chip>
+          ))}
+        </ScrollView>
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {LOG_TAGS.map((tag) => (
+            <Chip
+              key={tag}
+              selected={tags.includes(tag)}
+              onPress={() => setTags((prev) => toggle(prev, tag))}
+              style={styles.filterChip}
+            >
+              {tag}
+            </Chip>
+          ))}
+        </ScrollView>
+
+        <View style={styles.actionButtons}>
+          <Button
+            mode="contained"
+            icon="share-variant"
+            onPress={shareBundle}
+            loading={sharing}
+            disabled={sharing}
+            style={styles.actionButton}
+          >
+            Share Bundle
+          </Button>
+          <Button mode="outlined" icon="delete" onPress={clearLogs} style={styles.actionButton}>
+            Clear
+          </Button>
+        </View>
+      </View>
+
+      <FlatList
+        data={entries}
+        keyExtractor={(entry) => String(entry.id)}
+        renderItem={renderEntry}
+        contentContainerStyle={styles.listContainer}
+        ListEmptyComponent={<Paragraph style={styles.emptyText}>No log entries</Paragraph>}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f6fa',
+  },
+  filters: {
+    padding: 16,
+    paddingBottom: 8,
+  },
+  searchbar: {
+    marginBottom: 8,
+    elevation: 1,
+  },
+  chipRow: {
+    paddingVertical: 4,
+  },
+  filterChip: {
+    marginRight: 8,
+  },
+  actionButtons: {
+    flexDirection: 'row',
+    marginTop: 8,
+  },
+  actionButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  listContainer: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  entryCard: {
+    marginBottom: 8,
+    elevation: 1,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  levelText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    marginRight: 8,
+  },
+  tagText: {
+    fontSize: 12,
+    color: '#7f8c8d',
+    flex: 1,
+  },
+  timeText: {
+    fontSize: 11,
+    color: '#95a5a6',
+  },
+  messageText: {
+    fontSize: 14,
+    color: '#2c3e50',
+  },
+  dataText: {
+    fontSize: 11,
+    color: '#7f8c8d',
+    fontFamily: 'monospace',
+    marginTop: 4,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#95a5a6',
+    marginTop: 40,
+  },
+});
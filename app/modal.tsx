@@ -1,29 +1,478 @@
-import { Link } from 'expo-router';
-import { StyleSheet } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, View } from 'react-native';
+import {
+  Button,
+  Card,
+  Dialog,
+  HelperText,
+  List,
+  Paragraph,
+  Portal,
+  SegmentedButtons,
+  TextInput,
+  Title
+} from 'react-native-paper';
+import Toast from 'react-native-toast-message';
 
-import { ThemedText } from '@/components/themed-text';
-import { ThemedView } from '@/components/themed-view';
+import { PaperWidth, ReceiptPreview } from '@/components/receipt-preview';
+import { SupervisorPinDialog } from '@/components/supervisor-pin-dialog';
+import { MerchantInfo } from '@/constants/merchant';
+import InterswitchPOSService, { AdjustmentType } from '../src/services/InterswitchService';
+import { buildEntryReceipt, reprintReceipt } from '../src/services/ReceiptReprinter';
+import ReportService from '../src/services/ReportService';
+import { describeDeclineCategory, NEXT_ACTION_LABELS } from '../src/services/ResponseCodes';
+import { adjustTransaction, getAdjustmentEligibility } from '../src/services/TransactionAdjustments';
+import TransactionLedger, {
+  AdjustmentState,
+  getAdjustmentState,
+  getDisplayStatus,
+  getNetAmount,
+  getTransactionType,
+  LedgerEntry
+} from '../src/services/TransactionLedger';
+import { compareMoney, Money, parseMoney, toDecimalString } from '../src/utils/money';
+
+const ADJUSTMENT_STATE_LABELS: Record<AdjustmentState, string> = {
+  reversed: 'Reversed',
+  voided: 'Voided',
+  refunded: 'Fully refunded',
+  partiallyRefunded: 'Partially refunded',
+};
+
+interface PendingAdjustment {
+  type: AdjustmentType;
+  amount?: Money;
+  reason?: string;
+}
+
+export default function PaymentDetailsModal() {
+  const { reference } = useLocalSearchParams<{ reference?: string }>();
+  const [entry, setEntry] = useState<LedgerEntry | null>(null);
+  const [batchOpenedAt, setBatchOpenedAt] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [paperWidth, setPaperWidth] = useState<PaperWidth>('58mm');
+  const [reprinting, setReprinting] = useState(false);
+  const [pendingAdjustment, setPendingAdjustment] = useState<PendingAdjustment | null>(null);
+  const [adjusting, setAdjusting] = useState(false);
+  const [refundDialogVisible, setRefundDialogVisible] = useState(false);
+  const [refundAmount, setRefundAmount] = useState('');
+  const [refundReason, setRefundReason] = useState('');
+  const [refundError, setRefundError] = useState('');
+  const [awaitingResult, setAwaitingResult] = useState(false);
+
+  useEffect(() => {
+    const loadEntry = async () => {
+      try {
+        setEntry(reference ? (await TransactionLedger.getEntry(reference)) ?? null : null);
+        // A late result lands in the ledger, so this refreshes with it
+        setAwaitingResult(!!reference && InterswitchPOSService.getAwaitingResults().includes(reference));
+        // Voids are limited to the open batch
+        setBatchOpenedAt((await ReportService.getCurrentBatch()).openedAt);
+      } catch (error: any) {
+        Toast.show({ type: 'error', text1: 'History Unavailable', text2: error.message });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadEntry();
+    // Pick up new reprints and adjustments, and a batch closed meanwhile
+    const unsubscribeLedger = TransactionLedger.subscribe(() => {
+      loadEntry();
+    });
+    const unsubscribeReports = ReportService.subscribe(() => {
+      loadEntry();
+    });
+
+    return () => {
+      unsubscribeLedger();
+      unsubscribeReports();
+    };
+  }, [reference]);
+
+  const reprint = async () => {
+    setReprinting(true);
+    const result = await reprintReceipt(entry!.reference, MerchantInfo);
+    setReprinting(false);
+
+    Toast.show({
+      type: result.success ? 'success' : 'error',
+      text1: result.success ? 'Duplicate Printed' : 'Reprint Failed',
+      text2: result.success ? `Copy #${result.reprintCount}` : result.error,
+    });
+  };
+
+  const confirmRelease = () => {
+    Alert.alert(
+      'Release Terminal',
+      'Only release the terminal once you have confirmed on the terminal or with the customer whether this payment went through. Its result will no longer be waited for.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Release',
+          style: 'destructive',
+          onPress: () => {
+            InterswitchPOSService.releaseAwaitingResult(entry!.reference);
+            setAwaitingResult(false);
+          },
+        },
+      ]
+    );
+  };
+
+  const confirmAdjustment = (type: Exclude<AdjustmentType, 'Refund'>) => {
+    Alert.alert(
+      `${type} Transaction`,
+      `${type === 'Void' ? 'Void' : 'Reverse'} the full ${InterswitchPOSService.formatCurrency(entry!.amount)}? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: type, style: 'destructive', onPress: () => setPendingAdjustment({ type }) },
+      ]
+    );
+  };
+
+  const openRefundDialog = () => {
+    setRefundAmount(toDecimalString(getAdjustmentEligibility(entry!, batchOpenedAt).refundableAmount));
+    setRefundReason('');
+    setRefundError('');
+    setRefundDialogVisible(true);
+  };
+
+  const submitRefund = () => {
+    const amount = parseMoney(refundAmount);
+    const { refundableAmount } = getAdjustmentEligibility(entry!, batchOpenedAt);
+
+    if (!amount) {
+      setRefundError('Enter a valid amount');
+      return;
+    }
+    if (compareMoney(amount, refundableAmount) > 0) {
+      setRefundError(`At most ${InterswitchPOSService.formatCurrency(refundableAmount)} can be refunded`);
+      return;
+    }
+
+    setRefundDialogVisible(false);
+    setPendingAdjustment({ type: 'Refund', amount, reason: refundReason });
+  };
+
+  // Runs once a supervisor has approved the pending adjustment
+  const runAdjustment = async () => {
+    const adjustment = pendingAdjustment!;
+    setPendingAdjustment(null);
+    setAdjusting(true);
+
+    const result = await adjustTransaction(adjustment.type, entry!.reference, {
+      amount: adjustment.amount,
+      reason: adjustment.reason,
+    });
+    setAdjusting(false);
+
+    if (!result.success) {
+      Toast.show({
+        type: 'error',
+        text1: `${adjustment.type} Failed`,
+        text2: result.error,
+      });
+      return;
+    }
+
+    Toast.show({
+      type: 'success',
+      text1: `${adjustment.type} Approved`,
+      text2: `${InterswitchPOSService.formatCurrency(result.result!.amount)} - RRN: ${result.result!.rrn}`,
+    });
+    await InterswitchPOSService.printReceipt(
+      InterswitchPOSService.createAdjustmentReceipt(result.result!, MerchantInfo, { copy: 'customer' })
+    );
+  };
+
+  if (loading) {
+    return <View style={styles.container} />;
+  }
+
+  if (!entry) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Title style={styles.emptyTitle}>Transaction Not Found</Title>
+        <Paragraph style={styles.emptyText}>No stored transaction matches {reference || 'this reference'}.</Paragraph>
+      </View>
+    );
+  }
+
+  const receipt = entry.result ? buildEntryReceipt(entry, MerchantInfo) : null;
+  const transactionType = getTransactionType(entry);
+  const adjustmentState = getAdjustmentState(entry);
+  const eligibility = getAdjustmentEligibility(entry, batchOpenedAt);
 
-export default function ModalScreen() {
   return (
-    <ThemedView style={styles.container}>
-      <ThemedText type="title">This is a modal</ThemedText>
-      <Link href="/" dismissTo style={styles.link}>
-        <ThemedText type="link">Go to home screen</ThemedText>
-      </Link>
-    </ThemedView>
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContainer}>
+      <Card style={styles.summaryCard}>
+        <Card.Content>
+          <Title style={styles.amountText}>{InterswitchPOSService.formatCurrency(entry.amount)}</Title>
+          <Paragraph style={styles.statusText}>{getDisplayStatus(entry).toUpperCase()}</Paragraph>
+          <Paragraph style={styles.referenceText}>{entry.reference}</Paragraph>
+          {entry.customer?.name ? (
+            <Paragraph style={styles.referenceText}>{entry.customer.name}</Paragraph>
+          ) : null}
+          {entry.operator ? (
+            <Paragraph style={styles.referenceText}>Operator: {entry.operator}</Paragraph>
+          ) : null}
+          {entry.declineCategory ? (
+            <Paragraph style={styles.declineText}>
+              {describeDeclineCategory(entry.declineCategory).label}
+              {entry.result?.responseCode ? ` (${entry.result.responseCode})` : ''}
+              {' - '}{NEXT_ACTION_LABELS[describeDeclineCategory(entry.declineCategory).action]}
+            </Paragraph>
+          ) : null}
+          {transactionType !== 'Sale' && entry.originalReference ? (
+            <Button
+              mode="text"
+              compact
+              onPress={() => router.push({ pathname: '/modal', params: { reference: entry.originalReference } })}
+            >
+              {transactionType} of {entry.originalReference}
+            </Button>
+          ) : null}
+          {adjustmentState ? (
+            <Paragraph style={styles.adjustedText}>
+              {ADJUSTMENT_STATE_LABELS[adjustmentState]} - net {InterswitchPOSService.formatCurrency(getNetAmount(entry))}
+            </Paragraph>
+          ) : null}
+        </Card.Content>
+      </Card>
+
+      {awaitingResult ? (
+        <Card style={styles.summaryCard}>
+          <Card.Content>
+            <Paragraph style={styles.declineText}>
+              This payment timed out and the terminal is still waiting for its result.
+            </Paragraph>
+            <Button mode="outlined" icon="lock-open-variant" onPress={confirmRelease} style={styles.printButton}>
+              Release Terminal
+            </Button>
+          </Card.Content>
+        </Card>
+      ) : null}
+
+      {eligibility.canReverse || eligibility.canVoid || eligibility.canRefund ? (
+        <View style={styles.adjustmentActions}>
+          {eligibility.canReverse && (
+            <Button
+              mode="outlined"
+              icon="undo"
+              onPress={() => confirmAdjustment('Reversal')}
+              disabled={adjusting}
+              style={styles.adjustmentButton}
+            >
+              Reverse
+            </Button>
+          )}
+          {eligibility.canVoid && (
+            <Button
+              mode="outlined"
+              icon="cancel"
+              onPress={() => confirmAdjustment('Void')}
+              disabled={adjusting}
+              style={styles.adjustmentButton}
+            >
+              Void
+            </Button>
+          )}
+          {eligibility.canRefund && (
+            <Button
+              mode="outlined"
+              icon="cash-refund"
+              onPress={openRefundDialog}
+              loading={adjusting}
+              disabled={adjusting}
+              style={styles.adjustmentButton}
+            >
+              Refund
+            </Button>
+          )}
+        </View>
+      ) : null}
+
+      {receipt ? (
+        <>
+          <SegmentedButtons
+            value={paperWidth}
+            onValueChange={(value) => setPaperWidth(value as PaperWidth)}
+            buttons={[
+              { value: '58mm', label: '58mm' },
+              { value: '80mm', label: '80mm' },
+            ]}
+            style={styles.widthSelector}
+          />
+          <ReceiptPreview items={receipt} paperWidth={paperWidth} />
+          <Button
+            mode="outlined"
+            icon="printer"
+            style={styles.printButton}
+            onPress={reprint}
+            loading={reprinting}
+            disabled={reprinting}
+          >
+            Reprint Duplicate
+          </Button>
+        </>
+      ) : (
+        <Paragraph style={styles.emptyText}>
+          No receipt is available because the terminal did not return a result
+          {entry.error ? ` (${entry.error})` : ''}.
+        </Paragraph>
+      )}
+
+      {entry.adjustments?.length ? (
+        <Card style={styles.auditCard}>
+          <Card.Content>
+            <Title style={styles.auditTitle}>Adjustments</Title>
+            {entry.adjustments.map((adjustment) => (
+              <List.Item
+                key={adjustment.reference}
+                title={`${adjustment.type} ${InterswitchPOSService.formatCurrency(adjustment.amount)}`}
+                description={new Date(adjustment.completedAt).toLocaleString('en-GB')}
+                left={(props) => <List.Icon {...props} icon="swap-horizontal" />}
+                onPress={() => router.push({ pathname: '/modal', params: { reference: adjustment.reference } })}
+              />
+            ))}
+          </Card.Content>
+        </Card>
+      ) : null}
+
+      {entry.reprints?.length ? (
+        <Card style={styles.auditCard}>
+          <Card.Content>
+            <Title style={styles.auditTitle}>Reprints</Title>
+            {entry.reprints.map((reprint, index) => (
+              <List.Item
+                key={reprint.printedAt}
+                title={`Copy #${index + 1} by ${reprint.operator}`}
+                description={new Date(reprint.printedAt).toLocaleString('en-GB')}
+                left={(props) => <List.Icon {...props} icon="content-copy" />}
+              />
+            ))}
+          </Card.Content>
+        </Card>
+      ) : null}
+
+      <Portal>
+        <Dialog visible={refundDialogVisible} onDismiss={() => setRefundDialogVisible(false)}>
+          <Dialog.Title>Refund</Dialog.Title>
+          <Dialog.Content>
+            <TextInput
+              label="Refund Amount (₦)"
+              value={refundAmount}
+              onChangeText={(value) => {
+                setRefundAmount(value);
+                setRefundError('');
+              }}
+              mode="outlined"
+              keyboardType="decimal-pad"
+              error={!!refundError}
+            />
+            <HelperText type="error" visible={!!refundError}>
+              {refundError}
+            </HelperText>
+            <TextInput
+              label="Reason"
+              value={refundReason}
+              onChangeText={setRefundReason}
+              mode="outlined"
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setRefundDialogVisible(false)}>Cancel</Button>
+            <Button onPress={submitRefund}>Continue</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+
+      <SupervisorPinDialog
+        visible={pendingAdjustment !== null}
+        title={`Approve ${pendingAdjustment?.type ?? 'Adjustment'}`}
+        message="A supervisor must approve reversals, voids and refunds."
+        onDismiss={() => setPendingAdjustment(null)}
+        onApproved={runAdjustment}
+      />
+    </ScrollView>
   );
 }
 
 const styles = StyleSheet.create({
   container: {
     flex: 1,
+    backgroundColor: '#f5f6fa',
+  },
+  centered: {
     alignItems: 'center',
     justifyContent: 'center',
     padding: 20,
   },
-  link: {
-    marginTop: 15,
-    paddingVertical: 15,
+  scrollContainer: {
+    padding: 16,
+  },
+  summaryCard: {
+    marginBottom: 16,
+    elevation: 2,
+  },
+  amountText: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    textAlign: 'center',
+  },
+  statusText: {
+    textAlign: 'center',
+    fontWeight: 'bold',
+    color: '#7f8c8d',
+  },
+  referenceText: {
+    textAlign: 'center',
+    fontSize: 12,
+    color: '#95a5a6',
+  },
+  declineText: {
+    textAlign: 'center',
+    color: '#e74c3c',
+    marginTop: 4,
+  },
+  adjustedText: {
+    textAlign: 'center',
+    fontWeight: 'bold',
+    color: '#e67e22',
+    marginTop: 4,
+  },
+  adjustmentActions: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  adjustmentButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  widthSelector: {
+    marginBottom: 16,
+  },
+  printButton: {
+    marginTop: 16,
+    alignSelf: 'center',
+  },
+  auditCard: {
+    marginTop: 16,
+    elevation: 1,
+  },
+  auditTitle: {
+    fontSize: 16,
+    color: '#2c3e50',
+  },
+  emptyTitle: {
+    color: '#7f8c8d',
+    marginBottom: 8,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#95a5a6',
   },
 });
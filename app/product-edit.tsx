@@ -0,0 +1,241 @@
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, View } from 'react-native';
+import { Button, Card, HelperText, RadioButton, TextInput, Title } from 'react-native-paper';
+import Toast from 'react-native-toast-message';
+
+import ProductCatalog, { ProductErrors, TAX_CLASS_LABELS, TaxClass } from '../src/services/ProductCatalog';
+import { parseMoney, toDecimalString, ZERO } from '../src/utils/money';
+
+interface ProductForm {
+  name: string;
+  sku: string;
+  price: string; // Naira as typed
+  category: string;
+  taxClass: TaxClass;
+}
+
+const EMPTY_FORM: ProductForm = {
+  name: '',
+  sku: '',
+  price: '',
+  category: '',
+  taxClass: 'standard',
+};
+
+export default function ProductEditScreen() {
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const [form, setForm] = useState<ProductForm>(EMPTY_FORM);
+  const [errors, setErrors] = useState<ProductErrors>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!id) {
+      return;
+    }
+
+    ProductCatalog.getProduct(id).then((product) => {
+      if (product) {
+        setForm({
+          name: product.name,
+          sku: product.sku,
+          price: toDecimalString(product.price),
+          category: product.category,
+          taxClass: product.taxClass,
+        });
+      }
+    });
+  }, [id]);
+
+  const handleInputChange = (field: keyof ProductForm, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const saveProduct = async () => {
+    const input = {
+      name: form.name,
+      sku: form.sku,
+      price: parseMoney(form.price) ?? ZERO,
+      category: form.category,
+      taxClass: form.taxClass,
+    };
+
+    const newErrors = ProductCatalog.validate(input, id);
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    setSaving(true);
+    try {
+      const product = await ProductCatalog.saveProduct(input, id);
+      Toast.show({
+        type: 'success',
+        text1: id ? 'Product Updated' : 'Product Added',
+        text2: product.name,
+      });
+      router.back();
+    } catch (error: any) {
+      Toast.show({
+        type: 'error',
+        text1: 'Save Failed',
+        text2: error.message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteProduct = () => {
+    Alert.alert('Delete Product', `Remove ${form.name} from the catalogue? Past sales keep their receipts.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await ProductCatalog.deleteProduct(id!);
+          router.back();
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContainer} keyboardShouldPersistTaps="handled">
+        <Card style={styles.formCard}>
+          <Card.Content>
+            <Title style={styles.cardTitle}>{id ? 'Edit Product' : 'New Product'}</Title>
+
+            <TextInput
+              label="Name *"
+              value={form.name}
+              onChangeText={(value) => handleInputChange('name', value)}
+              mode="outlined"
+              style={styles.input}
+              error={!!errors.name}
+              disabled={saving}
+              left={<TextInput.Icon icon="package-variant" />}
+            />
+            <HelperText type="error" visible={!!errors.name}>
+              {errors.name}
+            </HelperText>
+
+            <TextInput
+              label="SKU *"
+              value={form.sku}
+              onChangeText={(value) => handleInputChange('sku', value)}
+              mode="outlined"
+              style={styles.input}
+              autoCapitalize="characters"
+              autoCorrect={false}
+              error={!!errors.sku}
+              disabled={saving}
+              left={<TextInput.Icon icon="barcode" />}
+            />
+            <HelperText type="error" visible={!!errors.sku}>
+              {errors.sku}
+            </HelperText>
+
+            <TextInput
+              label="Price (₦) *"
+              value={form.price}
+              onChangeText={(value) => handleInputChange('price', value)}
+              mode="outlined"
+              style={styles.input}
+              keyboardType="decimal-pad"
+              error={!!errors.price}
+              disabled={saving}
+              left={<TextInput.Icon icon="currency-ngn" />}
+            />
+            <HelperText type="error" visible={!!errors.price}>
+              {errors.price}
+            </HelperText>
+
+            <TextInput
+              label="Category"
+              value={form.category}
+              onChangeText={(value) => handleInputChange('category', value)}
+              mode="outlined"
+              style={styles.input}
+              disabled={saving}
+              left={<TextInput.Icon icon="shape" />}
+            />
+            <HelperText type="info" visible>
+              Leave empty for Uncategorised
+            </HelperText>
+
+            <RadioButton.Group
+              value={form.taxClass}
+              onValueChange={(value) => handleInputChange('taxClass', value)}
+            >
+              {(Object.keys(TAX_CLASS_LABELS) as TaxClass[]).map((taxClass) => (
+                <RadioButton.Item key={taxClass} label={TAX_CLASS_LABELS[taxClass]} value={taxClass} disabled={saving} />
+              ))}
+            </RadioButton.Group>
+
+            <Button
+              mode="contained"
+              onPress={saveProduct}
+              loading={saving}
+              disabled={saving}
+              style={styles.saveButton}
+              contentStyle={styles.buttonContent}
+              icon="content-save"
+            >
+              Save Product
+            </Button>
+
+            {id && (
+              <Button
+                mode="outlined"
+                onPress={deleteProduct}
+                disabled={saving}
+                style={styles.deleteButton}
+                textColor="#e74c3c"
+                icon="delete"
+              >
+                Delete Product
+              </Button>
+            )}
+          </Card.Content>
+        </Card>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f6fa',
+  },
+  scrollContainer: {
+    padding: 16,
+  },
+  formCard: {
+    marginBottom: 16,
+    elevation: 4,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginBottom: 12,
+  },
+  input: {
+    marginBottom: 4,
+  },
+  saveButton: {
+    backgroundColor: '#27ae60',
+    marginTop: 12,
+  },
+  buttonContent: {
+    paddingVertical: 8,
+  },
+  deleteButton: {
+    marginTop: 12,
+    borderColor: '#e74c3c',
+  },
+});
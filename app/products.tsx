@@ -0,0 +1,138 @@
+import { router } from 'expo-router';
+import React, { useState } from 'react';
+import { FlatList, ScrollView, StyleSheet, View } from 'react-native';
+import { Button, Chip, Divider, IconButton, List, Paragraph, Searchbar } from 'react-native-paper';
+import Toast from 'react-native-toast-message';
+
+import { useCart } from '@/hooks/use-cart';
+import { useProductCatalog } from '@/hooks/use-product-catalog';
+import Cart from '../src/services/Cart';
+import { getCategories, Product, TAX_CLASS_LABELS } from '../src/services/ProductCatalog';
+import { formatMoney } from '../src/utils/money';
+
+export default function ProductsScreen() {
+  const products = useProductCatalog();
+  const { totals } = useCart();
+  const [search, setSearch] = useState('');
+  const [category, setCategory] = useState<string | null>(null);
+
+  const categories = getCategories(products);
+  const query = search.trim().toLowerCase();
+  const visibleProducts = products.filter((product) =>
+    (!category || product.category === category)
+    && (!query || product.name.toLowerCase().includes(query) || product.sku.toLowerCase().includes(query)));
+
+  const addToCart = async (product: Product) => {
+    await Cart.addProduct(product);
+    Toast.show({
+      type: 'success',
+      text1: 'Added to Cart',
+      text2: product.name,
+      visibilityTime: 1500,
+    });
+  };
+
+  const renderProduct = ({ item }: { item: Product }) => (
+    <List.Item
+      title={item.name}
+      description={`${item.sku} - ${formatMoney(item.price)} - ${TAX_CLASS_LABELS[item.taxClass]}`}
+      left={(props) => <List.Icon {...props} icon="package-variant" />}
+      right={() => <IconButton icon="cart-plus" iconColor="#27ae60" onPress={() => addToCart(item)} />}
+      onPress={() => router.push({ pathname: '/product-edit', params: { id: item.id } })}
+    />
+  );
+
+  return (
+    <View style={styles.container}>
+      <Searchbar
+        placeholder="Product name or SKU"
+        value={search}
+        onChangeText={setSearch}
+        style={styles.searchbar}
+        autoCapitalize="none"
+      />
+
+      {categories.length > 1 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          <Chip selected={!category} onPress={() => setCategory(null)} style={styles.chip}>
+            All
+          </Chip>
+          {categories.map((value) => (
+            <Chip key={value} selected={category === value} onPress={() => setCategory(value)} style={styles.chip}>
+              {value}
+            </Chip>
+          ))}
+        </ScrollView>
+      )}
+
+      <FlatList
+        data={visibleProducts}
+        keyExtractor={(item) => item.id}
+        renderItem={renderProduct}
+        ItemSeparatorComponent={Divider}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={
+          <Paragraph style={styles.emptyText}>
+            {products.length === 0 ? 'No products yet. Add your first product to start selling.' : 'No products match your search.'}
+          </Paragraph>
+        }
+      />
+
+      <View style={styles.footer}>
+        <Button mode="outlined" icon="plus" onPress={() => router.push('/product-edit')} style={styles.footerButton}>
+          New Product
+        </Button>
+        <Button
+          mode="contained"
+          icon="cart"
+          onPress={() => router.push('/cart')}
+          disabled={totals.itemCount === 0}
+          style={[styles.footerButton, styles.cartButton]}
+        >
+          {totals.itemCount > 0
+            ? `Cart (${totals.itemCount}) ${formatMoney(totals.subtotal)}`
+            : 'Cart'}
+        </Button>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f6fa',
+  },
+  searchbar: {
+    margin: 16,
+    marginBottom: 8,
+  },
+  chipRow: {
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  chip: {
+    marginRight: 8,
+  },
+  list: {
+    backgroundColor: '#fff',
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#7f8c8d',
+    padding: 24,
+  },
+  footer: {
+    flexDirection: 'row',
+    padding: 12,
+    backgroundColor: '#fff',
+    elevation: 4,
+  },
+  footerButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  cartButton: {
+    backgroundColor: '#27ae60',
+  },
+});
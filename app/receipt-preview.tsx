@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import { ScrollView, StyleSheet, View } from 'react-native';
+import { Button, Chip, Paragraph, SegmentedButtons } from 'react-native-paper';
+import Toast from 'react-native-toast-message';
+
+import { PaperWidth, ReceiptPreview } from '@/components/receipt-preview';
+import { MerchantInfo } from '@/constants/merchant';
+import InterswitchPOSService, { PaymentResult } from '../src/services/InterswitchService';
+import type { ReceiptCopy } from '../src/services/ReceiptCopies';
+import ReceiptTemplates from '../src/services/receipts/ReceiptTemplates';
+import { kobo } from '../src/utils/money';
+
+// Sample data so every template can be previewed without running a payment
+const SAMPLE_TRANSACTION: PaymentResult = {
+  responseCode: '00',
+  responseMessage: 'Approved',
+  isSuccessful: true,
+  transactionReference: 'TXN_SAMPLE_0001',
+  rrn: '000000123456',
+  amount: kobo(250000),
+  cardType: 'VERVE',
+  transactionType: 'PURCHASE',
+  cardHolderName: 'SAM***',
+  cardExpiry: '',
+  cardPan: '506099******1234',
+  aid: 'A0000003710001',
+  dateTime: '18/10/2026 10:30:00',
+  txnDate: 0,
+  authorizationCode: '123456',
+  stan: '000123',
+  authCode: '123456',
+  transactionCurrencyType: 'NGN',
+  timestamp: 0,
+  status: 'completed',
+};
+
+const SAMPLE_CUSTOM = {
+  originalReference: 'TXN_SAMPLE_0000',
+  title: 'Sample Report',
+  subtitle: 'Preview data',
+  printedAt: Date.now(),
+  lines: [
+    { label: 'Approved', value: 3 },
+    { label: 'Declined', value: 1 },
+    { label: 'Total', value: '₦7,500.00', separator: true },
+  ],
+  orderReference: 'ORD_SAMPLE_0000',
+  total: 750000,
+  paid: 750000,
+  tenderCount: 2,
+  tenders: [
+    { method: 'Card', amount: 500000, reference: 'TXN_SAMPLE_0001', cardPan: '506099******1234', rrn: '000000000001', authCode: '123456' },
+    { method: 'Cash', amount: 250000, reference: 'TXN_SAMPLE_0002', cardPan: '', rrn: '', authCode: '' },
+  ],
+};
+
+export default function ReceiptPreviewScreen() {
+  const templates = ReceiptTemplates.listTemplates();
+  const [templateName, setTemplateName] = useState(templates[0]?.name ?? 'sale');
+  const [paperWidth, setPaperWidth] = useState<PaperWidth>('58mm');
+  const [copy, setCopy] = useState<ReceiptCopy>('customer');
+  const [printing, setPrinting] = useState(false);
+
+  const items = useMemo(() => InterswitchPOSService.createReceipt(templateName, {
+    transaction: SAMPLE_TRANSACTION,
+    merchant: MerchantInfo,
+    custom: { ...SAMPLE_CUSTOM, copy },
+  }), [templateName, copy]);
+
+  const printSample = async () => {
+    setPrinting(true);
+    try {
+      const result = await InterswitchPOSService.printReceipt(items);
+      Toast.show({
+        type: result.success ? 'success' : 'error',
+        text1: result.success ? 'Printed' : 'Print Failed',
+        text2: result.success ? `Printed the ${templateName} template` : result.error,
+      });
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  const selectedTemplate = templates.find((template) => template.name === templateName);
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContainer}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {templates.map((template) => (
+          <Chip
+            key={template.name}
+            selected={template.name === templateName}
+            onPress={() => setTemplateName(template.name)}
+            style={styles.templateChip}
+          >
+            {template.name}
+          </Chip>
+        ))}
+      </ScrollView>
+      {selectedTemplate?.description ? (
+        <Paragraph style={styles.descriptionText}>{selectedTemplate.description}</Paragraph>
+      ) : null}
+
+      <SegmentedButtons
+        value={paperWidth}
+        onValueChange={(value) => setPaperWidth(value as PaperWidth)}
+        buttons={[
+          { value: '58mm', label: '58mm' },
+          { value: '80mm', label: '80mm' },
+        ]}
+        style={styles.widthSelector}
+      />
+
+      <SegmentedButtons
+        value={copy}
+        onValueChange={(value) => setCopy(value as ReceiptCopy)}
+        buttons={[
+          { value: 'merchant', label: 'Merchant Copy' },
+          { value: 'customer', label: 'Customer Copy' },
+        ]}
+        style={styles.copySelector}
+      />
+
+      <ReceiptPreview items={items} paperWidth={paperWidth} />
+
+      <View style={styles.actions}>
+        <Button
+          mode="contained"
+          icon="printer"
+          onPress={printSample}
+          loading={printing}
+          disabled={printing}
+        >
+          Test Print
+        </Button>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f6fa',
+  },
+  scrollContainer: {
+    padding: 16,
+  },
+  chipRow: {
+    paddingVertical: 4,
+  },
+  templateChip: {
+    marginRight: 8,
+  },
+  descriptionText: {
+    color: '#7f8c8d',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  widthSelector: {
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  copySelector: {
+    marginBottom: 16,
+  },
+  actions: {
+    marginTop: 16,
+    alignItems: 'center',
+  },
+});
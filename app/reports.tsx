@@ -0,0 +1,225 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, View } from 'react-native';
+import { Button, Card, Divider, List, Paragraph, Title } from 'react-native-paper';
+import Toast from 'react-native-toast-message';
+
+import { ReceiptPreview } from '@/components/receipt-preview';
+import { SupervisorPinDialog } from '@/components/supervisor-pin-dialog';
+import { MerchantInfo } from '@/constants/merchant';
+import InterswitchPOSService from '../src/services/InterswitchService';
+import ReportService, { BatchReport, createReportReceipt } from '../src/services/ReportService';
+import TransactionLedger from '../src/services/TransactionLedger';
+
+export default function ReportsScreen() {
+  const [xReport, setXReport] = useState<BatchReport | null>(null);
+  const [closedReports, setClosedReports] = useState<BatchReport[]>([]);
+  const [printingX, setPrintingX] = useState(false);
+  const [closing, setClosing] = useState(false);
+  const [closePinVisible, setClosePinVisible] = useState(false);
+
+  const loadReports = useCallback(async () => {
+    setXReport(await ReportService.buildXReport());
+    setClosedReports(await ReportService.getClosedReports());
+  }, []);
+
+  useEffect(() => {
+    loadReports();
+    const unsubscribeLedger = TransactionLedger.subscribe(() => {
+      loadReports();
+    });
+    const unsubscribeReports = ReportService.subscribe(() => {
+      loadReports();
+    });
+
+    return () => {
+      unsubscribeLedger();
+      unsubscribeReports();
+    };
+  }, [loadReports]);
+
+  const printXReport = async () => {
+    setPrintingX(true);
+    const result = await ReportService.printXReport(MerchantInfo);
+    setPrintingX(false);
+
+    Toast.show({
+      type: result.success ? 'success' : 'error',
+      text1: result.success ? 'X-Report Printed' : 'Print Failed',
+      text2: result.success ? 'The batch is still open' : result.error,
+    });
+  };
+
+  const confirmCloseDay = () => {
+    Alert.alert(
+      'Close Business Day',
+      'This prints the Z-report and starts a new batch. Transactions from now on will be in the next batch.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Close Day', style: 'destructive', onPress: () => setClosePinVisible(true) },
+      ]
+    );
+  };
+
+  const closeDay = async () => {
+    setClosePinVisible(false);
+    setClosing(true);
+    const result = await ReportService.closeDay(MerchantInfo);
+    setClosing(false);
+
+    Toast.show({
+      type: result.success ? 'success' : 'error',
+      text1: result.success ? `Batch #${result.report!.batchNumber} Closed` : 'Close Day Failed',
+      text2: result.success
+        ? `Net settlement ${InterswitchPOSService.formatCurrency(result.report!.netSettlement)}`
+        : result.error,
+    });
+  };
+
+  const reprintReport = async (report: BatchReport) => {
+    const result = await ReportService.reprintReport(report, MerchantInfo);
+    if (!result.success) {
+      Toast.show({
+        type: 'error',
+        text1: 'Print Failed',
+        text2: result.error,
+      });
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContainer}>
+        {xReport && (
+          <Card style={styles.summaryCard}>
+            <Card.Content>
+              <Title style={styles.cardTitle}>Batch #{xReport.batchNumber}</Title>
+              <View style={styles.summaryRow}>
+                <Paragraph style={styles.summaryLabel}>Approved sales</Paragraph>
+                <Paragraph style={styles.summaryValue}>
+                  {xReport.approved.count} / {InterswitchPOSService.formatCurrency(xReport.approved.amount)}
+                </Paragraph>
+              </View>
+              {!!xReport.charges?.vat && (
+                <View style={styles.summaryRow}>
+                  <Paragraph style={styles.summaryLabel}>VAT collected</Paragraph>
+                  <Paragraph style={styles.summaryValue}>
+                    {InterswitchPOSService.formatCurrency(xReport.charges.vat)}
+                  </Paragraph>
+                </View>
+              )}
+              <View style={styles.summaryRow}>
+                <Paragraph style={styles.summaryLabel}>Net settlement</Paragraph>
+                <Paragraph style={styles.summaryValue}>
+                  {InterswitchPOSService.formatCurrency(xReport.netSettlement)}
+                </Paragraph>
+              </View>
+
+              <View style={styles.actionButtons}>
+                <Button
+                  mode="outlined"
+                  icon="printer"
+                  onPress={printXReport}
+                  loading={printingX}
+                  disabled={printingX || closing}
+                  style={styles.actionButton}
+                >
+                  X-Report
+                </Button>
+                <Button
+                  mode="contained"
+                  icon="calendar-check"
+                  onPress={confirmCloseDay}
+                  loading={closing}
+                  disabled={printingX || closing}
+                  style={styles.actionButton}
+                >
+                  Close Day
+                </Button>
+              </View>
+            </Card.Content>
+          </Card>
+        )}
+
+        {xReport && <ReceiptPreview items={createReportReceipt(xReport, MerchantInfo)} />}
+
+        <Card style={styles.historyCard}>
+          <Card.Content>
+            <Title style={styles.cardTitle}>Closed Days</Title>
+            {closedReports.length === 0 ? (
+              <Paragraph style={styles.emptyText}>No Z-reports yet</Paragraph>
+            ) : (
+              closedReports.map((report, index) => (
+                <React.Fragment key={report.batchNumber}>
+                  {index > 0 && <Divider />}
+                  <List.Item
+                    title={`Batch #${report.batchNumber} - ${InterswitchPOSService.formatCurrency(report.netSettlement)}`}
+                    description={`Closed ${new Date(report.generatedAt).toLocaleString('en-GB')} by ${report.generatedBy}`}
+                    left={(props) => <List.Icon {...props} icon="file-document" />}
+                    right={(props) => <List.Icon {...props} icon="printer" />}
+                    onPress={() => reprintReport(report)}
+                  />
+                </React.Fragment>
+              ))
+            )}
+          </Card.Content>
+        </Card>
+      </ScrollView>
+
+      <SupervisorPinDialog
+        visible={closePinVisible}
+        title="Approve Close Day"
+        message="A supervisor must approve closing the business day."
+        onDismiss={() => setClosePinVisible(false)}
+        onApproved={closeDay}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f6fa',
+  },
+  scrollContainer: {
+    padding: 16,
+  },
+  summaryCard: {
+    marginBottom: 16,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginBottom: 12,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  summaryLabel: {
+    color: '#7f8c8d',
+  },
+  summaryValue: {
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  actionButtons: {
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  actionButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  historyCard: {
+    marginTop: 16,
+    elevation: 2,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#95a5a6',
+  },
+});
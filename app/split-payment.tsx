@@ -0,0 +1,432 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, View } from 'react-native';
+import { Button, Card, Chip, Divider, HelperText, List, Paragraph, TextInput, Title } from 'react-native-paper';
+import Toast from 'react-native-toast-message';
+
+import { ReceiptPreview } from '@/components/receipt-preview';
+import { SupervisorPinDialog } from '@/components/supervisor-pin-dialog';
+import { MerchantInfo } from '@/constants/merchant';
+import { useMerchantSettings } from '@/hooks/use-merchant-settings';
+import { useTerminal } from '@/hooks/use-terminal';
+import InterswitchPOSService from '../src/services/InterswitchService';
+import { getEnabledPaymentTypes, PAYMENT_METHODS } from '../src/services/PaymentMethods';
+import SplitTender, {
+  createSplitReceipt,
+  getApprovedTenders,
+  getBalance,
+  SplitOrder,
+  TenderStatus
+} from '../src/services/SplitTender';
+import { PaymentType } from '../src/services/TransactionLedger';
+import type { LimitRule } from '../src/services/TransactionLimits';
+import { formatMoney, parseMoney, subtractMoney, toDecimalString, ZERO } from '../src/utils/money';
+
+const TENDER_STATUS_COLORS: Record<TenderStatus, string> = {
+  approved: '#27ae60',
+  declined: '#e74c3c',
+  cancelled: '#95a5a6',
+  failed: '#e74c3c',
+  pending: '#f39c12',
+  reversed: '#e67e22',
+};
+
+export default function SplitPaymentScreen() {
+  const terminal = useTerminal();
+  const { enabledPaymentTypes } = useMerchantSettings();
+  const paymentTypes = getEnabledPaymentTypes(enabledPaymentTypes);
+  const [order, setOrder] = useState<SplitOrder | null>(null);
+  const [completedOrder, setCompletedOrder] = useState<SplitOrder | null>(null);
+  const [totalInput, setTotalInput] = useState('');
+  const [tenderType, setTenderType] = useState<PaymentType>('Card');
+  const [tenderAmount, setTenderAmount] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [abandonPinVisible, setAbandonPinVisible] = useState(false);
+  const [overrideRules, setOverrideRules] = useState<LimitRule[] | null>(null);
+
+  const selectedType = paymentTypes.includes(tenderType) ? tenderType : paymentTypes[0] ?? 'Card';
+  const balance = order ? getBalance(order) : ZERO;
+  const approvedTenders = order ? getApprovedTenders(order) : [];
+
+  useEffect(() => {
+    SplitTender.getOpenOrder().then(setOrder);
+    return SplitTender.subscribe(setOrder);
+  }, []);
+
+  const startOrder = async () => {
+    const total = parseMoney(totalInput);
+    if (total === undefined) {
+      setError('Enter the bill total in Naira with at most 2 decimal places');
+      return;
+    }
+
+    setError('');
+    const result = await SplitTender.startOrder(total);
+    if (!result.success) {
+      setError(result.error || 'Could not start the order');
+      return;
+    }
+
+    setCompletedOrder(null);
+    setTotalInput('');
+  };
+
+  const takeTender = async (approvedOverrides: LimitRule[] = []) => {
+    // An empty amount takes the whole remaining balance
+    const amount = tenderAmount.trim() ? parseMoney(tenderAmount) : balance;
+    if (amount === undefined) {
+      setError('Enter the tender in Naira with at most 2 decimal places');
+      return;
+    }
+
+    setError('');
+    setBusy(true);
+    try {
+      const result = await SplitTender.payTender(selectedType, amount, approvedOverrides);
+
+      if (result.violations) {
+        const rules = [...approvedOverrides, ...result.violations.map((violation) => violation.rule)];
+        Alert.alert('Over Transaction Limit', result.error, [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Supervisor Override', onPress: () => setOverrideRules(rules) },
+        ]);
+        return;
+      }
+
+      if (!result.tender) {
+        setError(result.error || 'Could not take the tender');
+        return;
+      }
+
+      setTenderAmount('');
+      Toast.show({
+        type: result.success ? 'success' : 'error',
+        text1: result.success
+          ? `${PAYMENT_METHODS[selectedType].label} Tender Approved`
+          : `Tender ${result.tender.status.charAt(0).toUpperCase() + result.tender.status.slice(1)}`,
+        text2: result.success ? formatMoney(amount) : result.error,
+      });
+    } catch (error: any) {
+      setError(error.message || 'Could not take the tender');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const completeOrder = async () => {
+    setBusy(true);
+    try {
+      const result = await SplitTender.completeOrder();
+      if (!result.success) {
+        setError(result.error || 'Could not complete the order');
+        return;
+      }
+
+      setCompletedOrder(result.order!);
+      const print = await InterswitchPOSService.printReceipt(createSplitReceipt(result.order!, MerchantInfo));
+
+      Toast.show({
+        type: print.success ? 'success' : 'error',
+        text1: print.success ? 'Order Paid' : 'Print Failed',
+        text2: print.success ? `${result.order!.reference} receipt printed` : print.error,
+      });
+    } catch (error: any) {
+      setError(error.message || 'Could not complete the order');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const printCompletedReceipt = async () => {
+    const print = await InterswitchPOSService.printReceipt(createSplitReceipt(completedOrder!, MerchantInfo));
+    if (!print.success) {
+      Toast.show({
+        type: 'error',
+        text1: 'Print Failed',
+        text2: print.error,
+      });
+    }
+  };
+
+  const confirmAbandon = () => {
+    const pendingTender = order?.tenders.find((tender) => tender.status === 'pending');
+    if (pendingTender) {
+      Alert.alert(
+        'Tender Awaiting Result',
+        `Tender ${pendingTender.reference} is still waiting for its result. Check it in History before abandoning the order.`
+      );
+      return;
+    }
+
+    if (approvedTenders.length === 0) {
+      abandonOrder();
+      return;
+    }
+
+    Alert.alert(
+      'Abandon Order',
+      `${approvedTenders.length} tender${approvedTenders.length !== 1 ? 's have' : ' has'} already been taken. Reverse ${approvedTenders.length !== 1 ? 'them' : 'it'} and cancel the order?`,
+      [
+        { text: 'Keep Order', style: 'cancel' },
+        { text: 'Reverse Tenders', style: 'destructive', onPress: () => setAbandonPinVisible(true) },
+      ]
+    );
+  };
+
+  const abandonOrder = async () => {
+    setAbandonPinVisible(false);
+    setBusy(true);
+    try {
+      const result = await SplitTender.abandonOrder();
+
+      Toast.show({
+        type: result.success ? 'success' : 'error',
+        text1: result.success ? 'Order Abandoned' : 'Reversal Incomplete',
+        text2: result.success
+          ? `${result.reversed} tender${result.reversed !== 1 ? 's' : ''} reversed`
+          : `${result.error}. Adjust them from History.`,
+      });
+    } catch (error: any) {
+      Toast.show({
+        type: 'error',
+        text1: 'Abandon Failed',
+        text2: error.message,
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContainer}>
+        {!order && (
+          <Card style={styles.card}>
+            <Card.Content>
+              <Title style={styles.cardTitle}>New Split Payment</Title>
+              <TextInput
+                label="Bill Total (₦)"
+                value={totalInput}
+                onChangeText={setTotalInput}
+                mode="outlined"
+                keyboardType="decimal-pad"
+                left={<TextInput.Icon icon="currency-ngn" />}
+              />
+              <HelperText type="error" visible={!!error}>
+                {error}
+              </HelperText>
+              <Button mode="contained" icon="call-split" onPress={startOrder} disabled={!totalInput.trim()}>
+                Start Order
+              </Button>
+            </Card.Content>
+          </Card>
+        )}
+
+        {!order && completedOrder && (
+          <>
+            <Card style={styles.card}>
+              <Card.Content>
+                <Title style={styles.cardTitle}>Order {completedOrder.reference} Paid</Title>
+                <Button mode="outlined" icon="printer" onPress={printCompletedReceipt}>
+                  Print Receipt Again
+                </Button>
+              </Card.Content>
+            </Card>
+            <ReceiptPreview items={createSplitReceipt(completedOrder, MerchantInfo)} />
+          </>
+        )}
+
+        {order && (
+          <>
+            <Card style={styles.card}>
+              <Card.Content>
+                <Title style={styles.cardTitle}>Order {order.reference}</Title>
+                <View style={styles.summaryRow}>
+                  <Paragraph style={styles.summaryLabel}>Bill total</Paragraph>
+                  <Paragraph style={styles.summaryValue}>{InterswitchPOSService.formatCurrency(order.total)}</Paragraph>
+                </View>
+                <View style={styles.summaryRow}>
+                  <Paragraph style={styles.summaryLabel}>Paid</Paragraph>
+                  <Paragraph style={styles.summaryValue}>
+                    {formatMoney(subtractMoney(order.total, balance))}
+                  </Paragraph>
+                </View>
+                <View style={styles.summaryRow}>
+                  <Paragraph style={styles.summaryLabel}>Balance</Paragraph>
+                  <Title style={balance > ZERO ? styles.balanceDue : styles.balancePaid}>
+                    {formatMoney(balance)}
+                  </Title>
+                </View>
+              </Card.Content>
+            </Card>
+
+            {order.tenders.length > 0 && (
+              <Card style={styles.card}>
+                <Card.Content>
+                  <Title style={styles.cardTitle}>Tenders</Title>
+                  {order.tenders.map((tender, index) => (
+                    <React.Fragment key={tender.reference}>
+                      {index > 0 && <Divider />}
+                      <List.Item
+                        title={`${PAYMENT_METHODS[tender.paymentType]?.label ?? tender.paymentType} - ${InterswitchPOSService.formatCurrency(tender.amount)}`}
+                        description={tender.error || tender.reference}
+                        left={(props) => <List.Icon {...props} icon={PAYMENT_METHODS[tender.paymentType]?.icon ?? 'cash-register'} />}
+                        right={() => (
+                          <Paragraph style={[styles.tenderStatus, { color: TENDER_STATUS_COLORS[tender.status] }]}>
+                            {tender.status.toUpperCase()}
+                          </Paragraph>
+                        )}
+                      />
+                    </React.Fragment>
+                  ))}
+                </Card.Content>
+              </Card>
+            )}
+
+            <Card style={styles.card}>
+              <Card.Content>
+                {balance > ZERO ? (
+                  <>
+                    <Title style={styles.cardTitle}>Add Tender</Title>
+                    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.methodRow}>
+                      {paymentTypes.map((type) => (
+                        <Chip
+                          key={type}
+                          icon={PAYMENT_METHODS[type].icon}
+                          selected={type === selectedType}
+                          onPress={() => setTenderType(type)}
+                          disabled={busy}
+                          style={styles.methodChip}
+                        >
+                          {PAYMENT_METHODS[type].label}
+                        </Chip>
+                      ))}
+                    </ScrollView>
+                    <TextInput
+                      label="Tender Amount (₦)"
+                      placeholder={toDecimalString(balance)}
+                      value={tenderAmount}
+                      onChangeText={setTenderAmount}
+                      mode="outlined"
+                      keyboardType="decimal-pad"
+                      disabled={busy}
+                      left={<TextInput.Icon icon="currency-ngn" />}
+                    />
+                    <HelperText type={error ? 'error' : 'info'} visible>
+                      {error || 'Leave empty to take the full balance'}
+                    </HelperText>
+                    <Button
+                      mode="contained"
+                      icon={PAYMENT_METHODS[selectedType].icon}
+                      onPress={() => takeTender()}
+                      loading={busy}
+                      disabled={busy || !terminal.ready}
+                      style={styles.takeButton}
+                    >
+                      {PAYMENT_METHODS[selectedType].payLabel}
+                    </Button>
+                  </>
+                ) : (
+                  <Button mode="contained" icon="check" onPress={completeOrder} loading={busy} disabled={busy} style={styles.takeButton}>
+                    Complete & Print Receipt
+                  </Button>
+                )}
+
+                <Button
+                  mode="outlined"
+                  icon="cancel"
+                  onPress={confirmAbandon}
+                  disabled={busy}
+                  textColor="#e74c3c"
+                  style={styles.abandonButton}
+                >
+                  Abandon Order
+                </Button>
+              </Card.Content>
+            </Card>
+          </>
+        )}
+      </ScrollView>
+
+      <SupervisorPinDialog
+        visible={abandonPinVisible}
+        title="Approve Reversal"
+        message="A supervisor must approve reversing the tenders of an abandoned order."
+        onDismiss={() => setAbandonPinVisible(false)}
+        onApproved={abandonOrder}
+      />
+
+      <SupervisorPinDialog
+        visible={!!overrideRules}
+        title="Approve Over-Limit Tender"
+        message="A supervisor must approve a tender outside the transaction limits."
+        onDismiss={() => setOverrideRules(null)}
+        onApproved={() => {
+          const rules = overrideRules!;
+          setOverrideRules(null);
+          takeTender(rules);
+        }}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f6fa',
+  },
+  scrollContainer: {
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginBottom: 12,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  summaryLabel: {
+    color: '#7f8c8d',
+  },
+  summaryValue: {
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  balanceDue: {
+    color: '#e67e22',
+    fontWeight: 'bold',
+  },
+  balancePaid: {
+    color: '#27ae60',
+    fontWeight: 'bold',
+  },
+  tenderStatus: {
+    alignSelf: 'center',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  methodRow: {
+    paddingBottom: 8,
+  },
+  methodChip: {
+    marginRight: 8,
+  },
+  takeButton: {
+    backgroundColor: '#27ae60',
+    marginTop: 8,
+  },
+  abandonButton: {
+    marginTop: 12,
+    borderColor: '#e74c3c',
+  },
+});
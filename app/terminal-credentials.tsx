@@ -0,0 +1,291 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, View } from 'react-native';
+import { Button, Card, HelperText, Paragraph, TextInput, Title } from 'react-native-paper';
+import Toast from 'react-native-toast-message';
+import CredentialStore, {
+  CredentialErrors,
+  EMPTY_CREDENTIALS,
+  TerminalCredentials
+} from '../src/services/CredentialStore';
+import InterswitchPOSService from '../src/services/InterswitchService';
+
+export default function TerminalCredentialsScreen() {
+  const [credentials, setCredentials] = useState<TerminalCredentials>(EMPTY_CREDENTIALS);
+  const [errors, setErrors] = useState<CredentialErrors>({});
+  const [secretVisible, setSecretVisible] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [hasStored, setHasStored] = useState(false);
+
+  useEffect(() => {
+    const loadCredentials = async () => {
+      const stored = await CredentialStore.load();
+      if (stored) {
+        setCredentials(stored);
+        setHasStored(true);
+      }
+    };
+
+    loadCredentials();
+  }, []);
+
+  const handleInputChange = (field: keyof TerminalCredentials, value: string) => {
+    setCredentials(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors = CredentialStore.validate(credentials);
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const saveCredentials = async () => {
+    if (!validateForm()) return;
+
+    setSaving(true);
+    try {
+      await CredentialStore.save(credentials);
+      setHasStored(true);
+      Toast.show({
+        type: 'success',
+        text1: 'Credentials Saved',
+        text2: 'They will be used every time the terminal initializes',
+      });
+    } catch (error: any) {
+      Toast.show({
+        type: 'error',
+        text1: 'Save Failed',
+        text2: error.message || 'Could not store credentials securely',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const testCredentials = async () => {
+    if (!validateForm()) return;
+
+    setTesting(true);
+    const result = await InterswitchPOSService.testCredentials(credentials);
+    setTesting(false);
+
+    Toast.show({
+      type: result.success ? 'success' : 'error',
+      text1: result.success ? 'Credentials Valid' : 'Credential Test Failed',
+      text2: result.success ? result.message : result.error,
+      visibilityTime: 5000,
+    });
+  };
+
+  const clearCredentials = () => {
+    Alert.alert('Remove Credentials', 'The terminal will fall back to the default test configuration.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          await CredentialStore.clear();
+          setCredentials(EMPTY_CREDENTIALS);
+          setHasStored(false);
+        },
+      },
+    ]);
+  };
+
+  const busy = saving || testing;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContainer}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Card style={styles.infoCard}>
+          <Card.Content>
+            <Title style={styles.infoTitle}>Terminal Credentials</Title>
+            <Paragraph style={styles.infoText}>
+              Provided by Interswitch when the merchant is onboarded. Stored encrypted on this
+              device and applied automatically whenever the terminal initializes.
+            </Paragraph>
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.formCard}>
+          <Card.Content>
+            <TextInput
+              label="Terminal Alias"
+              value={credentials.alias}
+              onChangeText={(value) => handleInputChange('alias', value)}
+              mode="outlined"
+              style={styles.input}
+              autoCapitalize="none"
+              error={!!errors.alias}
+              disabled={busy}
+              left={<TextInput.Icon icon="tag" />}
+            />
+            <HelperText type="error" visible={!!errors.alias}>
+              {errors.alias}
+            </HelperText>
+
+            <TextInput
+              label="Client ID *"
+              value={credentials.clientId}
+              onChangeText={(value) => handleInputChange('clientId', value)}
+              mode="outlined"
+              style={styles.input}
+              autoCapitalize="none"
+              autoCorrect={false}
+              error={!!errors.clientId}
+              disabled={busy}
+              left={<TextInput.Icon icon="identifier" />}
+            />
+            <HelperText type="error" visible={!!errors.clientId}>
+              {errors.clientId}
+            </HelperText>
+
+            <TextInput
+              label="Client Secret *"
+              value={credentials.clientSecret}
+              onChangeText={(value) => handleInputChange('clientSecret', value)}
+              mode="outlined"
+              style={styles.input}
+              autoCapitalize="none"
+              autoCorrect={false}
+              secureTextEntry={!secretVisible}
+              error={!!errors.clientSecret}
+              disabled={busy}
+              left={<TextInput.Icon icon="key" />}
+              right={
+                <TextInput.Icon
+                  icon={secretVisible ? 'eye-off' : 'eye'}
+                  onPress={() => setSecretVisible(!secretVisible)}
+                />
+              }
+            />
+            <HelperText type="error" visible={!!errors.clientSecret}>
+              {errors.clientSecret}
+            </HelperText>
+
+            <TextInput
+              label="Merchant Code *"
+              value={credentials.merchantCode}
+              onChangeText={(value) => handleInputChange('merchantCode', value)}
+              mode="outlined"
+              style={styles.input}
+              autoCapitalize="characters"
+              error={!!errors.merchantCode}
+              disabled={busy}
+              left={<TextInput.Icon icon="store" />}
+            />
+            <HelperText type="error" visible={!!errors.merchantCode}>
+              {errors.merchantCode}
+            </HelperText>
+
+            <TextInput
+              label="Merchant Telephone"
+              value={credentials.merchantTelephone}
+              onChangeText={(value) => handleInputChange('merchantTelephone', value)}
+              mode="outlined"
+              style={styles.input}
+              keyboardType="phone-pad"
+              error={!!errors.merchantTelephone}
+              disabled={busy}
+              left={<TextInput.Icon icon="phone" />}
+            />
+            <HelperText type="error" visible={!!errors.merchantTelephone}>
+              {errors.merchantTelephone}
+            </HelperText>
+
+            <Button
+              mode="contained"
+              onPress={saveCredentials}
+              loading={saving}
+              disabled={busy}
+              style={styles.saveButton}
+              contentStyle={styles.buttonContent}
+              icon="content-save"
+            >
+              Save Credentials
+            </Button>
+
+            <View style={styles.actionButtons}>
+              <Button
+                mode="outlined"
+                onPress={testCredentials}
+                loading={testing}
+                disabled={busy}
+                style={styles.actionButton}
+                icon="lan-connect"
+              >
+                Test Credentials
+              </Button>
+              {hasStored && (
+                <Button
+                  mode="outlined"
+                  onPress={clearCredentials}
+                  disabled={busy}
+                  style={styles.actionButton}
+                  textColor="#e74c3c"
+                  icon="delete"
+                >
+                  Remove
+                </Button>
+              )}
+            </View>
+          </Card.Content>
+        </Card>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f6fa',
+  },
+  scrollContainer: {
+    padding: 16,
+  },
+  infoCard: {
+    marginBottom: 16,
+    elevation: 1,
+    backgroundColor: '#e8f5e8',
+  },
+  infoTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginBottom: 4,
+  },
+  infoText: {
+    fontSize: 13,
+    color: '#7f8c8d',
+    lineHeight: 20,
+  },
+  formCard: {
+    marginBottom: 16,
+    elevation: 4,
+  },
+  input: {
+    marginBottom: 4,
+  },
+  saveButton: {
+    backgroundColor: '#27ae60',
+    marginTop: 12,
+  },
+  buttonContent: {
+    paddingVertical: 8,
+  },
+  actionButtons: {
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  actionButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+});
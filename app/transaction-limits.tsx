@@ -0,0 +1,299 @@
+import { router } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { ScrollView, StyleSheet, View } from 'react-native';
+import { Button, Card, Divider, HelperText, IconButton, List, Paragraph, TextInput, Title } from 'react-native-paper';
+import Toast from 'react-native-toast-message';
+
+import { PAYMENT_METHODS, PAYMENT_TYPES } from '../src/services/PaymentMethods';
+import { PaymentType } from '../src/services/TransactionLedger';
+import TransactionLimits, { AmountRange, LimitsPolicy } from '../src/services/TransactionLimits';
+import { formatMoney, Money, parseMoney, toDecimalString } from '../src/utils/money';
+
+// Naira as typed. Empty payment type fields fall back to the default range.
+interface RangeForm {
+  min: string;
+  max: string;
+}
+
+const toRangeForm = (range?: AmountRange): RangeForm => ({
+  min: range ? toDecimalString(range.min) : '',
+  max: range ? toDecimalString(range.max) : '',
+});
+
+export default function TransactionLimitsScreen() {
+  const [defaultRange, setDefaultRange] = useState<RangeForm>({ min: '', max: '' });
+  const [typeRanges, setTypeRanges] = useState<Partial<Record<PaymentType, RangeForm>>>({});
+  const [operatorCaps, setOperatorCaps] = useState<Record<string, Money>>({});
+  const [dailyCap, setDailyCap] = useState('');
+  const [newOperator, setNewOperator] = useState('');
+  const [newOperatorCap, setNewOperatorCap] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    TransactionLimits.getPolicy().then((policy) => {
+      setDefaultRange(toRangeForm(policy.defaultRange));
+      setTypeRanges(Object.fromEntries(PAYMENT_TYPES.map((type) => [type, toRangeForm(policy.byPaymentType[type])])));
+      setOperatorCaps(policy.operatorCaps);
+      setDailyCap(policy.dailyCap === undefined ? '' : toDecimalString(policy.dailyCap));
+    });
+  }, []);
+
+  const setTypeRange = (type: PaymentType, field: keyof RangeForm, value: string) => {
+    setTypeRanges(prev => ({ ...prev, [type]: { ...(prev[type] ?? { min: '', max: '' }), [field]: value } }));
+  };
+
+  const addOperatorCap = () => {
+    const operator = newOperator.trim();
+    const cap = parseMoney(newOperatorCap);
+    if (!operator || cap === undefined) {
+      setError('Enter the operator name and a cap in Naira');
+      return;
+    }
+
+    setError('');
+    setOperatorCaps(prev => ({ ...prev, [operator]: cap }));
+    setNewOperator('');
+    setNewOperatorCap('');
+  };
+
+  const removeOperatorCap = (operator: string) => {
+    setOperatorCaps(prev => {
+      const { [operator]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const parseRange = (name: string, form: RangeForm): AmountRange => {
+    const min = parseMoney(form.min);
+    const max = parseMoney(form.max);
+    if (min === undefined || max === undefined) {
+      throw new Error(`${name} needs a minimum and a maximum in Naira`);
+    }
+    return { min, max };
+  };
+
+  const saveLimits = async () => {
+    setSaving(true);
+    try {
+      const byPaymentType: LimitsPolicy['byPaymentType'] = {};
+      PAYMENT_TYPES.forEach((type) => {
+        const form = typeRanges[type];
+        if (form && (form.min.trim() || form.max.trim())) {
+          byPaymentType[type] = parseRange(PAYMENT_METHODS[type].label, form);
+        }
+      });
+
+      const cap = dailyCap.trim() ? parseMoney(dailyCap) : undefined;
+      if (dailyCap.trim() && cap === undefined) {
+        throw new Error('Enter the daily cap in Naira with at most 2 decimal places');
+      }
+
+      await TransactionLimits.update({
+        defaultRange: parseRange('Default', defaultRange),
+        byPaymentType,
+        operatorCaps,
+        dailyCap: cap,
+      });
+
+      setError('');
+      Toast.show({
+        type: 'success',
+        text1: 'Limits Saved',
+        text2: 'New payments are checked against these limits',
+      });
+      router.back();
+    } catch (saveError: any) {
+      setError(saveError.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContainer} keyboardShouldPersistTaps="handled">
+        <Card style={styles.card}>
+          <Card.Content>
+            <Title style={styles.cardTitle}>Default Range</Title>
+            <Paragraph style={styles.hint}>Applies to every payment type without its own range.</Paragraph>
+            <View style={styles.rangeRow}>
+              <TextInput
+                label="Minimum (₦)"
+                value={defaultRange.min}
+                onChangeText={(value) => setDefaultRange(prev => ({ ...prev, min: value }))}
+                mode="outlined"
+                keyboardType="decimal-pad"
+                style={styles.rangeInput}
+                disabled={saving}
+              />
+              <TextInput
+                label="Maximum (₦)"
+                value={defaultRange.max}
+                onChangeText={(value) => setDefaultRange(prev => ({ ...prev, max: value }))}
+                mode="outlined"
+                keyboardType="decimal-pad"
+                style={styles.rangeInput}
+                disabled={saving}
+              />
+            </View>
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Title style={styles.cardTitle}>By Payment Type</Title>
+            <Paragraph style={styles.hint}>Leave both fields empty to use the default range.</Paragraph>
+            {PAYMENT_TYPES.map((type) => (
+              <View key={type}>
+                <Paragraph style={styles.typeLabel}>{PAYMENT_METHODS[type].label}</Paragraph>
+                <View style={styles.rangeRow}>
+                  <TextInput
+                    label="Minimum (₦)"
+                    value={typeRanges[type]?.min ?? ''}
+                    onChangeText={(value) => setTypeRange(type, 'min', value)}
+                    mode="outlined"
+                    keyboardType="decimal-pad"
+                    style={styles.rangeInput}
+                    disabled={saving}
+                  />
+                  <TextInput
+                    label="Maximum (₦)"
+                    value={typeRanges[type]?.max ?? ''}
+                    onChangeText={(value) => setTypeRange(type, 'max', value)}
+                    mode="outlined"
+                    keyboardType="decimal-pad"
+                    style={styles.rangeInput}
+                    disabled={saving}
+                  />
+                </View>
+              </View>
+            ))}
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Title style={styles.cardTitle}>Operator Caps</Title>
+            <Paragraph style={styles.hint}>Largest single payment an operator may take without a supervisor.</Paragraph>
+            {Object.entries(operatorCaps).map(([operator, cap], index) => (
+              <React.Fragment key={operator}>
+                {index > 0 && <Divider />}
+                <List.Item
+                  title={operator}
+                  description={formatMoney(cap)}
+                  left={(props) => <List.Icon {...props} icon="account" />}
+                  right={() => (
+                    <IconButton icon="delete" iconColor="#e74c3c" onPress={() => removeOperatorCap(operator)} disabled={saving} />
+                  )}
+                />
+              </React.Fragment>
+            ))}
+            <View style={styles.rangeRow}>
+              <TextInput
+                label="Operator"
+                value={newOperator}
+                onChangeText={setNewOperator}
+                mode="outlined"
+                style={styles.rangeInput}
+                disabled={saving}
+              />
+              <TextInput
+                label="Cap (₦)"
+                value={newOperatorCap}
+                onChangeText={setNewOperatorCap}
+                mode="outlined"
+                keyboardType="decimal-pad"
+                style={styles.rangeInput}
+                disabled={saving}
+              />
+            </View>
+            <Button mode="outlined" icon="plus" onPress={addOperatorCap} disabled={saving} style={styles.addButton}>
+              Add Operator Cap
+            </Button>
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Title style={styles.cardTitle}>Daily Cap</Title>
+            <TextInput
+              label="Daily cap (₦)"
+              value={dailyCap}
+              onChangeText={setDailyCap}
+              mode="outlined"
+              keyboardType="decimal-pad"
+              disabled={saving}
+              left={<TextInput.Icon icon="calendar-today" />}
+            />
+            <HelperText type="info" visible>
+              Approved sales on this terminal per day. Leave empty for no cap.
+            </HelperText>
+          </Card.Content>
+        </Card>
+
+        <HelperText type="error" visible={!!error}>
+          {error}
+        </HelperText>
+        <Button
+          mode="contained"
+          onPress={saveLimits}
+          loading={saving}
+          disabled={saving}
+          style={styles.saveButton}
+          contentStyle={styles.buttonContent}
+          icon="content-save"
+        >
+          Save Limits
+        </Button>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f6fa',
+  },
+  scrollContainer: {
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginBottom: 4,
+  },
+  hint: {
+    color: '#7f8c8d',
+    marginBottom: 8,
+  },
+  typeLabel: {
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginTop: 8,
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    marginBottom: 4,
+  },
+  rangeInput: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  addButton: {
+    marginTop: 8,
+  },
+  saveButton: {
+    backgroundColor: '#27ae60',
+    marginBottom: 24,
+  },
+  buttonContent: {
+    paddingVertical: 8,
+  },
+});
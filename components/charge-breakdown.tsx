@@ -0,0 +1,64 @@
+import { StyleSheet, View } from 'react-native';
+import { Divider, Text } from 'react-native-paper';
+
+import type { ChargeBreakdown } from '@/src/services/Charges';
+import { formatMoney, ZERO } from '@/src/utils/money';
+
+/**
+ * Subtotal, service charge, VAT, tip and total, shown before the customer is charged
+ */
+export function ChargeBreakdownView({ charges }: { charges: ChargeBreakdown }) {
+  const rows = [
+    { label: 'Subtotal', amount: charges.subtotal, visible: true },
+    { label: `Service charge (${charges.serviceChargeRate}%)`, amount: charges.serviceCharge, visible: charges.serviceChargeRate > 0 },
+    { label: `VAT (${charges.vatRate}%)`, amount: charges.vat, visible: charges.vatRate > 0 },
+    { label: 'Tip', amount: charges.tip, visible: charges.tip > ZERO },
+  ].filter((row) => row.visible);
+
+  return (
+    <View style={styles.container}>
+      {rows.map((row) => (
+        <View key={row.label} style={styles.row}>
+          <Text style={styles.label}>{row.label}</Text>
+          <Text style={styles.value}>{formatMoney(row.amount)}</Text>
+        </View>
+      ))}
+      <Divider style={styles.divider} />
+      <View style={styles.row}>
+        <Text style={styles.totalLabel}>Total to charge</Text>
+        <Text style={styles.totalValue}>{formatMoney(charges.total)}</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  label: {
+    color: '#7f8c8d',
+  },
+  value: {
+    color: '#2c3e50',
+  },
+  divider: {
+    marginVertical: 6,
+  },
+  totalLabel: {
+    fontWeight: 'bold',
+    color: '#2c3e50',
+  },
+  totalValue: {
+    fontWeight: 'bold',
+    color: '#27ae60',
+  },
+});
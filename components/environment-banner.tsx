@@ -0,0 +1,46 @@
+import { StyleSheet, View } from 'react-native';
+import { Text } from 'react-native-paper';
+
+import { useEnvironment } from '@/hooks/use-environment';
+
+/**
+ * Strip shown at the top of every screen so cashiers always know whether
+ * payments are live or going to the sandbox. The root layout renders it once
+ * for all screens.
+ */
+export function EnvironmentBanner() {
+  const environment = useEnvironment();
+  const production = environment === 'PRODUCTION';
+
+  return (
+    <View style={[styles.banner, production ? styles.productionBanner : styles.testBanner]}>
+      <Text style={[styles.text, production ? styles.productionText : styles.testText]}>
+        {production ? '● LIVE · Production environment' : '🧪 TEST MODE · Sandbox environment'}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    paddingVertical: 4,
+    paddingHorizontal: 16,
+    alignItems: 'center',
+  },
+  testBanner: {
+    backgroundColor: '#ffeaa7',
+  },
+  productionBanner: {
+    backgroundColor: '#d5f4e6',
+  },
+  text: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  testText: {
+    color: '#e67e22',
+  },
+  productionText: {
+    color: '#27ae60',
+  },
+});
@@ -0,0 +1,120 @@
+import { Image } from 'expo-image';
+import { StyleSheet, Text, View, type ViewStyle } from 'react-native';
+
+import type { PrintItem } from '@/src/services/types';
+
+export type PaperWidth = '58mm' | '80mm';
+
+type ReceiptPreviewProps = {
+  items: PrintItem[];
+  paperWidth?: PaperWidth;
+  style?: ViewStyle;
+};
+
+// Characters per line on the PAX thermal printer for each paper roll
+const CHARS_PER_LINE: Record<PaperWidth, number> = {
+  '58mm': 32,
+  '80mm': 48,
+};
+
+const FONT_SIZE = 12;
+const CHAR_WIDTH = FONT_SIZE * 0.6; // Monospace glyph width
+const PAPER_PADDING = 12;
+
+/**
+ * Renders PrintItem[] the way the thermal printer lays it out, so receipts
+ * can be checked (or shown to customers) without printing.
+ */
+export function ReceiptPreview({ items, paperWidth = '58mm', style }: ReceiptPreviewProps) {
+  const charsPerLine = CHARS_PER_LINE[paperWidth];
+  const width = Math.ceil(charsPerLine * CHAR_WIDTH) + PAPER_PADDING * 2;
+
+  return (
+    <View style={[styles.paper, { width }, style]}>
+      {items.map((item, index) => (
+        <ReceiptLine key={index} item={item} charsPerLine={charsPerLine} />
+      ))}
+    </View>
+  );
+}
+
+function ReceiptLine({ item, charsPerLine }: { item: PrintItem; charsPerLine: number }) {
+  switch (item.type) {
+    case 'separator':
+      return <Text style={styles.line} numberOfLines={1}>{'-'.repeat(charsPerLine)}</Text>;
+    case 'newline':
+      return <Text style={styles.line}> </Text>;
+    case 'image':
+      if (item.imageType === 'base64' && item.base64Data) {
+        const uri = item.base64Data.startsWith('data:') ? item.base64Data : `data:image/png;base64,${item.base64Data}`;
+        return <Image source={{ uri }} style={styles.image} contentFit="contain" />;
+      }
+      // Resource images live in the Android drawables and are only available to the printer
+      return (
+        <View style={styles.imagePlaceholder}>
+          <Text style={styles.placeholderText}>[{item.resourceName || 'image'}]</Text>
+        </View>
+      );
+    default:
+      return (
+        <Text
+          style={[
+            styles.line,
+            item.isTitle && styles.title,
+            item.isBold && styles.bold,
+            item.displayCenter && styles.center,
+          ]}
+        >
+          {item.text}
+        </Text>
+      );
+  }
+}
+
+const styles = StyleSheet.create({
+  paper: {
+    alignSelf: 'center',
+    backgroundColor: '#fffef8',
+    padding: PAPER_PADDING,
+    borderRadius: 2,
+    shadowColor: '#000',
+    shadowOpacity: 0.15,
+    shadowRadius: 4,
+    shadowOffset: { width: 0, height: 2 },
+    elevation: 3,
+  },
+  line: {
+    fontFamily: 'monospace',
+    fontSize: FONT_SIZE,
+    lineHeight: FONT_SIZE * 1.4,
+    color: '#2c2c2c',
+  },
+  title: {
+    fontSize: FONT_SIZE * 1.5,
+    lineHeight: FONT_SIZE * 2,
+  },
+  bold: {
+    fontWeight: 'bold',
+  },
+  center: {
+    textAlign: 'center',
+  },
+  image: {
+    height: 48,
+    marginVertical: 4,
+  },
+  imagePlaceholder: {
+    height: 48,
+    marginVertical: 4,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#bdc3c7',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  placeholderText: {
+    fontFamily: 'monospace',
+    fontSize: FONT_SIZE,
+    color: '#95a5a6',
+  },
+});
@@ -0,0 +1,201 @@
+import { useEffect, useState } from 'react';
+import { StyleSheet } from 'react-native';
+import { Button, Dialog, HelperText, Paragraph, Portal, TextInput } from 'react-native-paper';
+
+import SupervisorAuth from '@/src/services/SupervisorAuth';
+
+type SupervisorPinDialogProps = {
+  visible: boolean;
+  title?: string;
+  message?: string;
+  onDismiss: () => void;
+  onApproved: () => void;
+};
+
+/**
+ * Asks a supervisor for their PIN and calls onApproved once it is verified
+ */
+export function SupervisorPinDialog({
+  visible,
+  title = 'Supervisor Approval',
+  message,
+  onDismiss,
+  onApproved,
+}: SupervisorPinDialogProps) {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [verifying, setVerifying] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setPin('');
+      setError('');
+    }
+  }, [visible]);
+
+  const verify = async () => {
+    setVerifying(true);
+    const result = await SupervisorAuth.verify(pin);
+    setVerifying(false);
+
+    if (result.success) {
+      onApproved();
+    } else {
+      setPin('');
+      setError(result.error || 'Incorrect supervisor PIN');
+    }
+  };
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onDismiss}>
+        <Dialog.Title>{title}</Dialog.Title>
+        <Dialog.Content>
+          {message && <Paragraph style={styles.message}>{message}</Paragraph>}
+          <TextInput
+            label="Supervisor PIN"
+            value={pin}
+            onChangeText={(value) => {
+              setPin(value.replace(/\D/g, ''));
+              setError('');
+            }}
+            mode="outlined"
+            keyboardType="number-pad"
+            secureTextEntry
+            maxLength={8}
+            autoFocus
+            error={!!error}
+            disabled={verifying}
+          />
+          <HelperText type="error" visible={!!error}>
+            {error}
+          </HelperText>
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={onDismiss} disabled={verifying}>Cancel</Button>
+          <Button onPress={verify} loading={verifying} disabled={verifying || pin.length < 4}>
+            Approve
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+}
+
+type SupervisorPinSetupDialogProps = {
+  visible: boolean;
+  onDismiss: () => void;
+  onSaved: () => void;
+};
+
+/**
+ * Sets the supervisor PIN, or changes it when one already exists
+ */
+export function SupervisorPinSetupDialog({ visible, onDismiss, onSaved }: SupervisorPinSetupDialogProps) {
+  const [hasPin, setHasPin] = useState(false);
+  const [currentPin, setCurrentPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setCurrentPin('');
+      setNewPin('');
+      setConfirmPin('');
+      setError('');
+      SupervisorAuth.hasPin().then(setHasPin);
+    }
+  }, [visible]);
+
+  const save = async () => {
+    if (newPin !== confirmPin) {
+      setError('PINs do not match');
+      return;
+    }
+
+    setSaving(true);
+    const result = await SupervisorAuth.setPin(newPin, currentPin);
+    setSaving(false);
+
+    if (result.success) {
+      onSaved();
+    } else {
+      setError(result.error || 'Failed to save PIN');
+    }
+  };
+
+  const digitsOnly = (setter: (value: string) => void) => (value: string) => {
+    setter(value.replace(/\D/g, ''));
+    setError('');
+  };
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onDismiss}>
+        <Dialog.Title>{hasPin ? 'Change Supervisor PIN' : 'Set Supervisor PIN'}</Dialog.Title>
+        <Dialog.Content>
+          {!hasPin && (
+            <Paragraph style={styles.message}>
+              Until a PIN is set, anyone with this device can set one. Set it when the terminal is installed.
+            </Paragraph>
+          )}
+          {hasPin && (
+            <TextInput
+              label="Current PIN"
+              value={currentPin}
+              onChangeText={digitsOnly(setCurrentPin)}
+              mode="outlined"
+              keyboardType="number-pad"
+              secureTextEntry
+              maxLength={8}
+              style={styles.input}
+              disabled={saving}
+            />
+          )}
+          <TextInput
+            label="New PIN (4-8 digits)"
+            value={newPin}
+            onChangeText={digitsOnly(setNewPin)}
+            mode="outlined"
+            keyboardType="number-pad"
+            secureTextEntry
+            maxLength={8}
+            style={styles.input}
+            disabled={saving}
+          />
+          <TextInput
+            label="Confirm New PIN"
+            value={confirmPin}
+            onChangeText={digitsOnly(setConfirmPin)}
+            mode="outlined"
+            keyboardType="number-pad"
+            secureTextEntry
+            maxLength={8}
+            style={styles.input}
+            disabled={saving}
+          />
+          <HelperText type="error" visible={!!error}>
+            {error}
+          </HelperText>
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={onDismiss} disabled={saving}>Cancel</Button>
+          <Button onPress={save} loading={saving} disabled={saving || newPin.length < 4}>
+            Save
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  message: {
+    marginBottom: 12,
+  },
+  input: {
+    marginBottom: 8,
+  },
+});
@@ -0,0 +1,138 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import Toast from 'react-native-toast-message';
+
+import { useTerminalState } from '@/hooks/use-terminal-state';
+import InterswitchPOSService, {
+  PayOptions,
+  PayOutcome,
+  PaymentCancellation,
+  PaymentData,
+  PaymentResult,
+  PrintItem,
+  PrintResult,
+  TerminalInfo
+} from '@/src/services/InterswitchService';
+import PosEventBus from '@/src/services/PosEventBus';
+import TerminalStateMachine, { TerminalSnapshot } from '@/src/services/TerminalStateMachine';
+
+type LastPayment =
+  | { cancelled: false; result: PaymentResult; receivedAt: number }
+  | { cancelled: true; cancellation: PaymentCancellation; receivedAt: number };
+
+type PrintStatus = 'idle' | 'printing' | 'printed' | 'failed';
+
+interface TerminalContextValue {
+  terminal: TerminalSnapshot;
+  info: TerminalInfo | null;
+  lastPayment: LastPayment | null;
+  lastPrint: PrintResult | null;
+  printStatus: PrintStatus;
+  initialize: () => Promise<{ success: boolean; error?: string }>;
+  refreshInfo: () => Promise<void>;
+  pay: (data: PaymentData, options?: PayOptions) => Promise<PayOutcome>;
+  print: (items: PrintItem[]) => Promise<{ success: boolean; error?: string }>;
+}
+
+const TerminalContext = createContext<TerminalContextValue | null>(null);
+
+/**
+ * Owns terminal initialization for the whole app and keeps the latest
+ * terminal events from PosEventBus, read through useTerminal, usePayment and usePrinter.
+ */
+export function TerminalProvider({ children }: { children: React.ReactNode }) {
+  const terminal = useTerminalState();
+  const [info, setInfo] = useState<TerminalInfo | null>(null);
+  const [lastPayment, setLastPayment] = useState<LastPayment | null>(null);
+  const [lastPrint, setLastPrint] = useState<PrintResult | null>(null);
+  const previousState = useRef(terminal.state);
+
+  const refreshInfo = useCallback(async () => {
+    const result = await InterswitchPOSService.getTerminalInfo();
+    setInfo(result.success ? result.data ?? null : null);
+  }, []);
+
+  const initialize = useCallback(async () => {
+    // Environment and stored credentials are applied by the service
+    const result = await InterswitchPOSService.initializeTerminal({
+      appVersion: '1.0.0'
+    });
+
+    Toast.show(result.success
+      ? { type: 'success', text1: 'Terminal Ready', text2: 'POS terminal initialized successfully' }
+      : { type: 'error', text1: 'Terminal Error', text2: result.error || 'Failed to initialize terminal' });
+
+    return result;
+  }, []);
+
+  useEffect(() => {
+    if (TerminalStateMachine.getState() === 'uninitialized') {
+      initialize();
+    }
+
+    const subscriptions = [
+      PosEventBus.on('paymentCompleted', (result) => {
+        setLastPayment({ cancelled: false, result, receivedAt: Date.now() });
+      }),
+      PosEventBus.on('paymentCancelled', (cancellation) => {
+        setLastPayment({ cancelled: true, cancellation, receivedAt: Date.now() });
+      }),
+      PosEventBus.on('printCompleted', (result) => {
+        setLastPrint(result);
+        Toast.show({
+          type: 'success',
+          text1: 'Receipt Printed',
+          text2: 'Transaction receipt printed successfully',
+        });
+      }),
+      PosEventBus.on('printError', (result) => {
+        setLastPrint(result);
+        Toast.show({
+          type: 'error',
+          text1: 'Print Error',
+          text2: result.message || 'Failed to print receipt',
+        });
+      }),
+    ];
+
+    return () => {
+      subscriptions.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [initialize]);
+
+  // Terminal info changes whenever the terminal is (re)initialized, e.g. after an environment switch
+  useEffect(() => {
+    if (previousState.current === 'initializing' && terminal.state === 'ready') {
+      refreshInfo();
+    }
+    previousState.current = terminal.state;
+  }, [terminal.state, refreshInfo]);
+
+  const value = useMemo<TerminalContextValue>(() => ({
+    terminal,
+    info,
+    lastPayment,
+    lastPrint,
+    printStatus: terminal.state === 'busyPrinting'
+      ? 'printing'
+      : lastPrint ? (lastPrint.success ? 'printed' : 'failed') : 'idle',
+    initialize,
+    refreshInfo,
+    pay: (data, options) => InterswitchPOSService.pay(data, options),
+    print: (items) => InterswitchPOSService.printReceipt(items),
+  }), [terminal, info, lastPayment, lastPrint, initialize, refreshInfo]);
+
+  return <TerminalContext.Provider value={value}>{children}</TerminalContext.Provider>;
+}
+
+/**
+ * Context value from the nearest TerminalProvider
+ */
+export function useTerminalContext(): TerminalContextValue {
+  const context = useContext(TerminalContext);
+  if (!context) {
+    throw new Error('useTerminalContext must be used inside a TerminalProvider');
+  }
+  return context;
+}
+
+export type { LastPayment, PrintStatus, TerminalContextValue };
@@ -0,0 +1,10 @@
+import type { MerchantProfile } from '@/src/services/InterswitchService';
+
+/**
+ * Merchant details printed in the receipt header
+ */
+export const MerchantInfo: MerchantProfile = {
+  name: 'Your Business Name',
+  address: '123 Business Street, Lagos',
+  phone: '+234 123 456 7890',
+};
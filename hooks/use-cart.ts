@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+
+import Cart, { CartTotals, getCartTotals, LineItem } from '@/src/services/Cart';
+
+/**
+ * Lines in the cart and their totals, updated as the cashier rings items up
+ */
+export function useCart(): { items: LineItem[]; totals: CartTotals } {
+  const [items, setItems] = useState<LineItem[]>([]);
+
+  useEffect(() => {
+    Cart.getItems().then(setItems);
+    return Cart.subscribe(setItems);
+  }, []);
+
+  return { items, totals: getCartTotals(items) };
+}
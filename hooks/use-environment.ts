@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+
+import EnvironmentService, { Environment } from '@/src/services/EnvironmentService';
+
+/**
+ * Current TEST/PRODUCTION environment, updated when it is switched from Settings
+ */
+export function useEnvironment(): Environment {
+  const [environment, setEnvironment] = useState<Environment>(EnvironmentService.getCurrentEnvironment());
+
+  useEffect(() => {
+    EnvironmentService.getEnvironment().then(setEnvironment);
+    return EnvironmentService.subscribe(setEnvironment);
+  }, []);
+
+  return environment;
+}
@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+
+import MerchantSettings, { MerchantSettingsData } from '@/src/services/MerchantSettings';
+
+/**
+ * Persisted merchant preferences, updated when they are changed from Settings
+ */
+export function useMerchantSettings(): MerchantSettingsData {
+  const [settings, setSettings] = useState(MerchantSettings.getCurrentSettings());
+
+  useEffect(() => {
+    MerchantSettings.getSettings().then(setSettings);
+    return MerchantSettings.subscribe(setSettings);
+  }, []);
+
+  return settings;
+}
@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+
+import OperatorSession from '@/src/services/OperatorSession';
+
+/**
+ * Name of the signed-in operator, updated when it is changed from Settings
+ */
+export function useOperator(): string {
+  const [operator, setOperator] = useState(OperatorSession.getCurrentOperator());
+
+  useEffect(() => {
+    OperatorSession.getOperator().then(setOperator);
+    return OperatorSession.subscribe(setOperator);
+  }, []);
+
+  return operator;
+}
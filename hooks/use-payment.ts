@@ -0,0 +1,14 @@
+import { useTerminalContext } from '@/components/terminal-provider';
+
+/**
+ * Start payments and observe the latest payment event from the terminal
+ */
+export function usePayment() {
+  const { terminal, lastPayment, pay } = useTerminalContext();
+
+  return {
+    lastPayment,
+    paying: terminal.state === 'busyPaying',
+    pay,
+  };
+}
@@ -0,0 +1,15 @@
+import { useTerminalContext } from '@/components/terminal-provider';
+
+/**
+ * Print receipts and observe the outcome of the latest print job
+ */
+export function usePrinter() {
+  const { printStatus, lastPrint, print } = useTerminalContext();
+
+  return {
+    printStatus,
+    printing: printStatus === 'printing',
+    lastPrint,
+    print,
+  };
+}
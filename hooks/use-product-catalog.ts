@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+
+import ProductCatalog, { Product } from '@/src/services/ProductCatalog';
+
+/**
+ * Catalogue products, updated when they are created, edited or deleted
+ */
+export function useProductCatalog(): Product[] {
+  const [products, setProducts] = useState<Product[]>([]);
+
+  useEffect(() => {
+    ProductCatalog.getProducts().then(setProducts);
+    return ProductCatalog.subscribe(setProducts);
+  }, []);
+
+  return products;
+}
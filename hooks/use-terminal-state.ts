@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+
+import TerminalStateMachine, { TerminalSnapshot } from '@/src/services/TerminalStateMachine';
+
+/**
+ * Current terminal lifecycle state, updated on every transition
+ */
+export function useTerminalState(): TerminalSnapshot {
+  const [snapshot, setSnapshot] = useState(TerminalStateMachine.getSnapshot());
+
+  useEffect(() => {
+    setSnapshot(TerminalStateMachine.getSnapshot());
+    return TerminalStateMachine.subscribe(setSnapshot);
+  }, []);
+
+  return snapshot;
+}
@@ -0,0 +1,17 @@
+import { useTerminalContext } from '@/components/terminal-provider';
+
+/**
+ * Terminal lifecycle state and device info, shared by every screen
+ */
+export function useTerminal() {
+  const { terminal, info, initialize, refreshInfo } = useTerminalContext();
+
+  return {
+    state: terminal.state,
+    error: terminal.error,
+    ready: terminal.state === 'ready',
+    info,
+    initialize,
+    refreshInfo,
+  };
+}
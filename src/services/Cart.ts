@@ -0,0 +1,181 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  kobo,
+  maxMoney,
+  minMoney,
+  Money,
+  multiplyMoney,
+  subtractMoney,
+  sumMoney,
+  ZERO
+} from '../utils/money';
+import logger from './Logger';
+import type { Product, TaxClass } from './ProductCatalog';
+
+// A product line as sold, stored with the ledger entry and printed on the receipt
+interface LineItem {
+  productId: string;
+  sku: string;
+  name: string;
+  unitPrice: Money; // Price when the product was added to the cart
+  quantity: number;
+  discount: Money; // Off the whole line
+  taxClass: TaxClass;
+}
+
+interface CartTotals {
+  itemCount: number; // Units, not lines
+  discount: Money;
+  subtotal: Money; // After line discounts
+  taxableSubtotal: Money; // Part of the subtotal that VAT applies to
+}
+
+type CartListener = (items: LineItem[]) => void;
+
+const STORAGE_KEY = '@interswitch/cart';
+
+/**
+ * Items the cashier is ringing up. Persisted so a restart does not lose a
+ * half-built sale; cleared once the sale is approved.
+ */
+class Cart {
+  private items: LineItem[] = [];
+  private loaded: Promise<void>;
+  private listeners = new Set<CartListener>();
+
+  constructor() {
+    this.loaded = this.restore();
+  }
+
+  async getItems(): Promise<LineItem[]> {
+    await this.loaded;
+    return [...this.items];
+  }
+
+  /**
+   * Add one unit of a product, on its existing line if it is already in the cart
+   */
+  async addProduct(product: Product): Promise<void> {
+    await this.loaded;
+    const existing = this.items.find((item) => item.productId === product.id);
+    if (existing) {
+      await this.setQuantity(product.id, existing.quantity + 1);
+      return;
+    }
+
+    await this.save([
+      ...this.items,
+      {
+        productId: product.id,
+        sku: product.sku,
+        name: product.name,
+        unitPrice: product.price,
+        quantity: 1,
+        discount: ZERO,
+        taxClass: product.taxClass,
+      },
+    ]);
+  }
+
+  /**
+   * Change a line's quantity. Zero or less removes the line.
+   */
+  async setQuantity(productId: string, quantity: number): Promise<void> {
+    await this.loaded;
+    if (quantity <= 0) {
+      await this.removeItem(productId);
+      return;
+    }
+
+    await this.save(this.items.map((item) => item.productId === productId
+      // Keep the discount within the new line total
+      ? { ...item, quantity, discount: minMoney(item.discount, multiplyMoney(item.unitPrice, quantity)) }
+      : item));
+  }
+
+  /**
+   * Set the discount on a line, capped at the line total
+   */
+  async setDiscount(productId: string, discount: Money): Promise<void> {
+    await this.loaded;
+    await this.save(this.items.map((item) => item.productId === productId
+      ? { ...item, discount: minMoney(maxMoney(ZERO, kobo(discount)), getLineGross(item)) }
+      : item));
+  }
+
+  async removeItem(productId: string): Promise<void> {
+    await this.loaded;
+    await this.save(this.items.filter((item) => item.productId !== productId));
+  }
+
+  async clear(): Promise<void> {
+    await this.loaded;
+    if (this.items.length > 0) {
+      await this.save([]);
+    }
+  }
+
+  /**
+   * Get notified when the cart changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: CartListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async save(items: LineItem[]) {
+    if (items.length > 0) {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+    } else {
+      await AsyncStorage.removeItem(STORAGE_KEY);
+    }
+
+    this.items = items;
+    this.listeners.forEach((listener) => listener([...items]));
+  }
+
+  private async restore() {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        this.items = JSON.parse(stored);
+        this.listeners.forEach((listener) => listener([...this.items]));
+      }
+    } catch (error) {
+      logger.error('payment', 'Failed to load cart', error);
+    }
+  }
+}
+
+/**
+ * Line total before its discount
+ */
+function getLineGross(item: LineItem): Money {
+  return multiplyMoney(item.unitPrice, item.quantity);
+}
+
+/**
+ * Line total after its discount
+ */
+function getLineTotal(item: LineItem): Money {
+  return subtractMoney(getLineGross(item), item.discount);
+}
+
+function getCartTotals(items: LineItem[]): CartTotals {
+  return {
+    itemCount: items.reduce((count, item) => count + item.quantity, 0),
+    discount: sumMoney(items.map((item) => item.discount)),
+    subtotal: sumMoney(items.map(getLineTotal)),
+    taxableSubtotal: sumMoney(items.filter((item) => item.taxClass === 'standard').map(getLineTotal)),
+  };
+}
+
+// Create and export singleton instance
+const cart = new Cart();
+export default cart;
+
+export { getCartTotals, getLineGross, getLineTotal };
+
+export type { CartTotals, LineItem };
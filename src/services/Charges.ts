@@ -0,0 +1,73 @@
+import {
+  addMoney,
+  kobo,
+  Money,
+  percentOfMoney,
+  sumMoney,
+  ZERO
+} from '../utils/money';
+
+// Standard Nigerian VAT rate, percent
+const NIGERIA_VAT_RATE = 7.5;
+
+interface ChargeRates {
+  vatRate: number; // Percent, 0 when the merchant does not charge VAT
+  serviceChargeRate: number; // Percent of the subtotal, 0 for none
+}
+
+type TipChoice =
+  | { type: 'none' }
+  | { type: 'percent'; rate: number } // Percent of the subtotal
+  | { type: 'amount'; amount: Money };
+
+// Every component is in kobo so the parts always add up to the total charged
+interface ChargeBreakdown {
+  subtotal: Money;
+  serviceCharge: Money;
+  serviceChargeRate: number;
+  vat: Money; // On the subtotal plus service charge; tips are not taxed
+  vatRate: number;
+  tip: Money;
+  total: Money;
+}
+
+/**
+ * Service charge, VAT and tip on a subtotal. `taxableSubtotal` is the part VAT
+ * applies to when some items are zero-rated or exempt.
+ */
+function calculateCharges(
+  subtotal: Money,
+  rates: ChargeRates,
+  tip: TipChoice = { type: 'none' },
+  taxableSubtotal = subtotal
+): ChargeBreakdown {
+  const serviceCharge = percentOfMoney(subtotal, rates.serviceChargeRate);
+  const vat = percentOfMoney(
+    addMoney(taxableSubtotal, percentOfMoney(taxableSubtotal, rates.serviceChargeRate)),
+    rates.vatRate
+  );
+  const tipAmount = tip.type === 'percent'
+    ? percentOfMoney(subtotal, tip.rate)
+    : tip.type === 'amount' ? kobo(Math.max(0, tip.amount)) : ZERO;
+
+  return {
+    subtotal,
+    serviceCharge,
+    serviceChargeRate: rates.serviceChargeRate,
+    vat,
+    vatRate: rates.vatRate,
+    tip: tipAmount,
+    total: sumMoney([subtotal, serviceCharge, vat, tipAmount]),
+  };
+}
+
+/**
+ * Whether the breakdown adds anything on top of the subtotal
+ */
+function hasCharges(charges: ChargeBreakdown): boolean {
+  return charges.total !== charges.subtotal;
+}
+
+export { calculateCharges, hasCharges, NIGERIA_VAT_RATE };
+
+export type { ChargeBreakdown, ChargeRates, TipChoice };
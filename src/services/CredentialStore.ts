@@ -0,0 +1,104 @@
+import * as SecureStore from 'expo-secure-store';
+import logger from './Logger';
+import type { TerminalConfig } from './types';
+
+type TerminalCredentials = Required<Pick<TerminalConfig, 'alias' | 'clientId' | 'clientSecret' | 'merchantCode' | 'merchantTelephone'>>;
+
+type CredentialErrors = Partial<Record<keyof TerminalCredentials, string>>;
+
+const STORAGE_KEY = 'interswitch.terminalCredentials';
+
+// Only readable while the device is unlocked and never migrated to another device
+const STORE_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+};
+
+const EMPTY_CREDENTIALS: TerminalCredentials = {
+  alias: '',
+  clientId: '',
+  clientSecret: '',
+  merchantCode: '',
+  merchantTelephone: '',
+};
+
+/**
+ * Terminal credentials kept in the platform keystore (Android Keystore / iOS Keychain)
+ * via expo-secure-store. They are merged into every initializeTerminal call.
+ */
+class CredentialStore {
+  private cached: TerminalCredentials | null | undefined;
+
+  /**
+   * Stored credentials, or null when none have been saved
+   */
+  async load(): Promise<TerminalCredentials | null> {
+    if (this.cached !== undefined) {
+      return this.cached;
+    }
+
+    try {
+      const stored = await SecureStore.getItemAsync(STORAGE_KEY, STORE_OPTIONS);
+      this.cached = stored ? { ...EMPTY_CREDENTIALS, ...JSON.parse(stored) } : null;
+    } catch (error) {
+      logger.warn('terminal', 'Failed to read terminal credentials', error);
+      return null;
+    }
+
+    return this.cached ?? null;
+  }
+
+  async save(credentials: TerminalCredentials): Promise<void> {
+    const trimmed = Object.fromEntries(
+      Object.entries(credentials).map(([key, value]) => [key, value.trim()])
+    ) as TerminalCredentials;
+
+    await SecureStore.setItemAsync(STORAGE_KEY, JSON.stringify(trimmed), STORE_OPTIONS);
+    this.cached = trimmed;
+    logger.info('terminal', 'Terminal credentials saved', trimmed);
+  }
+
+  async clear(): Promise<void> {
+    await SecureStore.deleteItemAsync(STORAGE_KEY, STORE_OPTIONS);
+    this.cached = null;
+    logger.info('terminal', 'Terminal credentials cleared');
+  }
+
+  /**
+   * Field-level validation. Returns an empty object when the credentials are valid.
+   */
+  validate(credentials: TerminalCredentials): CredentialErrors {
+    const errors: CredentialErrors = {};
+
+    if (credentials.alias && !/^[A-Za-z0-9_-]{1,32}$/.test(credentials.alias.trim())) {
+      errors.alias = 'Alias can only contain letters, numbers, "-" and "_" (max 32)';
+    }
+
+    if (!credentials.clientId.trim()) {
+      errors.clientId = 'Client ID is required';
+    }
+
+    if (!credentials.clientSecret.trim()) {
+      errors.clientSecret = 'Client secret is required';
+    }
+
+    if (!credentials.merchantCode.trim()) {
+      errors.merchantCode = 'Merchant code is required';
+    } else if (!/^[A-Za-z0-9]{4,20}$/.test(credentials.merchantCode.trim())) {
+      errors.merchantCode = 'Merchant code must be 4-20 letters or numbers';
+    }
+
+    const phone = credentials.merchantTelephone.replace(/[\s-]/g, '');
+    if (phone && !/^(\+234\d{10}|0\d{10})$/.test(phone)) {
+      errors.merchantTelephone = 'Enter a valid Nigerian phone number';
+    }
+
+    return errors;
+  }
+}
+
+// Create and export singleton instance
+const credentialStore = new CredentialStore();
+export default credentialStore;
+
+export { EMPTY_CREDENTIALS };
+export type { CredentialErrors, TerminalCredentials };
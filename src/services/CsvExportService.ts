@@ -0,0 +1,144 @@
+import { DateRange } from '../utils/dateRange';
+import { Money, toDecimalString } from '../utils/money';
+import { maskPan } from '../utils/redaction';
+import { shareTextFile } from '../utils/shareFile';
+import logger from './Logger';
+import { describeDeclineCategory } from './ResponseCodes';
+import TransactionLedger, { getDisplayStatus, getNetAmount, getTransactionType, LedgerEntry } from './TransactionLedger';
+
+interface CsvColumn {
+  header: string;
+  value: (entry: LedgerEntry) => string | number | undefined;
+}
+
+const LEDGER_COLUMNS: CsvColumn[] = [
+  { header: 'Reference', value: (entry) => entry.reference },
+  { header: 'Transaction Type', value: (entry) => getTransactionType(entry) },
+  { header: 'Original Reference', value: (entry) => entry.originalReference },
+  { header: 'Order Reference', value: (entry) => entry.orderReference },
+  { header: 'RRN', value: (entry) => entry.result?.rrn },
+  { header: 'STAN', value: (entry) => entry.result?.stan },
+  { header: 'Auth Code', value: (entry) => entry.result?.authorizationCode || entry.result?.authCode },
+  { header: 'Amount (NGN)', value: (entry) => toDecimalString(entry.amount) },
+  { header: 'Amount (Kobo)', value: (entry) => entry.amount },
+  {
+    header: 'Net Amount (NGN)',
+    value: (entry) => (getTransactionType(entry) === 'Sale' ? toDecimalString(getNetAmount(entry)) : undefined),
+  },
+  { header: 'Subtotal (NGN)', value: (entry) => koboColumn(entry.charges?.subtotal) },
+  { header: 'Service Charge (NGN)', value: (entry) => koboColumn(entry.charges?.serviceCharge) },
+  { header: 'VAT (NGN)', value: (entry) => koboColumn(entry.charges?.vat) },
+  { header: 'Tip (NGN)', value: (entry) => koboColumn(entry.charges?.tip) },
+  {
+    header: 'Items',
+    value: (entry) => entry.items?.map((item) => `${item.quantity} x ${item.sku} ${item.name}`).join('; '),
+  },
+  { header: 'Status', value: (entry) => getDisplayStatus(entry) },
+  { header: 'Response Code', value: (entry) => entry.result?.responseCode },
+  { header: 'Response Message', value: (entry) => entry.result?.responseMessage || entry.error },
+  {
+    header: 'Decline Reason',
+    value: (entry) => entry.declineCategory && describeDeclineCategory(entry.declineCategory).label,
+  },
+  { header: 'Payment Type', value: (entry) => entry.paymentType },
+  { header: 'Card Type', value: (entry) => entry.result?.cardType },
+  { header: 'Masked PAN', value: (entry) => maskPan(entry.result?.cardPan) },
+  { header: 'Customer Name', value: (entry) => entry.customer?.name },
+  { header: 'Customer Email', value: (entry) => entry.customer?.email },
+  { header: 'Customer Phone', value: (entry) => entry.customer?.mobile },
+  { header: 'Operator', value: (entry) => entry.operator },
+  { header: 'Limit Overrides', value: (entry) => entry.limitOverrides?.join('; ') },
+  { header: 'Reprints', value: (entry) => entry.reprints?.length ?? 0 },
+  { header: 'Created At', value: (entry) => formatTimestamp(entry.createdAt) },
+  { header: 'Updated At', value: (entry) => formatTimestamp(entry.updatedAt) },
+];
+
+/**
+ * Escape a single CSV field (RFC 4180). Text that a spreadsheet would run as a
+ * formula is prefixed with an apostrophe so it is shown as plain text.
+ */
+function escapeCsvValue(value: string | number | undefined | null): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  let text = String(value);
+
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  if (/[",\r\n]/.test(text) || text !== text.trim()) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+
+  return text;
+}
+
+/**
+ * Build a CSV document for the given ledger entries
+ */
+function buildLedgerCsv(entries: LedgerEntry[]): string {
+  const rows = [
+    LEDGER_COLUMNS.map((column) => escapeCsvValue(column.header)),
+    ...entries.map((entry) => LEDGER_COLUMNS.map((column) => escapeCsvValue(column.value(entry)))),
+  ];
+
+  return rows.map((row) => row.join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Export ledger entries created within the range to a CSV file and open the share sheet
+ */
+async function exportLedgerCsv(range: DateRange): Promise<{ success: boolean; count?: number; error?: string }> {
+  try {
+    const { entries } = await TransactionLedger.query({ dateRange: range, sortBy: 'date', sortOrder: 'asc' });
+
+    if (entries.length === 0) {
+      return { success: false, count: 0, error: 'No transactions in the selected period' };
+    }
+
+    // Byte order mark so spreadsheet apps detect UTF-8 (customer names, ₦)
+    await shareTextFile(`transactions_${buildFileSuffix(range)}.csv`, '\ufeff' + buildLedgerCsv(entries), {
+      mimeType: 'text/csv',
+      UTI: 'public.comma-separated-values-text',
+      dialogTitle: 'Export transactions',
+    });
+
+    return { success: true, count: entries.length };
+  } catch (error: any) {
+    logger.error('app', 'CSV export error', error);
+    return { success: false, error: error.message || 'Failed to export transactions' };
+  }
+}
+
+// Charge components are stored in kobo
+function koboColumn(kobo: Money | undefined): string | undefined {
+  return kobo === undefined ? undefined : toDecimalString(kobo);
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// Local time as YYYY-MM-DD HH:mm:ss, which spreadsheets parse as a date
+function formatTimestamp(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${formatDay(date)} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+function formatDay(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function buildFileSuffix(range: DateRange): string {
+  if (range.from === undefined) {
+    return `until_${formatDay(new Date())}`;
+  }
+
+  // 'to' is exclusive, so the last day covered is the day before it
+  const lastDay = range.to !== undefined ? new Date(range.to - 1) : new Date();
+  return `${formatDay(new Date(range.from))}_${formatDay(lastDay)}`;
+}
+
+export { buildLedgerCsv, escapeCsvValue, exportLedgerCsv };
@@ -0,0 +1,77 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import logger from './Logger';
+import type { TerminalConfig } from './types';
+
+type Environment = TerminalConfig['environment'];
+
+type EnvironmentListener = (environment: Environment) => void;
+
+const STORAGE_KEY = '@interswitch/environment';
+const DEFAULT_ENVIRONMENT: Environment = 'TEST';
+
+/**
+ * Persisted TEST/PRODUCTION selection. InterswitchPOSService reads it when
+ * initializing the terminal; screens subscribe to it for the environment banner.
+ */
+class EnvironmentService {
+  private environment: Environment = DEFAULT_ENVIRONMENT;
+  private loaded: Promise<void>;
+  private listeners = new Set<EnvironmentListener>();
+
+  constructor() {
+    this.loaded = this.restore();
+  }
+
+  async getEnvironment(): Promise<Environment> {
+    await this.loaded;
+    return this.environment;
+  }
+
+  /**
+   * Last known environment, without waiting for storage (TEST until loaded)
+   */
+  getCurrentEnvironment(): Environment {
+    return this.environment;
+  }
+
+  isProduction(): boolean {
+    return this.environment === 'PRODUCTION';
+  }
+
+  async setEnvironment(environment: Environment): Promise<void> {
+    await this.loaded;
+    await AsyncStorage.setItem(STORAGE_KEY, environment);
+
+    this.environment = environment;
+    logger.warn('terminal', `Environment switched to ${environment}`);
+    this.listeners.forEach((listener) => listener(environment));
+  }
+
+  /**
+   * Get notified when the environment changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: EnvironmentListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async restore() {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (stored === 'TEST' || stored === 'PRODUCTION') {
+        this.environment = stored;
+        this.listeners.forEach((listener) => listener(this.environment));
+      }
+    } catch (error) {
+      logger.error('terminal', 'Failed to load environment', error);
+    }
+  }
+}
+
+// Create and export singleton instance
+const environmentService = new EnvironmentService();
+export default environmentService;
+
+export type { Environment };
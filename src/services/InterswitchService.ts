@@ -1,126 +1,292 @@
-import { EmitterSubscription, NativeEventEmitter, NativeModules } from 'react-native';
-
-// Enhanced interfaces to match the native module exactly
-interface TerminalConfig {
-  alias?: string;
-  clientId?: string;
-  clientSecret?: string;
-  merchantCode?: string;
-  merchantTelephone?: string;
-  environment: 'TEST' | 'PRODUCTION';
-  appVersion?: string;
+import { NativeModules } from 'react-native';
+import { formatMoney, fromNaira, Money, toNaira } from '../utils/money';
+import NativePosDriver from './drivers/NativePosDriver';
+import type { PosDriver, PosEventName, PosSubscription } from './drivers/PosDriver';
+import simulatorPosDriver from './drivers/SimulatorPosDriver';
+import { getLineTotal, LineItem } from './Cart';
+import type { ChargeBreakdown } from './Charges';
+import CredentialStore, { TerminalCredentials } from './CredentialStore';
+import EnvironmentService, { Environment } from './EnvironmentService';
+import logger from './Logger';
+import PosEventBus, { normalizePaymentResult, validatePrintResult } from './PosEventBus';
+import type { MerchantProfile, ReceiptContext } from './receipts/ReceiptTemplateEngine';
+import ReceiptTemplates from './receipts/ReceiptTemplates';
+import TerminalStateMachine, { TERMINAL_STATE_LABELS } from './TerminalStateMachine';
+import TransactionLedger from './TransactionLedger';
+import TransactionLimits, { LimitRule } from './TransactionLimits';
+import type {
+  AdjustmentData,
+  AdjustmentResult,
+  AdjustmentType,
+  LogoConfig,
+  PaymentCancellation,
+  PaymentData,
+  PaymentResult,
+  PrintItem,
+  PrintResult,
+  SuccessResult,
+  TerminalConfig,
+  TerminalInfo
+} from './types';
+
+type PayOutcome =
+  | { cancelled: false; result: PaymentResult }
+  | { cancelled: true; cancellation: PaymentCancellation };
+
+// What was sold, stored with the ledger entry and printed above the amount
+interface SaleDetails {
+  charges?: ChargeBreakdown; // Kobo
+  items?: LineItem[];
 }
 
-interface LogoConfig {
-  type: 'resource' | 'base64';
-  resourceName?: string;
-  base64Data?: string;
+interface PayOptions {
+  timeoutMs?: number; // How long to wait for the native result event (default 2 minutes)
+  approvedOverrides?: LimitRule[]; // Limits a supervisor has approved going past for this payment
 }
 
-interface PaymentData {
-  amount: number; // Amount in Naira (will be converted to kobo internally)
-  paymentType?: 'Card' | 'QR' | 'USSD' | 'Transfer' | 'CNP' | 'ThankYouCash' | 'PayCode' | 'Cash';
-  reference?: string;
-  remark?: string;
+interface PendingPayment {
+  amount: Money; // As requested, used when the result's amount is unreadable
+  resolve: (outcome: PayOutcome) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
 }
 
-interface PaymentResult {
-  responseCode: string;
-  responseMessage: string;
-  isSuccessful: boolean;
-  transactionReference: string;
-  rrn: string;
-  amount: number; // Amount in Naira
-  cardType: string;
-  transactionType: string;
-  cardHolderName: string;
-  cardExpiry: string;
-  cardPan: string;
-  aid: string;
-  dateTime: string;
-  txnDate: number;
-  authorizationCode: string;
-  stan: string;
-  authCode: string;
-  transactionCurrencyType: string;
-  timestamp: number;
-  status: 'completed' | 'cancelled';
+interface PendingAdjustment {
+  amount: Money;
+  resolve: (result: AdjustmentResult) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
 }
 
-interface PrintItem {
-  type: 'text' | 'newline' | 'image' | 'separator';
-  text?: string;
-  isTitle?: boolean;
-  isBold?: boolean;
-  displayCenter?: boolean;
-  imageType?: 'resource' | 'base64';
-  resourceName?: string;
-  base64Data?: string;
-}
+const DEFAULT_PAY_TIMEOUT_MS = 120000;
 
-interface PrintResult {
-  status: string;
-  message: string;
-  success: boolean;
-  timestamp: number;
-}
+const ADJUSTMENT_EVENTS: Record<AdjustmentType, PosEventName> = {
+  Reversal: 'onReversalCompleted',
+  Void: 'onVoidCompleted',
+  Refund: 'onRefundCompleted',
+};
 
-interface TerminalInfo {
-  isInitialized: boolean;
-  serialNumber: string;
-  deviceType: string;
-  sdkVersion: string;
+type EventCallbacks = {
+  onPaymentCompleted?: (result: PaymentResult) => void;
+  onPaymentCancelled?: (cancellation: PaymentCancellation) => void;
+  onPrintCompleted?: (result: PrintResult) => void;
+  onPrintError?: (result: PrintResult) => void;
+};
+
+function withoutEmptyValues<T extends object>(values: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined && value !== '')
+  ) as Partial<T>;
 }
 
-interface SuccessResult {
-  success: boolean;
-  message: string;
-  timestamp: number;
+/**
+ * A result payload whose unreadable amount is replaced by the amount that was
+ * requested, so an approval is not thrown away over a missing amount
+ */
+function withRequestedAmount(payload: unknown, requested?: Money): unknown {
+  const amount = (payload as { amount?: unknown } | null)?.amount;
+  if (requested === undefined || typeof payload !== 'object' || payload === null || Number.isSafeInteger(amount)) {
+    return payload;
+  }
+
+  logger.warn('payment', `Result amount ${String(amount)} is unreadable, using the requested amount`, { requested });
+  return { ...payload, amount: requested };
 }
 
 // Get the native module
 const { InterswitchPosModule } = NativeModules;
 
-if (!InterswitchPosModule) {
-  throw new Error('InterswitchPosModule is not properly linked. Please check your native module setup.');
+/**
+ * Pick the driver for this runtime. Without the native module (Expo Go, web,
+ * unit tests) the pure-JS simulator is used instead of crashing at import time.
+ */
+function createDefaultDriver(): PosDriver {
+  if (InterswitchPosModule) {
+    return new NativePosDriver(InterswitchPosModule);
+  }
+
+  logger.warn('terminal', 'InterswitchPosModule is not linked. Falling back to the POS simulator.');
+  return simulatorPosDriver;
 }
 
 class InterswitchPOSService {
-  private eventEmitter: NativeEventEmitter;
-  private paymentCompletedListener: EmitterSubscription | null = null;
-  private paymentCancelledListener: EmitterSubscription | null = null;
-  private printCompletedListener: EmitterSubscription | null = null;
-  private printErrorListener: EmitterSubscription | null = null;
+  private driver: PosDriver;
+  private driverListeners: PosSubscription[] = [];
+  private callbackSubscriptions: (() => void)[] = [];
+  private pendingPayments = new Map<string, PendingPayment>();
+  private pendingAdjustments = new Map<string, PendingAdjustment>();
+  // Timed-out requests the terminal may still be processing; it stays busy until each is resolved
+  private awaitingResults = new Set<string>();
+
+  constructor(driver: PosDriver = createDefaultDriver()) {
+    this.driver = driver;
+    TerminalStateMachine.subscribe((snapshot) => PosEventBus.emit('terminalStateChanged', snapshot));
+    this.attachDriverListeners();
+  }
+
+  /**
+   * Swap the driver backing this service (e.g. the simulator in tests).
+   * Event bus subscribers keep receiving events from the new driver.
+   */
+  setDriver(driver: PosDriver) {
+    this.driverListeners.forEach((listener) => listener.remove());
+    this.driverListeners = [];
+
+    this.driver = driver;
+    this.awaitingResults.clear();
+    TerminalStateMachine.transition('reset');
+    this.attachDriverListeners();
+  }
+
+  /**
+   * Name of the active driver ('native' or 'simulator')
+   */
+  getDriverName(): string {
+    return this.driver.name;
+  }
+
+  /**
+   * The only listeners on the driver. Payloads are validated and normalized, settle the
+   * promises returned by pay() and the adjustment methods, then go out on
+   * PosEventBus to every subscriber.
+   */
+  private attachDriverListeners() {
+    this.driverListeners.push(this.driver.addListener('onPaymentCompleted', (payload: unknown) => {
+      logger.info('payment', 'Payment completed event received', payload);
+
+      const eventReference = (payload as Partial<PaymentResult> | null)?.transactionReference;
+      const reference = this.takePendingReference(this.pendingPayments, eventReference);
+      const { result, problems, defaulted } = normalizePaymentResult(
+        withRequestedAmount(payload, reference ? this.pendingPayments.get(reference)?.amount : undefined)
+      );
+      this.finishBusyState(reference, eventReference);
+      if (!result) {
+        logger.error('payment', 'Invalid payment result from terminal', problems);
+        if (reference) {
+          this.rejectPayment(reference, new Error(`Terminal sent an invalid payment result: ${problems.join('; ')}`));
+        }
+        return;
+      }
 
-  constructor() {
-    this.eventEmitter = new NativeEventEmitter(InterswitchPosModule);
+      if (defaulted.length > 0) {
+        logger.warn('payment', 'Payment result had missing fields, filled with defaults', defaulted);
+      }
+
+      if (reference) {
+        this.settlePayment(reference, { cancelled: false, result });
+      } else if (result.transactionReference) {
+        this.recordLateOutcome(result.transactionReference, { cancelled: false, result });
+      }
+      PosEventBus.emit('paymentCompleted', result);
+    }));
+
+    this.driverListeners.push(this.driver.addListener('onPaymentCancelled', (payload: any) => {
+      logger.info('payment', 'Payment cancelled event received', payload);
+
+      // The SDK's cancel payload is loosely shaped, so it is normalized rather than validated
+      const eventReference = payload?.transactionReference ?? payload?.reference;
+      const reference = this.takePendingReference(this.pendingPayments, eventReference);
+      this.finishBusyState(reference, eventReference);
+      const cancellation: PaymentCancellation = {
+        transactionReference: reference ?? payload?.transactionReference ?? payload?.reference ?? '',
+        message: payload?.message || payload?.responseMessage || 'Transaction was cancelled by user',
+        timestamp: payload?.timestamp || Date.now(),
+        raw: payload,
+      };
+
+      if (reference) {
+        this.settlePayment(reference, { cancelled: true, cancellation });
+      } else if (cancellation.transactionReference) {
+        this.recordLateOutcome(cancellation.transactionReference, { cancelled: true, cancellation });
+      }
+      PosEventBus.emit('paymentCancelled', cancellation);
+    }));
+
+    (Object.keys(ADJUSTMENT_EVENTS) as AdjustmentType[]).forEach((type) => {
+      this.driverListeners.push(this.driver.addListener(ADJUSTMENT_EVENTS[type], (payload: unknown) => {
+        logger.info('payment', `${type} completed event received`, payload);
+
+        const eventReference = (payload as Partial<AdjustmentResult> | null)?.transactionReference;
+        const reference = this.takePendingReference(this.pendingAdjustments, eventReference);
+        const { result, problems, defaulted } = normalizePaymentResult(
+          withRequestedAmount(payload, reference ? this.pendingAdjustments.get(reference)?.amount : undefined)
+        );
+        this.finishBusyState(reference, eventReference);
+        if (!result) {
+          logger.error('payment', `Invalid ${type.toLowerCase()} result from terminal`, problems);
+          if (reference) {
+            this.rejectAdjustment(reference, new Error(`Terminal sent an invalid ${type.toLowerCase()} result: ${problems.join('; ')}`));
+          }
+          return;
+        }
+
+        if (defaulted.length > 0) {
+          logger.warn('payment', `${type} result had missing fields, filled with defaults`, defaulted);
+        }
+
+        const adjustment = { ...(result as AdjustmentResult), adjustmentType: type };
+        if (reference) {
+          this.settleAdjustment(reference, adjustment);
+        } else if (adjustment.transactionReference) {
+          this.recordLateOutcome(adjustment.transactionReference, { cancelled: false, result: adjustment });
+        }
+        PosEventBus.emit('adjustmentCompleted', adjustment);
+      }));
+    });
+
+    const printEvents = { onPrintCompleted: 'printCompleted', onPrintError: 'printError' } as const;
+    (Object.keys(printEvents) as (keyof typeof printEvents)[]).forEach((event) => {
+      this.driverListeners.push(this.driver.addListener(event, (payload: unknown) => {
+        const problems = validatePrintResult(payload);
+        if (problems.length > 0) {
+          logger.error('print', 'Invalid print result from terminal', problems);
+          return;
+        }
+
+        logger[event === 'onPrintError' ? 'warn' : 'info']('print', 'Print event received', payload);
+        PosEventBus.emit(printEvents[event], payload as PrintResult);
+      }));
+    });
   }
 
   /**
-   * Initialize the SmartPOS terminal with configuration
+   * Initialize the SmartPOS terminal with configuration.
+   * Credentials saved in the CredentialStore are used unless overridden by config.
    */
-  async initializeTerminal(config?: TerminalConfig): Promise<{ success: boolean; message?: string; error?: string }> {
+  async initializeTerminal(config?: Partial<TerminalConfig>): Promise<{ success: boolean; message?: string; error?: string }> {
     try {
-      // Use default test configuration if none provided
+      TerminalStateMachine.transition('initialize');
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+
+    try {
+      const storedCredentials = await CredentialStore.load();
+
+      // Use the selected environment and default app version if none provided
       const terminalConfig: TerminalConfig = {
-        environment: 'TEST',
+        environment: await EnvironmentService.getEnvironment(),
         appVersion: '1.0.0',
+        ...withoutEmptyValues(storedCredentials ?? {}),
         ...config
       };
       
-      console.log('Initializing terminal with config:', terminalConfig);
+      logger.info('terminal', 'Initializing terminal with config', terminalConfig);
       
-      const result = await InterswitchPosModule.initializeTerminal(terminalConfig);
+      const result = await this.driver.initializeTerminal(terminalConfig);
       
       if (result && result.success) {
-        console.log('Terminal initialized successfully:', result.message);
+        logger.info('terminal', 'Terminal initialized successfully', result.message);
+        TerminalStateMachine.transition('initialized');
         return { success: true, message: result.message };
       } else {
-        console.error('Terminal initialization failed:', result);
+        logger.error('terminal', 'Terminal initialization failed', result);
+        TerminalStateMachine.transition('fail', 'Terminal initialization failed');
         return { success: false, error: 'Terminal initialization failed' };
       }
     } catch (error: any) {
-      console.error('Terminal initialization error:', error);
+      logger.error('terminal', 'Terminal initialization error', error);
+      TerminalStateMachine.transition('fail', error.message);
       return { success: false, error: error.message || 'Unknown error occurred' };
     }
   }
@@ -130,9 +296,9 @@ class InterswitchPOSService {
    */
   async setCompanyLogo(logoConfig: LogoConfig): Promise<{ success: boolean; message?: string; error?: string }> {
     try {
-      console.log('Setting company logo:', logoConfig.type);
+      logger.info('print', 'Setting company logo', logoConfig.type);
       
-      const result = await InterswitchPosModule.setCompanyLogo(logoConfig);
+      const result = await this.driver.setCompanyLogo(logoConfig);
       
       if (result && result.success) {
         return { success: true, message: result.message };
@@ -140,48 +306,185 @@ class InterswitchPOSService {
         return { success: false, error: 'Failed to set company logo' };
       }
     } catch (error: any) {
-      console.error('Set logo error:', error);
+      logger.error('print', 'Set logo error', error);
       return { success: false, error: error.message || 'Unknown error occurred' };
     }
   }
 
   /**
-   * Make a payment using SmartPOS SDK
+   * Make a payment using SmartPOS SDK. `approvedOverrides` skips payment type
+   * limits a supervisor has already approved.
    */
-  async makePayment(paymentData: PaymentData): Promise<{ success: boolean; data?: PaymentResult; error?: string }> {
+  async makePayment(
+    paymentData: PaymentData,
+    approvedOverrides: LimitRule[] = []
+  ): Promise<{ success: boolean; data?: PaymentResult; error?: string }> {
     try {
       // Validate required fields
       if (!paymentData.amount || paymentData.amount <= 0) {
         throw new Error('Valid amount is required');
       }
 
-      // Validate amount
-      const amountValidation = this.validatePaymentAmount(paymentData.amount);
+      // Validate amount against the stored limits, not the defaults used until they load
+      await TransactionLimits.getPolicy();
+      const amountValidation = this.validatePaymentAmount(paymentData.amount, paymentData.paymentType, approvedOverrides);
       if (!amountValidation.valid) {
         throw new Error(amountValidation.error);
       }
 
       const paymentInfo = {
-        amount: paymentData.amount, // Native module handles Naira to kobo conversion
+        amount: paymentData.amount,
         paymentType: paymentData.paymentType || 'Card',
         reference: paymentData.reference || await this.generateTransactionReference(),
         remark: paymentData.remark || 'Payment transaction',
       };
 
-      console.log('Initiating payment:', paymentInfo);
+      // Rejects a second payment, or a payment while printing or syncing
+      TerminalStateMachine.transition('startPayment');
+      logger.info('payment', 'Initiating payment', paymentInfo);
+      if (approvedOverrides.length > 0) {
+        logger.warn('payment', `Limits overridden by supervisor for ${paymentInfo.reference}`, approvedOverrides);
+      }
 
-      // Call the native module - result will come through event listeners
-      const result = await InterswitchPosModule.makePayment(paymentInfo);
+      // Call the driver - result will come through event listeners
+      try {
+        await this.driver.makePayment(paymentInfo);
+      } catch (error) {
+        TerminalStateMachine.tryTransition('finishPayment');
+        throw error;
+      }
       
       // The native module will trigger events for the actual result
       // This method just initiates the payment process
       return { success: true };
     } catch (error: any) {
-      console.error('Payment initiation error:', error);
+      logger.error('payment', 'Payment initiation error', error);
       return { success: false, error: error.message || 'Failed to initiate payment' };
     }
   }
 
+  /**
+   * Make a payment and wait for its outcome.
+   * Resolves with the PaymentResult (approved or declined) or a cancellation,
+   * matched to this request by reference. Rejects if the native call fails or
+   * no result arrives within the timeout. After a timeout the terminal stays
+   * busy until the late result arrives or releaseAwaitingResult() is called.
+   */
+  async pay(paymentData: PaymentData, options: PayOptions = {}): Promise<PayOutcome> {
+    const reference = paymentData.reference || await this.generateTransactionReference();
+    const timeoutMs = options.timeoutMs ?? DEFAULT_PAY_TIMEOUT_MS;
+
+    if (this.pendingPayments.has(reference)) {
+      throw new Error(`A payment with reference ${reference} is already in progress`);
+    }
+
+    const outcome = new Promise<PayOutcome>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingPayments.delete(reference);
+        this.awaitingResults.add(reference);
+        logger.warn('payment', `Payment ${reference} timed out; terminal stays busy until its result arrives`);
+        reject(new Error(`Payment ${reference} timed out after ${Math.round(timeoutMs / 1000)}s`));
+      }, timeoutMs);
+
+      this.pendingPayments.set(reference, { amount: paymentData.amount, resolve, reject, timer });
+    });
+
+    const result = await this.makePayment({ ...paymentData, reference }, options.approvedOverrides);
+
+    if (!result.success) {
+      this.rejectPayment(reference, new Error(result.error || 'Failed to initiate payment'));
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Reverse an approved sale, e.g. one rung up with the wrong amount.
+   * Resolves with the terminal's result, which may be approved or declined.
+   */
+  reverse(data: AdjustmentData, options: PayOptions = {}): Promise<AdjustmentResult> {
+    return this.adjust('Reversal', data, options);
+  }
+
+  /**
+   * Void a sale from the current, unsettled business day
+   */
+  void(data: AdjustmentData, options: PayOptions = {}): Promise<AdjustmentResult> {
+    return this.adjust('Void', data, options);
+  }
+
+  /**
+   * Refund all or part of a past sale
+   */
+  refund(data: AdjustmentData, options: PayOptions = {}): Promise<AdjustmentResult> {
+    return this.adjust('Refund', data, options);
+  }
+
+  /**
+   * Start an adjustment on the terminal and wait for its on<Type>Completed event.
+   * Rejects if the driver call fails or no result arrives within the timeout.
+   */
+  private async adjust(type: AdjustmentType, data: AdjustmentData, options: PayOptions): Promise<AdjustmentResult> {
+    if (!data.originalReference) {
+      throw new Error('The original transaction reference is required');
+    }
+
+    if (!data.amount || data.amount <= 0) {
+      throw new Error('Valid amount is required');
+    }
+
+    const reference = data.reference || await this.generateTransactionReference();
+    const timeoutMs = options.timeoutMs ?? DEFAULT_PAY_TIMEOUT_MS;
+
+    if (this.pendingAdjustments.has(reference)) {
+      throw new Error(`An adjustment with reference ${reference} is already in progress`);
+    }
+
+    TerminalStateMachine.transition('startPayment');
+
+    const outcome = new Promise<AdjustmentResult>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingAdjustments.delete(reference);
+        this.awaitingResults.add(reference);
+        logger.warn('payment', `${type} ${reference} timed out; terminal stays busy until its result arrives`);
+        reject(new Error(`${type} ${reference} timed out after ${Math.round(timeoutMs / 1000)}s`));
+      }, timeoutMs);
+
+      this.pendingAdjustments.set(reference, { amount: data.amount, resolve, reject, timer });
+    });
+
+    const adjustmentInfo: Required<AdjustmentData> = {
+      originalReference: data.originalReference,
+      originalRrn: data.originalRrn || '',
+      originalStan: data.originalStan || '',
+      amount: data.amount,
+      reference,
+      reason: data.reason || `${type} of ${data.originalReference}`,
+    };
+
+    logger.info('payment', `Initiating ${type.toLowerCase()}`, adjustmentInfo);
+
+    try {
+      switch (type) {
+        case 'Reversal':
+          await this.driver.reverseTransaction(adjustmentInfo);
+          break;
+        case 'Void':
+          await this.driver.voidTransaction(adjustmentInfo);
+          break;
+        case 'Refund':
+          await this.driver.refundTransaction(adjustmentInfo);
+          break;
+      }
+    } catch (error: any) {
+      logger.error('payment', `${type} initiation error`, error);
+      TerminalStateMachine.tryTransition('finishPayment');
+      this.rejectAdjustment(reference, new Error(error.message || `Failed to start ${type.toLowerCase()}`));
+    }
+
+    return outcome;
+  }
+
   /**
    * Print receipt with formatted data
    */
@@ -191,17 +494,23 @@ class InterswitchPOSService {
         throw new Error('Print data is required');
       }
 
-      console.log('Printing receipt with', printData.length, 'items');
+      TerminalStateMachine.transition('startPrint');
+      logger.info('print', `Printing receipt with ${printData.length} items`);
+
+      let result: PrintResult;
+      try {
+        result = await this.driver.printReceipt(printData);
+      } finally {
+        TerminalStateMachine.transition('finishPrint');
+      }
 
-      const result = await InterswitchPosModule.printReceipt(printData);
-      
       if (result && result.success) {
         return { success: true, data: result };
       } else {
         return { success: false, error: result?.message || 'Print failed' };
       }
     } catch (error: any) {
-      console.error('Print error:', error);
+      logger.error('print', 'Print error', error);
       return { success: false, error: error.message || 'Failed to print receipt' };
     }
   }
@@ -211,10 +520,10 @@ class InterswitchPOSService {
    */
   async showSettings(): Promise<{ success: boolean; message?: string; error?: string }> {
     try {
-      const result = await InterswitchPosModule.showSettings();
+      const result = await this.driver.showSettings();
       return { success: true, message: result.message };
     } catch (error: any) {
-      console.error('Settings error:', error);
+      logger.error('terminal', 'Settings error', error);
       return { success: false, error: error.message || 'Failed to open settings' };
     }
   }
@@ -224,23 +533,85 @@ class InterswitchPOSService {
    */
   async callHome(): Promise<{ success: boolean; message?: string; error?: string }> {
     try {
-      const result = await InterswitchPosModule.callHome();
-      return { success: true, message: result.message };
+      TerminalStateMachine.transition('startSync');
+      try {
+        const result = await this.driver.callHome();
+        PosEventBus.emit('syncCompleted', { success: true, message: result.message, timestamp: Date.now() });
+        return { success: true, message: result.message };
+      } finally {
+        TerminalStateMachine.transition('finishSync');
+      }
     } catch (error: any) {
-      console.error('Call home error:', error);
-      return { success: false, error: error.message || 'Failed to sync with server' };
+      logger.error('sync', 'Call home error', error);
+      const message = error.message || 'Failed to sync with server';
+      PosEventBus.emit('syncCompleted', { success: false, error: message, timestamp: Date.now() });
+      return { success: false, error: message };
     }
   }
 
+  /**
+   * Persist a new environment and re-initialize the terminal in it.
+   * PRODUCTION is refused on the simulator driver. The saved environment is
+   * rolled back when the terminal cannot be initialized in the new one.
+   */
+  async switchEnvironment(environment: Environment): Promise<{ success: boolean; message?: string; error?: string }> {
+    if (environment === 'PRODUCTION' && this.driver.name === 'simulator') {
+      return { success: false, error: 'PRODUCTION requires a linked POS terminal' };
+    }
+
+    if (!TerminalStateMachine.can('initialize')) {
+      return { success: false, error: `Terminal is ${TERMINAL_STATE_LABELS[TerminalStateMachine.getState()].toLowerCase()}` };
+    }
+
+    const previous = await EnvironmentService.getEnvironment();
+    try {
+      await EnvironmentService.setEnvironment(environment);
+    } catch (error: any) {
+      logger.error('terminal', 'Failed to save environment', error);
+      return { success: false, error: error.message || 'Failed to save environment' };
+    }
+
+    const result = await this.initializeTerminal({ environment });
+    if (!result.success) {
+      try {
+        await EnvironmentService.setEnvironment(previous);
+        logger.warn('terminal', `Environment switch to ${environment} failed, kept ${previous}`, result.error);
+      } catch (error) {
+        logger.error('terminal', 'Failed to roll back environment', error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Check credentials against the Interswitch backend: initialize the terminal
+   * with them, then call home. Reports which step failed.
+   */
+  async testCredentials(credentials: TerminalCredentials): Promise<{ success: boolean; message?: string; error?: string }> {
+    const init = await this.initializeTerminal(withoutEmptyValues(credentials));
+    if (!init.success) {
+      return { success: false, error: `Initialization failed: ${init.error}` };
+    }
+
+    const sync = await this.callHome();
+    if (!sync.success) {
+      return { success: false, error: `Call home failed: ${sync.error}` };
+    }
+
+    logger.info('sync', 'Credential test passed');
+    return { success: true, message: sync.message || 'Terminal initialized and synced' };
+  }
+
   /**
    * Get terminal information
    */
   async getTerminalInfo(): Promise<{ success: boolean; data?: TerminalInfo; error?: string }> {
     try {
-      const result = await InterswitchPosModule.getTerminalInfo();
+      const result = await this.driver.getTerminalInfo();
       return { success: true, data: result };
     } catch (error: any) {
-      console.error('Get terminal info error:', error);
+      logger.error('terminal', 'Get terminal info error', error);
       return { success: false, error: error.message || 'Failed to get terminal info' };
     }
   }
@@ -257,337 +628,276 @@ class InterswitchPOSService {
   /**
    * Convert amount from Naira to Kobo (for manual calculations)
    */
-  nairaToKobo(nairaAmount: number): number {
-    return Math.round(nairaAmount * 100);
+  nairaToKobo(nairaAmount: number): Money {
+    return fromNaira(nairaAmount);
   }
 
   /**
    * Convert amount from Kobo to Naira (for manual calculations)
    */
-  koboToNaira(koboAmount: number): number {
-    return koboAmount / 100;
+  koboToNaira(koboAmount: Money): number {
+    return toNaira(koboAmount);
   }
 
   /**
-   * Create a standard receipt format
+   * Create a standard receipt format. `custom` carries extras such as reprint details;
+   * `sale` adds the item lines and the subtotal, service charge, VAT and tip lines above the amount.
    */
-  createStandardReceipt(transactionData: PaymentResult, merchantInfo?: {
-    name?: string;
-    address?: string;
-    phone?: string;
-  }): PrintItem[] {
-    const receipt: PrintItem[] = [];
-
-    // Company logo (if available)
-    receipt.push({
-      type: 'image',
-      imageType: 'resource',
-      resourceName: 'logo' // Make sure you have a logo.png in android/app/src/main/res/drawable/
-    });
-
-    // Merchant header
-    if (merchantInfo?.name) {
-      receipt.push({
-        type: 'text',
-        text: merchantInfo.name,
-        isTitle: true,
-        displayCenter: true,
-        isBold: true
-      });
-    }
-
-    if (merchantInfo?.address) {
-      receipt.push({
-        type: 'text',
-        text: merchantInfo.address,
-        displayCenter: true
-      });
-    }
-
-    if (merchantInfo?.phone) {
-      receipt.push({
-        type: 'text',
-        text: `Tel: ${merchantInfo.phone}`,
-        displayCenter: true
-      });
-    }
-
-    receipt.push({ type: 'separator' });
-
-    // Transaction header
-    receipt.push({
-      type: 'text',
-      text: 'PAYMENT RECEIPT',
-      isTitle: true,
-      displayCenter: true,
-      isBold: true
+  createStandardReceipt(
+    transactionData: PaymentResult,
+    merchantInfo?: MerchantProfile,
+    custom?: ReceiptContext['custom'],
+    sale: SaleDetails = {}
+  ): PrintItem[] {
+    const { charges, items } = sale;
+    return ReceiptTemplates.render('sale', {
+      transaction: transactionData,
+      merchant: merchantInfo,
+      custom: {
+        ...custom,
+        items: items?.length ? items.map((item) => ({
+          name: item.name,
+          sku: item.sku,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          discount: item.discount,
+          total: getLineTotal(item),
+        })) : undefined,
+        charges: charges && {
+          subtotal: charges.subtotal,
+          serviceCharge: charges.serviceCharge,
+          serviceChargeRate: charges.serviceChargeRate,
+          vat: charges.vat,
+          vatRate: charges.vatRate,
+          tip: charges.tip,
+        },
+      },
     });
+  }
 
-    receipt.push({ type: 'newline' });
-
-    // Transaction details
-    receipt.push({
-      type: 'text',
-      text: `Amount: ₦${transactionData.amount.toFixed(2)}`,
-      isBold: true
+  /**
+   * Create a refund, void or reversal receipt that references the original sale
+   */
+  createAdjustmentReceipt(
+    adjustmentData: AdjustmentResult,
+    merchantInfo?: MerchantProfile,
+    custom?: ReceiptContext['custom']
+  ): PrintItem[] {
+    return ReceiptTemplates.render('refund', {
+      transaction: adjustmentData,
+      merchant: merchantInfo,
+      custom: {
+        adjustmentType: adjustmentData.adjustmentType,
+        originalReference: adjustmentData.originalReference,
+        ...custom,
+      },
     });
+  }
 
-    if (transactionData.cardType) {
-      receipt.push({
-        type: 'text',
-        text: `Card Type: ${transactionData.cardType}`
-      });
-    }
-
-    if (transactionData.cardPan) {
-      receipt.push({
-        type: 'text',
-        text: `PAN: ${transactionData.cardPan}`
-      });
-    }
+  /**
+   * Create a receipt from any registered template (sale, simple, refund, report, split or custom)
+   */
+  createReceipt(templateName: string, context: ReceiptContext): PrintItem[] {
+    return ReceiptTemplates.render(templateName, context);
+  }
 
-    if (transactionData.rrn) {
-      receipt.push({
-        type: 'text',
-        text: `RRN: ${transactionData.rrn}`
-      });
-    }
+  /**
+   * Add event listeners for payment and print callbacks, replacing the ones
+   * from the previous call.
+   * @deprecated Subscribe with PosEventBus.on, which supports any number of subscribers
+   */
+  addEventListeners(callbacks: EventCallbacks) {
+    logger.debug('terminal', 'Adding event listeners for POS events');
 
-    receipt.push({
-      type: 'text',
-      text: `Reference: ${transactionData.transactionReference}`
+    this.removeEventListeners();
+    const events = {
+      onPaymentCompleted: 'paymentCompleted',
+      onPaymentCancelled: 'paymentCancelled',
+      onPrintCompleted: 'printCompleted',
+      onPrintError: 'printError',
+    } as const;
+
+    (Object.keys(events) as (keyof EventCallbacks)[]).forEach((name) => {
+      const callback = callbacks[name];
+      if (callback) {
+        this.callbackSubscriptions.push(PosEventBus.on(events[name], callback as (payload: any) => void));
+      }
     });
+  }
 
-    if (transactionData.dateTime) {
-      receipt.push({
-        type: 'text',
-        text: `Date: ${transactionData.dateTime}`
-      });
-    }
+  /**
+   * Remove the listeners added with addEventListeners. Event bus subscribers are not affected.
+   */
+  removeEventListeners() {
+    logger.debug('terminal', 'Removing POS event listeners');
+    this.callbackSubscriptions.forEach((unsubscribe) => unsubscribe());
+    this.callbackSubscriptions = [];
+  }
 
-    if (transactionData.authorizationCode) {
-      receipt.push({
-        type: 'text',
-        text: `Auth Code: ${transactionData.authorizationCode}`
-      });
+  /**
+   * Resolve which pending call an event belongs to. Falls back to the
+   * only pending call when the event carries no reference at all.
+   */
+  private takePendingReference(pending: Map<string, unknown>, reference?: string): string | null {
+    if (reference) {
+      return pending.has(reference) ? reference : null;
     }
 
-    if (transactionData.stan) {
-      receipt.push({
-        type: 'text',
-        text: `STAN: ${transactionData.stan}`
-      });
+    if (pending.size === 1) {
+      return pending.keys().next().value ?? null;
     }
 
-    receipt.push({ type: 'separator' });
-
-    // Transaction status
-    const statusText = transactionData.isSuccessful ? 'APPROVED' : 'DECLINED';
-    receipt.push({
-      type: 'text',
-      text: statusText,
-      isTitle: true,
-      displayCenter: true,
-      isBold: true
-    });
-
-    receipt.push({ type: 'newline' });
-    receipt.push({ type: 'newline' });
+    return null;
+  }
 
-    // Footer
-    receipt.push({
-      type: 'text',
-      text: 'Thank you for your business!',
-      displayCenter: true
-    });
+  /**
+   * References of timed-out requests the terminal may still be processing
+   */
+  getAwaitingResults(): string[] {
+    return [...this.awaitingResults];
+  }
 
-    receipt.push({ type: 'newline' });
-    receipt.push({
-      type: 'text',
-      text: 'Keep this receipt for your records',
-      displayCenter: true
-    });
+  /**
+   * Stop waiting for a timed-out request once a cashier has checked its outcome,
+   * e.g. in History or on the terminal, and free the terminal for the next payment
+   */
+  releaseAwaitingResult(reference: string) {
+    if (!this.awaitingResults.delete(reference)) return;
 
-    return receipt;
+    logger.warn('payment', `Stopped waiting for the result of ${reference}`);
+    this.finishBusyState(null);
   }
 
   /**
-   * Add event listeners for payment and print callbacks
+   * Leave the busy state for an event that settled a pending request or a
+   * timed-out one, or when nothing is in flight. A late event must not end a
+   * newer payment that is still running.
    */
-  addEventListeners(callbacks: {
-    onPaymentCompleted?: (result: PaymentResult) => void;
-    onPaymentCancelled?: (result: any) => void;
-    onPrintCompleted?: (result: PrintResult) => void;
-    onPrintError?: (result: PrintResult) => void;
-  }) {
-    console.log('Adding event listeners for POS events');
-    
-    // Remove existing listeners first
-    this.removeEventListeners();
+  private finishBusyState(settledReference: string | null, eventReference?: string) {
+    if (eventReference) this.awaitingResults.delete(eventReference);
+    const idle = this.pendingPayments.size === 0 && this.pendingAdjustments.size === 0 && this.awaitingResults.size === 0;
 
-    if (callbacks.onPaymentCompleted) {
-      this.paymentCompletedListener = this.eventEmitter.addListener(
-        'onPaymentCompleted',
-        (result: PaymentResult) => {
-          console.log('Payment completed event received:', result);
-          callbacks.onPaymentCompleted!(result);
-        }
-      );
+    if (settledReference || idle) {
+      TerminalStateMachine.tryTransition('finishPayment');
     }
+  }
 
-    if (callbacks.onPaymentCancelled) {
-      this.paymentCancelledListener = this.eventEmitter.addListener(
-        'onPaymentCancelled',
-        (result: any) => {
-          console.log('Payment cancelled event received:', result);
-          callbacks.onPaymentCancelled!(result);
-        }
-      );
+  /**
+   * Write a result that arrived after its request stopped waiting to that
+   * request's own ledger entry, so a late approval is not lost
+   */
+  private async recordLateOutcome(reference: string, outcome: PayOutcome) {
+    logger.warn('payment', `Late result for ${reference}, which is no longer pending`, outcome);
+    try {
+      if (outcome.cancelled) {
+        await TransactionLedger.recordCancelled(reference, outcome.cancellation);
+      } else {
+        await TransactionLedger.recordCompleted(reference, outcome.result);
+      }
+    } catch (error) {
+      logger.error('payment', `Failed to record late result for ${reference}`, error);
     }
+  }
 
-    if (callbacks.onPrintCompleted) {
-      this.printCompletedListener = this.eventEmitter.addListener(
-        'onPrintCompleted',
-        (result: PrintResult) => {
-          console.log('Print completed event received:', result);
-          callbacks.onPrintCompleted!(result);
-        }
-      );
-    }
+  private settlePayment(reference: string, outcome: PayOutcome) {
+    const pending = this.pendingPayments.get(reference);
+    if (!pending) return;
 
-    if (callbacks.onPrintError) {
-      this.printErrorListener = this.eventEmitter.addListener(
-        'onPrintError',
-        (result: PrintResult) => {
-          console.log('Print error event received:', result);
-          callbacks.onPrintError!(result);
-        }
-      );
-    }
+    clearTimeout(pending.timer);
+    this.pendingPayments.delete(reference);
+    pending.resolve(outcome);
   }
 
-  /**
-   * Remove all event listeners
-   */
-  removeEventListeners() {
-    console.log('Removing POS event listeners');
-    
-    if (this.paymentCompletedListener) {
-      this.paymentCompletedListener.remove();
-      this.paymentCompletedListener = null;
-    }
+  private rejectPayment(reference: string, error: Error) {
+    const pending = this.pendingPayments.get(reference);
+    if (!pending) return;
 
-    if (this.paymentCancelledListener) {
-      this.paymentCancelledListener.remove();
-      this.paymentCancelledListener = null;
-    }
+    clearTimeout(pending.timer);
+    this.pendingPayments.delete(reference);
+    pending.reject(error);
+  }
 
-    if (this.printCompletedListener) {
-      this.printCompletedListener.remove();
-      this.printCompletedListener = null;
-    }
+  private settleAdjustment(reference: string, result: AdjustmentResult) {
+    const pending = this.pendingAdjustments.get(reference);
+    if (!pending) return;
 
-    if (this.printErrorListener) {
-      this.printErrorListener.remove();
-      this.printErrorListener = null;
-    }
+    clearTimeout(pending.timer);
+    this.pendingAdjustments.delete(reference);
+    pending.resolve(result);
+  }
+
+  private rejectAdjustment(reference: string, error: Error) {
+    const pending = this.pendingAdjustments.get(reference);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    this.pendingAdjustments.delete(reference);
+    pending.reject(error);
   }
 
   /**
    * Get module constants
    */
   getConstants() {
-    return InterswitchPosModule.getConstants ? InterswitchPosModule.getConstants() : {};
+    return this.driver.getConstants();
   }
 
   /**
    * Check if terminal is ready for transactions
    */
   async isTerminalReady(): Promise<boolean> {
+    if (TerminalStateMachine.getState() !== 'ready') {
+      return false;
+    }
+
     try {
       const info = await this.getTerminalInfo();
       return info.success && info.data?.isInitialized === true;
     } catch (error) {
-      console.error('Terminal ready check error:', error);
+      logger.error('terminal', 'Terminal ready check error', error);
       return false;
     }
   }
 
   /**
-   * Validate payment amount
+   * Validate a payment amount against the minimum and maximum for its
+   * payment type. `rule` says which limit was hit; it is missing for amounts
+   * that are not valid at all. Operator and daily caps are checked by
+   * TransactionLimits.check.
    */
-  validatePaymentAmount(amount: number): { valid: boolean; error?: string } {
-    if (!amount || typeof amount !== 'number') {
-      return { valid: false, error: 'Amount must be a valid number' };
+  validatePaymentAmount(
+    amount: Money,
+    paymentType?: PaymentData['paymentType'],
+    approvedOverrides: LimitRule[] = []
+  ): { valid: boolean; error?: string; rule?: LimitRule } {
+    if (!Number.isSafeInteger(amount)) {
+      return { valid: false, error: 'Amount must be a whole number of kobo' };
     }
 
     if (amount <= 0) {
       return { valid: false, error: 'Amount must be greater than zero' };
     }
 
-    if (amount < 10) {
-      return { valid: false, error: 'Minimum amount is ₦10' };
-    }
-
-    if (amount > 999999.99) {
-      return { valid: false, error: 'Amount exceeds maximum limit (₦999,999.99)' };
-    }
-
-    // Check for more than 2 decimal places
-    if (Math.round(amount * 100) !== amount * 100) {
-      return { valid: false, error: 'Amount cannot have more than 2 decimal places' };
+    const violation = TransactionLimits.checkRange(amount, paymentType);
+    if (violation && !approvedOverrides.includes(violation.rule)) {
+      return { valid: false, error: violation.message, rule: violation.rule };
     }
 
     return { valid: true };
   }
 
   /**
-   * Format currency for display
+   * Format an amount for display
    */
-  formatCurrency(amount: number): string {
-    return new Intl.NumberFormat('en-NG', {
-      style: 'currency',
-      currency: 'NGN',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(amount);
+  formatCurrency(amount: Money): string {
+    return formatMoney(amount);
   }
 
   /**
    * Create a simple text receipt (for testing)
    */
   createSimpleReceipt(transactionData: PaymentResult): PrintItem[] {
-    return [
-      {
-        type: 'text',
-        text: 'PAYMENT RECEIPT',
-        isTitle: true,
-        displayCenter: true,
-        isBold: true
-      },
-      { type: 'separator' },
-      {
-        type: 'text',
-        text: `Amount: ${this.formatCurrency(transactionData.amount)}`,
-        isBold: true
-      },
-      {
-        type: 'text',
-        text: `Reference: ${transactionData.transactionReference}`
-      },
-      {
-        type: 'text',
-        text: `Status: ${transactionData.isSuccessful ? 'APPROVED' : 'DECLINED'}`,
-        isBold: true,
-        displayCenter: true
-      },
-      { type: 'separator' },
-      {
-        type: 'text',
-        text: 'Thank you!',
-        displayCenter: true
-      }
-    ];
+    return ReceiptTemplates.render('simple', { transaction: transactionData });
   }
 
   /**
@@ -595,16 +905,16 @@ class InterswitchPOSService {
    */
   async testConnection(): Promise<{ success: boolean; message: string }> {
     try {
-      if (!InterswitchPosModule) {
+      const constants = this.getConstants();
+      logger.debug('terminal', 'Driver constants', constants);
+
+      if (this.driver.name === 'simulator') {
         return { 
-          success: false, 
-          message: 'Native module not found. Check if the module is properly linked.' 
+          success: true, 
+          message: `Native module not found. Using POS simulator (SDK Version: ${constants.SDK_VERSION || 'Unknown'})` 
         };
       }
 
-      const constants = this.getConstants();
-      console.log('Native module constants:', constants);
-
       return { 
         success: true, 
         message: `Native module connected. SDK Version: ${constants.SDK_VERSION || 'Unknown'}` 
@@ -622,9 +932,21 @@ class InterswitchPOSService {
 const interswitchPOSService = new InterswitchPOSService();
 export default interswitchPOSService;
 
+export { simulatorPosDriver };
+
 // Export types for use in other files
 export type {
+  AdjustmentData,
+  AdjustmentResult,
+  AdjustmentType,
   LogoConfig,
+  MerchantProfile,
+  PosDriver,
+  ReceiptContext,
+  PayOptions,
+  SaleDetails,
+  PayOutcome,
+  PaymentCancellation,
   PaymentData,
   PaymentResult,
   PrintItem,
@@ -0,0 +1,225 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { redact, redactText } from '../utils/redaction';
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+type LogTag = 'terminal' | 'payment' | 'print' | 'sync' | 'app';
+
+interface LogEntry {
+  id: number;
+  timestamp: number;
+  level: LogLevel;
+  tag: LogTag;
+  message: string;
+  data?: string; // Extra context, serialized when the entry is written
+}
+
+interface LogFilter {
+  levels?: LogLevel[];
+  tags?: LogTag[];
+  search?: string;
+}
+
+interface TaggedLogger {
+  debug(message: string, data?: unknown): void;
+  info(message: string, data?: unknown): void;
+  warn(message: string, data?: unknown): void;
+  error(message: string, data?: unknown): void;
+}
+
+type LogListener = (entries: LogEntry[]) => void;
+
+const STORAGE_KEY = '@interswitch/logs';
+const MAX_ENTRIES = 1000;
+const FLUSH_DELAY_MS = 2000;
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+const LOG_TAGS: LogTag[] = ['terminal', 'payment', 'print', 'sync', 'app'];
+
+/**
+ * Leveled, tagged logger that keeps the most recent entries in a ring buffer
+ * persisted to AsyncStorage, so field support can read logs on the device.
+ * Entries are mirrored to the console in development builds. Everything is
+ * passed through redact() first so secrets and card data never reach storage.
+ */
+class Logger {
+  private entries: LogEntry[] = [];
+  private nextId = 1;
+  private listeners = new Set<LogListener>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private loaded: Promise<void>;
+
+  constructor() {
+    this.loaded = this.restore();
+  }
+
+  debug(tag: LogTag, message: string, data?: unknown) {
+    this.log('debug', tag, message, data);
+  }
+
+  info(tag: LogTag, message: string, data?: unknown) {
+    this.log('info', tag, message, data);
+  }
+
+  warn(tag: LogTag, message: string, data?: unknown) {
+    this.log('warn', tag, message, data);
+  }
+
+  error(tag: LogTag, message: string, data?: unknown) {
+    this.log('error', tag, message, data);
+  }
+
+  /**
+   * Logger bound to a single tag, e.g. `const log = logger.forTag('payment')`
+   */
+  forTag(tag: LogTag): TaggedLogger {
+    return {
+      debug: (message, data) => this.debug(tag, message, data),
+      info: (message, data) => this.info(tag, message, data),
+      warn: (message, data) => this.warn(tag, message, data),
+      error: (message, data) => this.error(tag, message, data),
+    };
+  }
+
+  /**
+   * Stored entries matching the filter, newest first
+   */
+  async getEntries(filter: LogFilter = {}): Promise<LogEntry[]> {
+    await this.loaded;
+
+    const search = filter.search?.trim().toLowerCase();
+    return this.entries
+      .filter((entry) => !filter.levels?.length || filter.levels.includes(entry.level))
+      .filter((entry) => !filter.tags?.length || filter.tags.includes(entry.tag))
+      .filter((entry) => !search
+        || entry.message.toLowerCase().includes(search)
+        || !!entry.data?.toLowerCase().includes(search))
+      .reverse();
+  }
+
+  /**
+   * Plain-text bundle of the stored logs for sharing with support
+   */
+  async buildBundle(header: Record<string, string | number | undefined> = {}): Promise<string> {
+    const entries = [...await this.getEntries()].reverse();
+    const lines = [
+      'Interswitch POS log bundle',
+      `Generated: ${new Date().toISOString()}`,
+      ...Object.entries(header).map(([key, value]) => `${key}: ${value ?? 'Unknown'}`),
+      `Entries: ${entries.length}`,
+      '',
+      ...entries.map(formatLogEntry),
+    ];
+
+    return lines.join('\n') + '\n';
+  }
+
+  async clear() {
+    await this.loaded;
+    this.entries = [];
+    this.notify();
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  }
+
+  /**
+   * Get notified whenever an entry is added. Returns an unsubscribe function.
+   */
+  subscribe(listener: LogListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private log(level: LogLevel, tag: LogTag, message: string, data?: unknown) {
+    const entry: LogEntry = {
+      id: this.nextId++,
+      timestamp: Date.now(),
+      level,
+      tag,
+      message: redactText(message),
+      data: data === undefined ? undefined : serialize(redact(data)),
+    };
+
+    if (__DEV__) {
+      const method = level === 'debug' ? 'log' : level;
+      console[method](`[${tag}] ${entry.message}`, ...(entry.data === undefined ? [] : [entry.data]));
+    }
+
+    this.entries.push(entry);
+    if (this.entries.length > MAX_ENTRIES) {
+      this.entries.splice(0, this.entries.length - MAX_ENTRIES);
+    }
+
+    this.notify();
+    this.scheduleFlush();
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener([...this.entries].reverse()));
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimer) return;
+
+    this.flushTimer = setTimeout(async () => {
+      this.flushTimer = null;
+      await this.loaded;
+
+      try {
+        await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.entries));
+      } catch (error) {
+        console.error('Failed to persist logs:', error);
+      }
+    }, FLUSH_DELAY_MS);
+  }
+
+  /**
+   * Merge entries persisted by previous sessions in front of anything logged since start-up
+   */
+  private async restore() {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      const previous: LogEntry[] = stored ? JSON.parse(stored) : [];
+      const offset = previous.length ? previous[previous.length - 1].id : 0;
+
+      this.entries = [
+        ...previous,
+        ...this.entries.map((entry) => ({ ...entry, id: entry.id + offset })),
+      ].slice(-MAX_ENTRIES);
+      this.nextId = (this.entries.length ? this.entries[this.entries.length - 1].id : 0) + 1;
+    } catch (error) {
+      console.error('Failed to restore logs:', error);
+    }
+  }
+}
+
+function serialize(data: unknown): string {
+  if (data instanceof Error) {
+    return JSON.stringify({ name: data.name, message: data.message, stack: data.stack });
+  }
+
+  if (typeof data === 'string') {
+    return data;
+  }
+
+  try {
+    return JSON.stringify(data, (_key, value) => (
+      value instanceof Error ? { name: value.name, message: value.message } : value
+    ));
+  } catch {
+    return String(data);
+  }
+}
+
+function formatLogEntry(entry: LogEntry): string {
+  const line = `${new Date(entry.timestamp).toISOString()} ${entry.level.toUpperCase().padEnd(5)} [${entry.tag}] ${entry.message}`;
+  return entry.data === undefined ? line : `${line} ${entry.data}`;
+}
+
+// Create and export singleton instance
+const logger = new Logger();
+export default logger;
+
+export { formatLogEntry, LOG_LEVELS, LOG_TAGS };
+export type { LogEntry, LogFilter, LogLevel, LogTag, TaggedLogger };
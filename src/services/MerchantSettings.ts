@@ -0,0 +1,97 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import logger from './Logger';
+import type { PaymentType } from './TransactionLedger';
+
+// Which receipt copies to print after an approved payment
+type ReceiptCopiesMode = 'both' | 'customer' | 'ask';
+
+interface MerchantSettingsData {
+  receiptCopies: ReceiptCopiesMode;
+  enabledPaymentTypes: PaymentType[]; // Methods offered on the payment screen
+  vatRate: number; // Percent added to every sale, 0 for none
+  serviceChargeRate: number; // Percent of the subtotal, 0 for none
+  tipsEnabled: boolean;
+  tipPresets: number[]; // Percent of the subtotal offered as one-tap tips
+}
+
+type MerchantSettingsListener = (settings: MerchantSettingsData) => void;
+
+const STORAGE_KEY = '@interswitch/merchant-settings';
+
+const DEFAULT_SETTINGS: MerchantSettingsData = {
+  receiptCopies: 'both',
+  enabledPaymentTypes: ['Card', 'QR', 'USSD', 'Transfer'],
+  vatRate: 0,
+  serviceChargeRate: 0,
+  tipsEnabled: false,
+  tipPresets: [5, 10, 15],
+};
+
+/**
+ * Per-merchant preferences persisted on the device
+ */
+class MerchantSettings {
+  private settings: MerchantSettingsData = { ...DEFAULT_SETTINGS };
+  private loaded: Promise<void>;
+  private listeners = new Set<MerchantSettingsListener>();
+
+  constructor() {
+    this.loaded = this.restore();
+  }
+
+  async getSettings(): Promise<MerchantSettingsData> {
+    await this.loaded;
+    return { ...this.settings };
+  }
+
+  /**
+   * Last known settings, without waiting for storage (defaults until loaded)
+   */
+  getCurrentSettings(): MerchantSettingsData {
+    return { ...this.settings };
+  }
+
+  async update(changes: Partial<MerchantSettingsData>): Promise<MerchantSettingsData> {
+    if (changes.enabledPaymentTypes?.length === 0) {
+      throw new Error('At least one payment method must be enabled');
+    }
+
+    await this.loaded;
+    const settings = { ...this.settings, ...changes };
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+
+    this.settings = settings;
+    logger.info('app', 'Merchant settings updated', changes);
+    this.listeners.forEach((listener) => listener({ ...settings }));
+    return { ...settings };
+  }
+
+  /**
+   * Get notified when settings change. Returns an unsubscribe function.
+   */
+  subscribe(listener: MerchantSettingsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async restore() {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        // Merge so settings added in later versions get their defaults
+        this.settings = { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+        this.listeners.forEach((listener) => listener({ ...this.settings }));
+      }
+    } catch (error) {
+      logger.error('app', 'Failed to load merchant settings', error);
+    }
+  }
+}
+
+// Create and export singleton instance
+const merchantSettings = new MerchantSettings();
+export default merchantSettings;
+
+export type { MerchantSettingsData, ReceiptCopiesMode };
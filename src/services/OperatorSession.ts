@@ -0,0 +1,77 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import logger from './Logger';
+
+type OperatorListener = (operator: string) => void;
+
+const STORAGE_KEY = '@interswitch/operator';
+const DEFAULT_OPERATOR = 'Cashier';
+
+/**
+ * Name of the cashier using the terminal. Stamped on ledger entries and
+ * reprints so reports and audits can tell operators apart.
+ */
+class OperatorSession {
+  private operator = DEFAULT_OPERATOR;
+  private loaded: Promise<void>;
+  private listeners = new Set<OperatorListener>();
+
+  constructor() {
+    this.loaded = this.restore();
+  }
+
+  async getOperator(): Promise<string> {
+    await this.loaded;
+    return this.operator;
+  }
+
+  /**
+   * Last known operator, without waiting for storage
+   */
+  getCurrentOperator(): string {
+    return this.operator;
+  }
+
+  /**
+   * Sign in another operator. Operator caps are keyed by this name, so the
+   * caller must have a supervisor approve the change first.
+   */
+  async setOperator(name: string): Promise<void> {
+    const operator = name.trim();
+    if (!operator) {
+      throw new Error('Operator name is required');
+    }
+
+    await this.loaded;
+    await AsyncStorage.setItem(STORAGE_KEY, operator);
+
+    this.operator = operator;
+    logger.info('app', `Operator signed in: ${operator}`);
+    this.listeners.forEach((listener) => listener(operator));
+  }
+
+  /**
+   * Get notified when the operator changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: OperatorListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async restore() {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        this.operator = stored;
+        this.listeners.forEach((listener) => listener(this.operator));
+      }
+    } catch (error) {
+      logger.error('app', 'Failed to load operator', error);
+    }
+  }
+}
+
+// Create and export singleton instance
+const operatorSession = new OperatorSession();
+export default operatorSession;
@@ -0,0 +1,94 @@
+import type { PaymentType } from './TransactionLedger';
+
+// Customer details a method needs on top of the name
+type CustomerField = 'email' | 'mobile';
+
+interface PaymentMethod {
+  label: string;
+  icon: string; // MaterialCommunityIcons name
+  description: string;
+  instructions: string; // Shown to the cashier before starting the payment
+  payLabel: string;
+  requiredFields: CustomerField[];
+}
+
+// Every paymentType the SmartPOS SDK accepts, in picker order
+const PAYMENT_TYPES: PaymentType[] = ['Card', 'QR', 'USSD', 'Transfer', 'CNP', 'PayCode', 'ThankYouCash', 'Cash'];
+
+const PAYMENT_METHODS: Record<PaymentType, PaymentMethod> = {
+  Card: {
+    label: 'Card',
+    icon: 'credit-card',
+    description: 'Accept Visa, Mastercard, and Verve cards',
+    instructions: 'Ask the customer to insert or tap their card on the terminal.',
+    payLabel: 'Pay with Card',
+    requiredFields: ['email', 'mobile'],
+  },
+  QR: {
+    label: 'QR Code',
+    icon: 'qrcode',
+    description: 'Quick scan-to-pay functionality',
+    instructions: 'The terminal shows a QR code for the customer to scan with their banking app.',
+    payLabel: 'Show QR Code',
+    requiredFields: ['email', 'mobile'],
+  },
+  USSD: {
+    label: 'USSD',
+    icon: 'phone',
+    description: 'Mobile money via USSD codes',
+    instructions: 'The terminal shows a USSD code for the customer to dial on their phone.',
+    payLabel: 'Generate USSD Code',
+    requiredFields: ['mobile'],
+  },
+  Transfer: {
+    label: 'Bank Transfer',
+    icon: 'bank',
+    description: 'Direct bank account transfers',
+    instructions: 'The terminal shows an account number. Wait for the transfer to be confirmed.',
+    payLabel: 'Show Transfer Details',
+    requiredFields: ['email'],
+  },
+  CNP: {
+    label: 'Card Not Present',
+    icon: 'credit-card-edit',
+    description: 'Key in card details for phone and mail orders',
+    instructions: 'Enter the card number, expiry and CVV on the terminal.',
+    payLabel: 'Enter Card Details',
+    requiredFields: ['email', 'mobile'],
+  },
+  PayCode: {
+    label: 'Paycode',
+    icon: 'numeric',
+    description: 'Cardless payment with a one-time Paycode',
+    instructions: 'Ask the customer for the Paycode generated in their banking app and enter it on the terminal.',
+    payLabel: 'Enter Paycode',
+    requiredFields: ['mobile'],
+  },
+  ThankYouCash: {
+    label: 'ThankYouCash',
+    icon: 'gift',
+    description: 'Redeem ThankYouCash loyalty points',
+    instructions: 'The customer redeems points with the phone number linked to their ThankYouCash account.',
+    payLabel: 'Redeem Points',
+    requiredFields: ['mobile'],
+  },
+  Cash: {
+    label: 'Cash',
+    icon: 'cash',
+    description: 'Record cash taken at the till',
+    instructions: 'Collect the cash before recording the payment.',
+    payLabel: 'Record Cash Payment',
+    requiredFields: [],
+  },
+};
+
+/**
+ * Enabled methods in picker order, ignoring unknown or duplicate entries
+ */
+function getEnabledPaymentTypes(enabled: PaymentType[]): PaymentType[] {
+  return PAYMENT_TYPES.filter((type) => enabled.includes(type));
+}
+
+export { getEnabledPaymentTypes, PAYMENT_METHODS, PAYMENT_TYPES };
+
+export type { CustomerField, PaymentMethod };
@@ -0,0 +1,192 @@
+import logger from './Logger';
+import type { TerminalSnapshot } from './TerminalStateMachine';
+import type { AdjustmentResult, PaymentCancellation, PaymentResult, PrintResult } from './types';
+
+interface SyncEvent {
+  success: boolean;
+  message?: string;
+  error?: string;
+  timestamp: number;
+}
+
+// Payload of every event on the bus
+interface PosEventMap {
+  paymentCompleted: PaymentResult;
+  paymentCancelled: PaymentCancellation;
+  adjustmentCompleted: AdjustmentResult;
+  printCompleted: PrintResult;
+  printError: PrintResult;
+  syncCompleted: SyncEvent;
+  terminalStateChanged: TerminalSnapshot;
+}
+
+type PosEvent = keyof PosEventMap;
+
+type PosEventHandler<E extends PosEvent> = (payload: PosEventMap[E]) => void;
+
+type FieldType = 'string' | 'number' | 'boolean';
+
+interface NormalizedPaymentResult {
+  result?: PaymentResult; // Missing when a field needed to settle the payment is missing
+  problems: string[]; // Why the result cannot be used
+  defaulted: string[]; // Optional fields that were missing or mistyped and were filled with defaults
+}
+
+// Declared shapes of the payloads that arrive from the terminal
+const PAYMENT_RESULT_FIELDS: Record<keyof PaymentResult, FieldType> = {
+  responseCode: 'string',
+  responseMessage: 'string',
+  isSuccessful: 'boolean',
+  transactionReference: 'string',
+  rrn: 'string',
+  amount: 'number',
+  cardType: 'string',
+  transactionType: 'string',
+  cardHolderName: 'string',
+  cardExpiry: 'string',
+  cardPan: 'string',
+  aid: 'string',
+  dateTime: 'string',
+  txnDate: 'number',
+  authorizationCode: 'string',
+  stan: 'string',
+  authCode: 'string',
+  transactionCurrencyType: 'string',
+  timestamp: 'number',
+  status: 'string',
+};
+
+// Without these a result cannot be matched to its payment or tell approved from declined
+const REQUIRED_PAYMENT_RESULT_FIELDS: (keyof PaymentResult)[] = ['transactionReference', 'isSuccessful', 'responseCode', 'amount'];
+
+// The SDK sends null for fields that do not apply, such as cardHolderName or authCode on a decline
+const PAYMENT_RESULT_DEFAULTS: Omit<PaymentResult, 'transactionReference' | 'isSuccessful' | 'responseCode' | 'amount' | 'timestamp'> = {
+  responseMessage: '',
+  rrn: '',
+  cardType: '',
+  transactionType: '',
+  cardHolderName: '',
+  cardExpiry: '',
+  cardPan: '',
+  aid: '',
+  dateTime: '',
+  txnDate: 0,
+  authorizationCode: '',
+  stan: '',
+  authCode: '',
+  transactionCurrencyType: '',
+  status: 'completed',
+};
+
+const PRINT_RESULT_FIELDS: Record<keyof PrintResult, FieldType> = {
+  status: 'string',
+  message: 'string',
+  success: 'boolean',
+  timestamp: 'number',
+};
+
+function validateShape(payload: unknown, fields: Record<string, FieldType>): string[] {
+  if (typeof payload !== 'object' || payload === null) {
+    return ['payload is not an object'];
+  }
+
+  const values = payload as Record<string, unknown>;
+  return Object.entries(fields)
+    .filter(([field, type]) => typeof values[field] !== type)
+    .map(([field, type]) => `${field} should be a ${type} but is ${values[field] === null ? 'null' : typeof values[field]}`);
+}
+
+/**
+ * Check a payment result from the terminal. Only the fields needed to settle the
+ * payment are required; any other missing or mistyped field is filled with a default
+ * and listed in `defaulted`, so an approval is never lost over a null card field.
+ */
+function normalizePaymentResult(payload: unknown): NormalizedPaymentResult {
+  const required = Object.fromEntries(REQUIRED_PAYMENT_RESULT_FIELDS.map((field) => [field, PAYMENT_RESULT_FIELDS[field]]));
+  const problems = validateShape(payload, required);
+  if (problems.length > 0) {
+    return { problems, defaulted: [] };
+  }
+
+  const values = payload as Record<string, unknown>;
+  const result: Record<string, unknown> = { ...values };
+  const defaulted: string[] = [];
+  (Object.keys(PAYMENT_RESULT_DEFAULTS) as (keyof typeof PAYMENT_RESULT_DEFAULTS)[]).forEach((field) => {
+    if (typeof values[field] !== PAYMENT_RESULT_FIELDS[field]) {
+      result[field] = PAYMENT_RESULT_DEFAULTS[field];
+      defaulted.push(field);
+    }
+  });
+
+  if (result.status !== 'completed' && result.status !== 'cancelled') {
+    result.status = PAYMENT_RESULT_DEFAULTS.status;
+    defaulted.push('status');
+  }
+
+  if (typeof values.timestamp !== 'number') {
+    result.timestamp = Date.now();
+    defaulted.push('timestamp');
+  }
+
+  return { result: result as unknown as PaymentResult, problems: [], defaulted };
+}
+
+/**
+ * Problems with a print result from the terminal. Empty when it matches PrintResult.
+ */
+function validatePrintResult(payload: unknown): string[] {
+  return validateShape(payload, PRINT_RESULT_FIELDS);
+}
+
+/**
+ * Typed publish/subscribe channel for POS events. Any number of subscribers
+ * can listen to the same event; each subscription has its own unsubscribe handle.
+ */
+class PosEventBus {
+  private handlers = new Map<PosEvent, Set<(payload: any) => void>>();
+
+  /**
+   * Subscribe to an event. Returns an unsubscribe function.
+   */
+  on<E extends PosEvent>(event: E, handler: PosEventHandler<E>): () => void {
+    let handlers = this.handlers.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(event, handlers);
+    }
+    handlers.add(handler);
+
+    return () => {
+      this.handlers.get(event)?.delete(handler);
+    };
+  }
+
+  /**
+   * Deliver an event to every subscriber. A subscriber that throws is logged
+   * and does not stop the others from receiving the event.
+   */
+  emit<E extends PosEvent>(event: E, payload: PosEventMap[E]) {
+    this.handlers.get(event)?.forEach((handler) => {
+      try {
+        handler(payload);
+      } catch (error) {
+        logger.error('app', `Subscriber to ${event} failed`, error);
+      }
+    });
+  }
+
+  /**
+   * Number of subscribers to an event
+   */
+  listenerCount(event: PosEvent): number {
+    return this.handlers.get(event)?.size ?? 0;
+  }
+}
+
+// Create and export singleton instance
+const posEventBus = new PosEventBus();
+export default posEventBus;
+
+export { normalizePaymentResult, validatePrintResult };
+
+export type { NormalizedPaymentResult, PosEvent, PosEventHandler, PosEventMap, SyncEvent };
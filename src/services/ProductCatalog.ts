@@ -0,0 +1,172 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Money, ZERO } from '../utils/money';
+import logger from './Logger';
+
+// How VAT applies to a product. Zero-rated and exempt goods are both charged no VAT.
+type TaxClass = 'standard' | 'zeroRated' | 'exempt';
+
+interface Product {
+  id: string;
+  sku: string;
+  name: string;
+  price: Money;
+  category: string;
+  taxClass: TaxClass;
+  createdAt: number;
+  updatedAt: number;
+}
+
+type ProductInput = Pick<Product, 'sku' | 'name' | 'price' | 'category' | 'taxClass'>;
+
+type ProductErrors = Partial<Record<keyof ProductInput, string>>;
+
+type ProductCatalogListener = (products: Product[]) => void;
+
+const STORAGE_KEY = '@interswitch/products';
+
+const TAX_CLASS_LABELS: Record<TaxClass, string> = {
+  standard: 'Standard VAT',
+  zeroRated: 'Zero-rated',
+  exempt: 'VAT exempt',
+};
+
+const UNCATEGORISED = 'Uncategorised';
+
+/**
+ * Products sold from the terminal, kept on the device and sorted by category then name
+ */
+class ProductCatalog {
+  private products: Product[] = [];
+  private loaded: Promise<void>;
+  private listeners = new Set<ProductCatalogListener>();
+
+  constructor() {
+    this.loaded = this.restore();
+  }
+
+  async getProducts(): Promise<Product[]> {
+    await this.loaded;
+    return [...this.products];
+  }
+
+  async getProduct(id: string): Promise<Product | undefined> {
+    await this.loaded;
+    return this.products.find((product) => product.id === id);
+  }
+
+  /**
+   * Field-level validation. Returns an empty object when the product can be saved.
+   * `id` is the product being edited, so it does not clash with its own SKU.
+   */
+  validate(input: ProductInput, id?: string): ProductErrors {
+    const errors: ProductErrors = {};
+    const sku = input.sku.trim().toUpperCase();
+
+    if (!input.name.trim()) {
+      errors.name = 'Name is required';
+    }
+
+    if (!sku) {
+      errors.sku = 'SKU is required';
+    } else if (!/^[A-Z0-9_-]{1,32}$/.test(sku)) {
+      errors.sku = 'SKU can only contain letters, numbers, "-" and "_" (max 32)';
+    } else if (this.products.some((product) => product.sku === sku && product.id !== id)) {
+      errors.sku = `${sku} is already used by another product`;
+    }
+
+    if (!Number.isSafeInteger(input.price) || input.price <= ZERO) {
+      errors.price = 'Enter a price greater than ₦0';
+    }
+
+    return errors;
+  }
+
+  /**
+   * Create a product, or update the one with `id`. Throws when the input is invalid.
+   */
+  async saveProduct(input: ProductInput, id?: string): Promise<Product> {
+    await this.loaded;
+    const errors = this.validate(input, id);
+    const firstError = Object.values(errors)[0];
+    if (firstError) {
+      throw new Error(firstError);
+    }
+
+    const now = Date.now();
+    const existing = id ? this.products.find((product) => product.id === id) : undefined;
+    if (id && !existing) {
+      throw new Error('Product not found');
+    }
+
+    const product: Product = {
+      id: existing?.id ?? `PRD_${now}_${Math.random().toString(36).slice(2, 8).toUpperCase()}`,
+      sku: input.sku.trim().toUpperCase(),
+      name: input.name.trim(),
+      price: input.price,
+      category: input.category.trim() || UNCATEGORISED,
+      taxClass: input.taxClass,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    await this.save([...this.products.filter((value) => value.id !== product.id), product]);
+    logger.info('app', `Product ${product.sku} ${existing ? 'updated' : 'created'}`, { price: product.price });
+    return product;
+  }
+
+  async deleteProduct(id: string): Promise<void> {
+    await this.loaded;
+    const product = this.products.find((value) => value.id === id);
+    if (!product) {
+      return;
+    }
+
+    await this.save(this.products.filter((value) => value.id !== id));
+    logger.info('app', `Product ${product.sku} deleted`);
+  }
+
+  /**
+   * Get notified when the catalogue changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: ProductCatalogListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async save(products: Product[]) {
+    const sorted = [...products].sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(sorted));
+
+    this.products = sorted;
+    this.listeners.forEach((listener) => listener([...sorted]));
+  }
+
+  private async restore() {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        this.products = JSON.parse(stored);
+        this.listeners.forEach((listener) => listener([...this.products]));
+      }
+    } catch (error) {
+      logger.error('app', 'Failed to load product catalogue', error);
+    }
+  }
+}
+
+/**
+ * Categories in use, in catalogue order
+ */
+function getCategories(products: Product[]): string[] {
+  return [...new Set(products.map((product) => product.category))];
+}
+
+// Create and export singleton instance
+const productCatalog = new ProductCatalog();
+export default productCatalog;
+
+export { getCategories, TAX_CLASS_LABELS };
+
+export type { Product, ProductErrors, ProductInput, TaxClass };
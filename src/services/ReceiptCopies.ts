@@ -0,0 +1,55 @@
+import InterswitchPOSService, { SaleDetails } from './InterswitchService';
+import logger from './Logger';
+import type { ReceiptCopiesMode } from './MerchantSettings';
+import type { MerchantProfile } from './receipts/ReceiptTemplateEngine';
+import type { PaymentResult } from './types';
+
+type ReceiptCopy = 'merchant' | 'customer';
+
+// Merchant copy first so the cardholder can sign it before taking theirs
+const COPIES_BY_MODE: Record<Exclude<ReceiptCopiesMode, 'ask'>, ReceiptCopy[]> = {
+  both: ['merchant', 'customer'],
+  customer: ['customer'],
+};
+
+/**
+ * Copies to print for a fixed mode. 'ask' has no fixed answer and must be resolved by the cashier.
+ */
+function getReceiptCopies(mode: Exclude<ReceiptCopiesMode, 'ask'>): ReceiptCopy[] {
+  return [...COPIES_BY_MODE[mode]];
+}
+
+/**
+ * Print each copy in turn. `beforeNextCopy` runs between copies so the cashier
+ * can tear off the paper; resolving false stops printing. `sale` holds the
+ * items and charges stored with the sale, if any.
+ */
+async function printReceiptCopies(
+  transaction: PaymentResult,
+  merchant: MerchantProfile | undefined,
+  copies: ReceiptCopy[],
+  beforeNextCopy?: (next: ReceiptCopy) => Promise<boolean>,
+  sale?: SaleDetails
+): Promise<{ success: boolean; printed: ReceiptCopy[]; error?: string }> {
+  const printed: ReceiptCopy[] = [];
+
+  for (const copy of copies) {
+    if (printed.length > 0 && beforeNextCopy && !(await beforeNextCopy(copy))) {
+      logger.info('print', `Skipped ${copy} copy of ${transaction.transactionReference}`);
+      break;
+    }
+
+    const receipt = InterswitchPOSService.createStandardReceipt(transaction, merchant, { copy }, sale);
+    const result = await InterswitchPOSService.printReceipt(receipt);
+    if (!result.success) {
+      return { success: false, printed, error: result.error };
+    }
+
+    printed.push(copy);
+  }
+
+  return { success: true, printed };
+}
+
+export { getReceiptCopies, printReceiptCopies };
+export type { ReceiptCopy };
@@ -0,0 +1,92 @@
+import InterswitchPOSService from './InterswitchService';
+import logger from './Logger';
+import OperatorSession from './OperatorSession';
+import type { MerchantProfile, ReceiptContext } from './receipts/ReceiptTemplateEngine';
+import TransactionLedger, { getTransactionType, LedgerEntry } from './TransactionLedger';
+import type { PrintItem } from './types';
+
+/**
+ * Customer copy of the receipt for a ledger entry: the sale receipt, or the
+ * adjustment receipt for reversals, voids and refunds
+ */
+function buildEntryReceipt(entry: LedgerEntry, merchant?: MerchantProfile, custom?: ReceiptContext['custom']): PrintItem[] {
+  if (!entry.result) {
+    throw new Error('This transaction has no receipt to reprint');
+  }
+
+  const type = getTransactionType(entry);
+  if (type === 'Sale') {
+    return InterswitchPOSService.createStandardReceipt(entry.result, merchant, { copy: 'customer', ...custom }, entry);
+  }
+
+  return InterswitchPOSService.createAdjustmentReceipt(
+    { ...entry.result, adjustmentType: type, originalReference: entry.originalReference ?? '' },
+    merchant,
+    { copy: 'customer', ...custom }
+  );
+}
+
+/**
+ * Customer copy of a ledger entry's receipt marked as a duplicate
+ */
+function buildDuplicateReceipt(entry: LedgerEntry, merchant?: MerchantProfile, printedAt = Date.now()): PrintItem[] {
+  return buildEntryReceipt(entry, merchant, {
+    reprintCount: (entry.reprints?.length ?? 0) + 1,
+    reprintedAt: printedAt,
+  });
+}
+
+/**
+ * Print a DUPLICATE COPY of a stored receipt and add it to the entry's reprint audit
+ */
+async function reprintReceipt(
+  reference: string,
+  merchant?: MerchantProfile
+): Promise<{ success: boolean; reprintCount?: number; error?: string }> {
+  try {
+    const entry = await TransactionLedger.getEntry(reference);
+    if (!entry) {
+      throw new Error(`Transaction ${reference} was not found`);
+    }
+
+    const operator = await OperatorSession.getOperator();
+    const printedAt = Date.now();
+    const receipt = buildDuplicateReceipt(entry, merchant, printedAt);
+
+    const result = await InterswitchPOSService.printReceipt(receipt);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    await TransactionLedger.recordReprint(reference, { operator, printedAt });
+
+    const reprintCount = (entry.reprints?.length ?? 0) + 1; // Matches the number on the slip
+    logger.info('print', `Reprinted receipt ${reference} (copy #${reprintCount}) by ${operator}`);
+    return { success: true, reprintCount };
+  } catch (error: any) {
+    logger.error('print', 'Reprint error', error);
+    return { success: false, error: error.message || 'Failed to reprint receipt' };
+  }
+}
+
+/**
+ * Reprint the most recent completed transaction
+ */
+async function reprintLastReceipt(
+  merchant?: MerchantProfile
+): Promise<{ success: boolean; reference?: string; reprintCount?: number; error?: string }> {
+  let entry;
+  try {
+    entry = await TransactionLedger.getLastCompleted();
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+
+  if (!entry) {
+    return { success: false, error: 'There is no receipt to reprint yet' };
+  }
+
+  return { ...await reprintReceipt(entry.reference, merchant), reference: entry.reference };
+}
+
+export { buildDuplicateReceipt, buildEntryReceipt, reprintLastReceipt, reprintReceipt };
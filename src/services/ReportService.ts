@@ -0,0 +1,358 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { startOfDay } from '../utils/dateRange';
+import { addMoney, formatMoney, Money, subtractMoney, sumMoney, ZERO } from '../utils/money';
+import InterswitchPOSService from './InterswitchService';
+import logger from './Logger';
+import OperatorSession from './OperatorSession';
+import type { MerchantProfile } from './receipts/ReceiptTemplateEngine';
+import TransactionLedger, { getDisplayStatus, getTransactionType, LedgerEntry } from './TransactionLedger';
+import type { PrintItem } from './types';
+
+// X: interim snapshot of the open batch. Z: end-of-day report that closes it.
+type ReportKind = 'X' | 'Z';
+
+interface Batch {
+  number: number;
+  openedAt: number;
+}
+
+interface ReportTotals {
+  count: number;
+  amount: Money;
+}
+
+// Components of approved sales for tax filing. Sales without a
+// breakdown count entirely as subtotal. Refunds are not apportioned.
+interface ChargeTotals {
+  subtotal: Money;
+  serviceCharge: Money;
+  vat: Money;
+  tip: Money;
+}
+
+interface OperatorTotals {
+  sales: ReportTotals; // Approved sales
+  adjustments: ReportTotals; // Approved reversals, voids and refunds
+  net: Money;
+}
+
+interface BatchReport {
+  kind: ReportKind;
+  batchNumber: number;
+  openedAt: number;
+  generatedAt: number; // Close time for Z-reports
+  generatedBy: string;
+  approved: ReportTotals;
+  declined: ReportTotals;
+  failed: ReportTotals; // Cancelled, failed or still pending
+  byPaymentType: Record<string, ReportTotals>; // Approved sales only
+  byCardType: Record<string, ReportTotals>; // Approved sales only
+  reversals: ReportTotals;
+  voids: ReportTotals;
+  refunds: ReportTotals;
+  netSettlement: Money; // Approved sales less approved adjustments
+  charges?: ChargeTotals; // Missing on reports stored before charges existed
+  byOperator: Record<string, OperatorTotals>;
+}
+
+type ReportListener = () => void;
+
+const BATCH_KEY = '@interswitch/batch';
+const Z_REPORTS_KEY = '@interswitch/z-reports';
+const MAX_Z_REPORTS = 90; // About three months of closed days
+
+const UNKNOWN_OPERATOR = 'Unknown';
+
+/**
+ * End-of-day reporting over the transaction ledger. Every entry created since
+ * the current batch opened belongs to it; closing the day with a Z-report
+ * stores the summary and opens the next batch.
+ */
+class ReportService {
+  private batch: Batch | null = null;
+  private listeners = new Set<ReportListener>();
+
+  /**
+   * The open batch. The first batch opens the first time it is asked for and
+   * starts at the beginning of that day, so older sales are never in it.
+   */
+  async getCurrentBatch(): Promise<Batch> {
+    if (this.batch) {
+      return this.batch;
+    }
+
+    try {
+      const stored = await AsyncStorage.getItem(BATCH_KEY);
+      if (stored) {
+        const batch: Batch = JSON.parse(stored);
+        if (batch.openedAt > 0) {
+          this.batch = batch;
+          return batch;
+        }
+
+        // Batches opened before an opening time was recorded start today
+        return this.openBatch(batch.number, startOfDay(new Date()));
+      }
+    } catch (error) {
+      logger.error('app', 'Failed to load batch', error);
+    }
+
+    return this.openBatch(1, startOfDay(new Date()));
+  }
+
+  /**
+   * Summary of the open batch without closing it
+   */
+  async buildXReport(): Promise<BatchReport> {
+    return buildBatchReport(await this.getBatchEntries(), await this.getCurrentBatch(), 'X', await OperatorSession.getOperator());
+  }
+
+  /**
+   * Print an interim X-report. The batch stays open.
+   */
+  async printXReport(merchant?: MerchantProfile): Promise<{ success: boolean; report?: BatchReport; error?: string }> {
+    const report = await this.buildXReport();
+    const result = await InterswitchPOSService.printReceipt(createReportReceipt(report, merchant));
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    logger.info('app', `X-report printed for batch ${report.batchNumber}`);
+    return { success: true, report };
+  }
+
+  /**
+   * Print the Z-report and close the business day. The batch is only closed
+   * once the report has printed, so a jammed printer never loses a day.
+   */
+  async closeDay(merchant?: MerchantProfile): Promise<{ success: boolean; report?: BatchReport; error?: string }> {
+    try {
+      const batch = await this.getCurrentBatch();
+      const report = buildBatchReport(await this.getBatchEntries(), batch, 'Z', await OperatorSession.getOperator());
+
+      const result = await InterswitchPOSService.printReceipt(createReportReceipt(report, merchant));
+      if (!result.success) {
+        return { success: false, error: `Z-report did not print: ${result.error}` };
+      }
+
+      const reports = await this.getClosedReports();
+      await AsyncStorage.setItem(Z_REPORTS_KEY, JSON.stringify([report, ...reports].slice(0, MAX_Z_REPORTS)));
+      await this.openBatch(batch.number + 1, report.generatedAt);
+
+      logger.info('app', `Batch ${batch.number} closed`, {
+        approved: report.approved.count,
+        netSettlement: report.netSettlement,
+      });
+      return { success: true, report };
+    } catch (error: any) {
+      logger.error('app', 'Close day error', error);
+      return { success: false, error: error.message || 'Failed to close the day' };
+    }
+  }
+
+  /**
+   * Z-reports of closed days, newest first
+   */
+  async getClosedReports(): Promise<BatchReport[]> {
+    try {
+      const stored = await AsyncStorage.getItem(Z_REPORTS_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      logger.error('app', 'Failed to load Z-reports', error);
+      return [];
+    }
+  }
+
+  /**
+   * Print a stored report again
+   */
+  async reprintReport(report: BatchReport, merchant?: MerchantProfile): Promise<{ success: boolean; error?: string }> {
+    const result = await InterswitchPOSService.printReceipt(createReportReceipt(report, merchant, true));
+    return result.success ? { success: true } : { success: false, error: result.error };
+  }
+
+  /**
+   * Remove the stored ledger, with its reprint audit and refund links. Refused
+   * while the open batch has transactions, so only settled days can be cleared.
+   */
+  async clearSettledHistory(): Promise<{ success: boolean; error?: string }> {
+    const openEntries = await this.getBatchEntries();
+    if (openEntries.length > 0) {
+      return {
+        success: false,
+        error: `Batch has ${openEntries.length} unsettled transaction${openEntries.length === 1 ? '' : 's'}. Close the day first.`,
+      };
+    }
+
+    await TransactionLedger.clear();
+    logger.warn('app', 'Transaction history cleared', { operator: await OperatorSession.getOperator() });
+    return { success: true };
+  }
+
+  /**
+   * Get notified when a day is closed. Returns an unsubscribe function.
+   */
+  subscribe(listener: ReportListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async getBatchEntries(): Promise<LedgerEntry[]> {
+    const batch = await this.getCurrentBatch();
+    const { entries } = await TransactionLedger.query({ dateRange: { from: batch.openedAt }, sortBy: 'date', sortOrder: 'asc' });
+    return entries;
+  }
+
+  private async openBatch(number: number, openedAt: number): Promise<Batch> {
+    this.batch = { number, openedAt };
+    await AsyncStorage.setItem(BATCH_KEY, JSON.stringify(this.batch));
+    this.listeners.forEach((listener) => listener());
+    return this.batch;
+  }
+}
+
+/**
+ * Aggregate ledger entries into a batch report
+ */
+function buildBatchReport(
+  entries: LedgerEntry[],
+  batch: Batch,
+  kind: ReportKind,
+  generatedBy: string,
+  generatedAt = Date.now()
+): BatchReport {
+  const report: BatchReport = {
+    kind,
+    batchNumber: batch.number,
+    openedAt: batch.openedAt,
+    generatedAt,
+    generatedBy,
+    approved: emptyTotals(),
+    declined: emptyTotals(),
+    failed: emptyTotals(),
+    byPaymentType: {},
+    byCardType: {},
+    reversals: emptyTotals(),
+    voids: emptyTotals(),
+    refunds: emptyTotals(),
+    netSettlement: ZERO,
+    byOperator: {},
+  };
+  const charges: ChargeTotals = { subtotal: ZERO, serviceCharge: ZERO, vat: ZERO, tip: ZERO };
+
+  entries.forEach((entry) => {
+    const status = getDisplayStatus(entry);
+    const type = getTransactionType(entry);
+    const operator = report.byOperator[entry.operator || UNKNOWN_OPERATOR] ??= {
+      sales: emptyTotals(),
+      adjustments: emptyTotals(),
+      net: ZERO,
+    };
+
+    if (type !== 'Sale') {
+      if (status === 'successful') {
+        const totals = type === 'Reversal' ? report.reversals : type === 'Void' ? report.voids : report.refunds;
+        addTo(totals, entry.amount);
+        addTo(operator.adjustments, entry.amount);
+      }
+      return;
+    }
+
+    if (status === 'successful') {
+      addTo(report.approved, entry.amount);
+      addTo(report.byPaymentType[entry.paymentType] ??= emptyTotals(), entry.amount);
+      addTo(report.byCardType[entry.result?.cardType || 'Other'] ??= emptyTotals(), entry.amount);
+      addTo(operator.sales, entry.amount);
+      charges.subtotal = addMoney(charges.subtotal, entry.charges?.subtotal ?? entry.amount);
+      charges.serviceCharge = addMoney(charges.serviceCharge, entry.charges?.serviceCharge ?? ZERO);
+      charges.vat = addMoney(charges.vat, entry.charges?.vat ?? ZERO);
+      charges.tip = addMoney(charges.tip, entry.charges?.tip ?? ZERO);
+    } else if (status === 'declined') {
+      addTo(report.declined, entry.amount);
+    } else {
+      addTo(report.failed, entry.amount);
+    }
+  });
+
+  const adjusted = sumMoney([report.reversals, report.voids, report.refunds].map((totals) => totals.amount));
+  report.netSettlement = subtractMoney(report.approved.amount, adjusted);
+  report.charges = charges;
+  Object.values(report.byOperator).forEach((totals) => {
+    totals.net = subtractMoney(totals.sales.amount, totals.adjustments.amount);
+  });
+
+  return report;
+}
+
+/**
+ * Printable report using the 'report' receipt template
+ */
+function createReportReceipt(report: BatchReport, merchant?: MerchantProfile, reprint = false): PrintItem[] {
+  const totals = (value: ReportTotals) => `${value.count} / ${formatMoney(value.amount)}`;
+  const breakdown = (values: Record<string, ReportTotals>) => Object.entries(values).map(([label, value]) => ({
+    label,
+    value: totals(value),
+  }));
+
+  const lines = [
+    { label: 'Opened', value: report.openedAt ? new Date(report.openedAt).toLocaleString('en-GB') : 'First batch' },
+    { label: report.kind === 'Z' ? 'Closed' : 'As at', value: new Date(report.generatedAt).toLocaleString('en-GB') },
+    { label: 'By', value: report.generatedBy },
+    { label: 'SALES (count / amount)', heading: true, separator: true },
+    { label: 'Approved', value: totals(report.approved) },
+    { label: 'Declined', value: totals(report.declined) },
+    { label: 'Failed', value: totals(report.failed) },
+    { label: 'BY PAYMENT TYPE', heading: true, separator: true },
+    ...breakdown(report.byPaymentType),
+    { label: 'BY CARD TYPE', heading: true, separator: true },
+    ...breakdown(report.byCardType),
+    ...(report.charges ? [
+      { label: 'TAX & CHARGES (approved sales)', heading: true, separator: true },
+      { label: 'Subtotal', value: formatMoney(report.charges.subtotal) },
+      { label: 'Service charge', value: formatMoney(report.charges.serviceCharge) },
+      { label: 'VAT', value: formatMoney(report.charges.vat) },
+      { label: 'Tips', value: formatMoney(report.charges.tip) },
+    ] : []),
+    { label: 'ADJUSTMENTS', heading: true, separator: true },
+    { label: 'Reversals', value: totals(report.reversals) },
+    { label: 'Voids', value: totals(report.voids) },
+    { label: 'Refunds', value: totals(report.refunds) },
+    { label: 'BY OPERATOR', heading: true, separator: true },
+    ...Object.entries(report.byOperator).map(([label, value]) => ({
+      label,
+      value: `${value.sales.count} sales, net ${formatMoney(value.net)}`,
+    })),
+    { label: 'NET SETTLEMENT', heading: true, separator: true },
+    { label: 'Net', value: formatMoney(report.netSettlement) },
+  ];
+
+  return InterswitchPOSService.createReceipt('report', {
+    merchant,
+    custom: {
+      title: `${report.kind}-Report${reprint ? ' (Reprint)' : ''}`,
+      subtitle: `Batch #${report.batchNumber}`,
+      lines,
+      printedAt: Date.now(),
+    },
+  });
+}
+
+function emptyTotals(): ReportTotals {
+  return { count: 0, amount: ZERO };
+}
+
+function addTo(totals: ReportTotals, amount: Money) {
+  totals.count++;
+  totals.amount = addMoney(totals.amount, amount);
+}
+
+// Create and export singleton instance
+const reportService = new ReportService();
+export default reportService;
+
+export { buildBatchReport, createReportReceipt };
+
+export type { Batch, BatchReport, ChargeTotals, OperatorTotals, ReportKind, ReportTotals };
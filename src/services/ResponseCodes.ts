@@ -0,0 +1,222 @@
+// Why a transaction did not go through, grouped from ISO 8583 / Interswitch response codes
+type DeclineCategory =
+  | 'insufficientFunds'
+  | 'incorrectPin'
+  | 'pinTriesExceeded'
+  | 'expiredCard'
+  | 'invalidCard'
+  | 'restrictedCard'
+  | 'limitExceeded'
+  | 'doNotHonour'
+  | 'issuerUnavailable'
+  | 'timeout'
+  | 'invalidTransaction'
+  | 'systemError'
+  | 'unreadableResult'
+  | 'unknown';
+
+// What the cashier should do next
+type NextAction = 'retry' | 'checkHistory' | 'tryAnotherCard' | 'callIssuer' | 'contactSupport';
+
+interface DeclineCategoryDetails {
+  label: string;
+  cashierMessage: string;
+  customerMessage: string;
+  action: NextAction;
+}
+
+interface ResponseCodeInfo extends DeclineCategoryDetails {
+  code: string;
+  category: DeclineCategory;
+  description: string; // Meaning of the code as published by the scheme
+}
+
+const DECLINE_CATEGORIES: Record<DeclineCategory, DeclineCategoryDetails> = {
+  insufficientFunds: {
+    label: 'Insufficient Funds',
+    cashierMessage: 'The account does not have enough money for this amount.',
+    customerMessage: 'Your account balance is too low for this payment. Please use another card or payment method.',
+    action: 'tryAnotherCard',
+  },
+  incorrectPin: {
+    label: 'Incorrect PIN',
+    cashierMessage: 'The customer entered the wrong PIN.',
+    customerMessage: 'The PIN entered was incorrect. Please try again.',
+    action: 'retry',
+  },
+  pinTriesExceeded: {
+    label: 'PIN Tries Exceeded',
+    cashierMessage: 'Too many wrong PIN attempts. The card is blocked for PIN use.',
+    customerMessage: 'Your card has been blocked after too many PIN attempts. Please contact your bank.',
+    action: 'callIssuer',
+  },
+  expiredCard: {
+    label: 'Expired Card',
+    cashierMessage: 'The card has expired.',
+    customerMessage: 'This card has expired. Please use another card.',
+    action: 'tryAnotherCard',
+  },
+  invalidCard: {
+    label: 'Invalid Card',
+    cashierMessage: 'The card number is not recognised by the issuer.',
+    customerMessage: 'This card could not be used. Please use another card.',
+    action: 'tryAnotherCard',
+  },
+  restrictedCard: {
+    label: 'Restricted Card',
+    cashierMessage: 'The issuer does not allow this card for this transaction. Do not retry.',
+    customerMessage: 'Your bank has not permitted this payment. Please contact your bank or use another card.',
+    action: 'callIssuer',
+  },
+  limitExceeded: {
+    label: 'Limit Exceeded',
+    cashierMessage: 'The amount or number of transactions is over the card limit.',
+    customerMessage: 'This payment is over your card limit. Please contact your bank or use another card.',
+    action: 'callIssuer',
+  },
+  doNotHonour: {
+    label: 'Do Not Honour',
+    cashierMessage: 'The issuer declined without giving a reason.',
+    customerMessage: 'Your bank declined this payment. Please contact your bank or use another card.',
+    action: 'callIssuer',
+  },
+  issuerUnavailable: {
+    label: 'Issuer Unavailable',
+    cashierMessage: 'The card issuer could not be reached. Try again in a moment.',
+    customerMessage: 'Your bank is not responding right now. Please try again shortly.',
+    action: 'retry',
+  },
+  timeout: {
+    label: 'Timed Out',
+    cashierMessage: 'No response was received in time. Check History before charging again.',
+    customerMessage: 'The payment took too long to respond. Please wait while we check it.',
+    // The timed-out payment may still be approved, so charging again could charge twice
+    action: 'checkHistory',
+  },
+  invalidTransaction: {
+    label: 'Invalid Transaction',
+    cashierMessage: 'The transaction was rejected as invalid. Check the amount and payment type.',
+    customerMessage: 'This payment could not be processed. Please try again.',
+    action: 'contactSupport',
+  },
+  systemError: {
+    label: 'System Error',
+    cashierMessage: 'The payment network reported an error. Try again, then contact support if it persists.',
+    customerMessage: 'Something went wrong on our side. Please try again.',
+    action: 'retry',
+  },
+  unreadableResult: {
+    label: 'Unreadable Result',
+    cashierMessage: 'The terminal sent a result the app could not read. Check History before charging again.',
+    customerMessage: 'Please wait while we check whether your payment went through.',
+    // The host may have approved the payment, so charging again could charge twice
+    action: 'checkHistory',
+  },
+  unknown: {
+    label: 'Declined',
+    cashierMessage: 'The transaction was declined.',
+    customerMessage: 'This payment was declined. Please try again or use another card.',
+    action: 'tryAnotherCard',
+  },
+};
+
+const NEXT_ACTION_LABELS: Record<NextAction, string> = {
+  retry: 'Retry',
+  checkHistory: 'Check History for the payment, or contact support',
+  tryAnotherCard: 'Try another card',
+  callIssuer: 'Customer should call their bank',
+  contactSupport: 'Contact support',
+};
+
+// ISO 8583 response codes as returned by the Interswitch SmartPOS SDK
+const RESPONSE_CODES: Record<string, { category: DeclineCategory; description: string }> = {
+  '01': { category: 'doNotHonour', description: 'Refer to card issuer' },
+  '03': { category: 'invalidTransaction', description: 'Invalid merchant' },
+  '04': { category: 'restrictedCard', description: 'Pick-up card' },
+  '05': { category: 'doNotHonour', description: 'Do not honour' },
+  '06': { category: 'systemError', description: 'Error' },
+  '07': { category: 'restrictedCard', description: 'Pick-up card, special condition' },
+  '12': { category: 'invalidTransaction', description: 'Invalid transaction' },
+  '13': { category: 'invalidTransaction', description: 'Invalid amount' },
+  '14': { category: 'invalidCard', description: 'Invalid card number' },
+  '15': { category: 'invalidCard', description: 'No such issuer' },
+  '25': { category: 'invalidTransaction', description: 'Unable to locate record' },
+  '30': { category: 'invalidTransaction', description: 'Format error' },
+  '33': { category: 'expiredCard', description: 'Expired card, pick-up' },
+  '38': { category: 'pinTriesExceeded', description: 'Allowable PIN tries exceeded, pick-up' },
+  '39': { category: 'invalidCard', description: 'No credit account' },
+  '41': { category: 'restrictedCard', description: 'Lost card, pick-up' },
+  '43': { category: 'restrictedCard', description: 'Stolen card, pick-up' },
+  '51': { category: 'insufficientFunds', description: 'Insufficient funds' },
+  '52': { category: 'invalidCard', description: 'No checking account' },
+  '53': { category: 'invalidCard', description: 'No savings account' },
+  '54': { category: 'expiredCard', description: 'Expired card' },
+  '55': { category: 'incorrectPin', description: 'Incorrect PIN' },
+  '56': { category: 'invalidCard', description: 'No card record' },
+  '57': { category: 'restrictedCard', description: 'Transaction not permitted to cardholder' },
+  '58': { category: 'restrictedCard', description: 'Transaction not permitted on terminal' },
+  '59': { category: 'restrictedCard', description: 'Suspected fraud' },
+  '61': { category: 'limitExceeded', description: 'Exceeds withdrawal amount limit' },
+  '62': { category: 'restrictedCard', description: 'Restricted card' },
+  '63': { category: 'systemError', description: 'Security violation' },
+  '65': { category: 'limitExceeded', description: 'Exceeds withdrawal frequency limit' },
+  '68': { category: 'timeout', description: 'Response received too late' },
+  '75': { category: 'pinTriesExceeded', description: 'Allowable number of PIN tries exceeded' },
+  '77': { category: 'invalidTransaction', description: 'Inconsistent with original' },
+  '91': { category: 'issuerUnavailable', description: 'Issuer or switch inoperative' },
+  '92': { category: 'issuerUnavailable', description: 'Routing error' },
+  '94': { category: 'invalidTransaction', description: 'Duplicate transmission' },
+  '96': { category: 'systemError', description: 'System malfunction' },
+};
+
+/**
+ * Category for a declined response code. Unlisted codes are 'unknown'.
+ */
+function getDeclineCategory(code?: string): DeclineCategory {
+  return RESPONSE_CODES[code?.trim() ?? '']?.category ?? 'unknown';
+}
+
+/**
+ * Category for a payment that failed before any response code arrived
+ */
+function getErrorCategory(error: { message?: string } | undefined): DeclineCategory {
+  const message = error?.message ?? '';
+  if (/timed out|timeout/i.test(message)) {
+    return 'timeout';
+  }
+
+  return /sent an invalid \w+ result/i.test(message) ? 'unreadableResult' : 'systemError';
+}
+
+/**
+ * Everything the UI needs to explain a response code. `fallbackMessage`
+ * (usually the SDK's responseMessage) describes codes missing from the catalogue.
+ */
+function describeResponseCode(code?: string, fallbackMessage?: string): ResponseCodeInfo {
+  const normalized = code?.trim() ?? '';
+  const known = RESPONSE_CODES[normalized];
+  const category = known?.category ?? 'unknown';
+
+  return {
+    code: normalized,
+    category,
+    description: known?.description ?? fallbackMessage ?? 'Unknown response code',
+    ...DECLINE_CATEGORIES[category],
+  };
+}
+
+function describeDeclineCategory(category: DeclineCategory): DeclineCategoryDetails {
+  return DECLINE_CATEGORIES[category];
+}
+
+export {
+  DECLINE_CATEGORIES,
+  describeDeclineCategory,
+  describeResponseCode,
+  getDeclineCategory,
+  getErrorCategory,
+  NEXT_ACTION_LABELS,
+  RESPONSE_CODES
+};
+
+export type { DeclineCategory, DeclineCategoryDetails, NextAction, ResponseCodeInfo };
@@ -0,0 +1,423 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  compareMoney,
+  formatMoney,
+  maxMoney,
+  Money,
+  subtractMoney,
+  sumMoney,
+  ZERO
+} from '../utils/money';
+import InterswitchPOSService from './InterswitchService';
+import logger from './Logger';
+import OperatorSession from './OperatorSession';
+import { PAYMENT_METHODS } from './PaymentMethods';
+import type { MerchantProfile } from './receipts/ReceiptTemplateEngine';
+import ReportService from './ReportService';
+import { describeResponseCode, getErrorCategory } from './ResponseCodes';
+import { adjustTransaction, getAdjustmentEligibility } from './TransactionAdjustments';
+import TransactionLedger, { LedgerEntry, PaymentType } from './TransactionLedger';
+import TransactionLimits, { describeViolations, LimitRule, LimitViolation } from './TransactionLimits';
+import type { PaymentResult, PrintItem } from './types';
+
+// A tender is pending while the terminal may still be processing it after a timeout
+type TenderStatus = 'approved' | 'declined' | 'cancelled' | 'failed' | 'pending' | 'reversed';
+
+interface Tender {
+  reference: string;
+  paymentType: PaymentType;
+  amount: Money;
+  status: TenderStatus;
+  result?: PaymentResult;
+  error?: string;
+}
+
+interface SplitOrder {
+  reference: string;
+  total: Money; // Bill total
+  tenders: Tender[]; // Every attempt, oldest first
+  operator: string;
+  createdAt: number;
+}
+
+type SplitOrderListener = (order: SplitOrder | null) => void;
+
+const STORAGE_KEY = '@interswitch/open-order';
+
+/**
+ * Split-tender checkout: one bill paid with several makePayment calls. The
+ * open order is persisted so an interrupted checkout can be finished or
+ * abandoned after a restart; each tender is a ledger sale carrying the order reference.
+ */
+class SplitTender {
+  private order: SplitOrder | null = null;
+  private loaded: Promise<void>;
+  private listeners = new Set<SplitOrderListener>();
+  private writeQueue: Promise<void> = Promise.resolve();
+  private paying = false;
+
+  constructor() {
+    this.loaded = this.restore();
+    // A late result for a timed-out tender lands in the ledger
+    TransactionLedger.subscribe((entries) => {
+      this.settlePendingTenders(entries).catch((error) => {
+        logger.error('payment', 'Failed to settle pending tenders', error);
+      });
+    });
+  }
+
+  async getOpenOrder(): Promise<SplitOrder | null> {
+    await this.loaded;
+    return this.order;
+  }
+
+  /**
+   * Open a new order for the bill total. Fails while another order is open.
+   */
+  async startOrder(total: Money): Promise<{ success: boolean; order?: SplitOrder; error?: string }> {
+    await this.loaded;
+    if (this.order) {
+      return { success: false, error: `Order ${this.order.reference} is still open` };
+    }
+
+    // Transaction limits apply to each tender, not to the bill as a whole
+    const validation = InterswitchPOSService.validatePaymentAmount(total);
+    if (!validation.valid && !validation.rule) {
+      return { success: false, error: validation.error };
+    }
+
+    const reference = (await InterswitchPOSService.generateTransactionReference()).replace(/^TXN_/, 'ORD_');
+    const order: SplitOrder = {
+      reference,
+      total,
+      tenders: [],
+      operator: await OperatorSession.getOperator(),
+      createdAt: Date.now(),
+    };
+
+    await this.mutate(() => order);
+    logger.info('payment', `Split order ${reference} opened`, { total: order.total });
+    return { success: true, order };
+  }
+
+  /**
+   * Take one tender towards the open order. Declined and cancelled tenders
+   * are kept on the order but do not reduce the balance. A tender that breaks a
+   * transaction limit is not started; it returns the violations for a supervisor to approve.
+   * Only one tender runs at a time, and none starts while a timed-out tender is unresolved.
+   */
+  async payTender(
+    paymentType: PaymentType,
+    amount: Money,
+    approvedOverrides: LimitRule[] = []
+  ): Promise<{ success: boolean; tender?: Tender; error?: string; violations?: LimitViolation[] }> {
+    if (this.paying) {
+      return { success: false, error: 'A tender is already in progress' };
+    }
+
+    this.paying = true;
+    try {
+      return await this.takeTender(paymentType, amount, approvedOverrides);
+    } finally {
+      this.paying = false;
+    }
+  }
+
+  private async takeTender(
+    paymentType: PaymentType,
+    amount: Money,
+    approvedOverrides: LimitRule[]
+  ): Promise<{ success: boolean; tender?: Tender; error?: string; violations?: LimitViolation[] }> {
+    await this.loaded;
+    await this.settlePendingTenders(await TransactionLedger.getEntries());
+    const order = this.order;
+    if (!order) {
+      return { success: false, error: 'No split order is open' };
+    }
+
+    const pending = order.tenders.find((tender) => tender.status === 'pending');
+    if (pending) {
+      return { success: false, error: `Tender ${pending.reference} is still waiting for its result. Check it in History first.` };
+    }
+
+    const balance = getBalance(order);
+    if (amount <= ZERO || compareMoney(amount, balance) > 0) {
+      return { success: false, error: `Tender must be between ₦0.01 and ${formatMoney(balance)}` };
+    }
+
+    const violations = (await TransactionLimits.check({ amount, paymentType, operator: order.operator }))
+      .filter((violation) => !approvedOverrides.includes(violation.rule));
+    if (violations.length > 0) {
+      return { success: false, error: describeViolations(violations), violations };
+    }
+
+    const reference = await InterswitchPOSService.generateTransactionReference();
+    const tenderNumber = order.tenders.length + 1;
+    await TransactionLedger.recordInitiated({
+      reference,
+      amount,
+      paymentType,
+      orderReference: order.reference,
+      remark: `Tender ${tenderNumber} of order ${order.reference}`,
+      operator: order.operator,
+      limitOverrides: approvedOverrides.length > 0 ? approvedOverrides : undefined,
+    });
+
+    let tender: Tender;
+    try {
+      const outcome = await InterswitchPOSService.pay({
+        amount,
+        paymentType,
+        reference,
+        remark: `Tender ${tenderNumber} of order ${order.reference}`,
+      }, { approvedOverrides });
+
+      if (outcome.cancelled) {
+        await TransactionLedger.recordCancelled(reference, outcome.cancellation);
+        tender = { reference, paymentType, amount, status: 'cancelled', error: outcome.cancellation.message };
+      } else {
+        await TransactionLedger.recordCompleted(reference, outcome.result);
+        tender = outcome.result.isSuccessful
+          ? { reference, paymentType, amount, status: 'approved', result: outcome.result }
+          : {
+            reference,
+            paymentType,
+            amount,
+            status: 'declined',
+            result: outcome.result,
+            error: describeResponseCode(outcome.result.responseCode, outcome.result.responseMessage).cashierMessage,
+          };
+      }
+    } catch (error: any) {
+      const category = getErrorCategory(error);
+      await TransactionLedger.recordFailed(reference, error.message || 'Payment failed', category);
+      // After a timeout the terminal may still approve the tender, so it is settled later from the ledger
+      const status = category === 'timeout' ? 'pending' : 'failed';
+      tender = { reference, paymentType, amount, status, error: error.message || 'Payment failed' };
+    }
+
+    await this.mutate((current) => current && { ...current, tenders: [...current.tenders, tender] });
+    logger.info('payment', `Tender ${reference} ${tender.status} for order ${order.reference}`, { amount, paymentType });
+
+    return tender.status === 'approved' ? { success: true, tender } : { success: false, tender, error: tender.error };
+  }
+
+  /**
+   * Close a fully paid order
+   */
+  async completeOrder(): Promise<{ success: boolean; order?: SplitOrder; error?: string }> {
+    await this.loaded;
+    const order = this.order;
+    if (!order) {
+      return { success: false, error: 'No split order is open' };
+    }
+
+    const balance = getBalance(order);
+    if (balance > ZERO) {
+      return { success: false, error: `${formatMoney(balance)} is still outstanding` };
+    }
+
+    await this.mutate(() => null);
+    logger.info('payment', `Split order ${order.reference} completed`, { tenders: getApprovedTenders(order).length });
+    return { success: true, order };
+  }
+
+  /**
+   * Give up on the open order and undo the tenders already taken, using a
+   * reversal where still allowed and a void or refund otherwise. Tenders that
+   * could not be undone are returned so the cashier can follow up from History.
+   * The order stays open while a tender is running or waiting for its result.
+   */
+  async abandonOrder(): Promise<{ success: boolean; reversed: number; failed: Tender[]; error?: string }> {
+    if (this.paying) {
+      return { success: false, reversed: 0, failed: [], error: 'A tender is still in progress' };
+    }
+
+    await this.loaded;
+    await this.settlePendingTenders(await TransactionLedger.getEntries());
+    const order = this.order;
+    if (!order) {
+      return { success: false, reversed: 0, failed: [], error: 'No split order is open' };
+    }
+
+    const pending = order.tenders.find((tender) => tender.status === 'pending');
+    if (pending) {
+      return {
+        success: false,
+        reversed: 0,
+        failed: [pending],
+        error: `Tender ${pending.reference} is still waiting for its result. Check it in History first`,
+      };
+    }
+
+    const failed: Tender[] = [];
+    const tenders = [...order.tenders];
+    const { openedAt } = await ReportService.getCurrentBatch();
+    for (const [index, tender] of tenders.entries()) {
+      if (tender.status !== 'approved') {
+        continue;
+      }
+
+      const entry = await TransactionLedger.getEntry(tender.reference);
+      const eligibility = entry && getAdjustmentEligibility(entry, openedAt);
+      const type = eligibility?.canReverse ? 'Reversal' : eligibility?.canVoid ? 'Void' : 'Refund';
+      const result = await adjustTransaction(type, tender.reference, { reason: `Order ${order.reference} abandoned` });
+
+      if (result.success) {
+        tenders[index] = { ...tender, status: 'reversed' };
+      } else {
+        failed.push({ ...tender, error: result.error });
+      }
+    }
+
+    const reversed = tenders.filter((tender) => tender.status === 'reversed').length;
+    await this.mutate(() => null);
+    logger.warn('payment', `Split order ${order.reference} abandoned`, { reversed, failed: failed.length });
+
+    return failed.length > 0
+      ? { success: false, reversed, failed, error: `${failed.length} tender${failed.length !== 1 ? 's' : ''} could not be reversed` }
+      : { success: true, reversed, failed };
+  }
+
+  /**
+   * Get notified when the open order changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: SplitOrderListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Settle pending tenders from their ledger entries. A tender the ledger shows
+   * approved, declined or cancelled takes that outcome, even if it was saved as
+   * failed. One the terminal is no longer waiting for, after a restart or once a
+   * cashier released it, has failed.
+   */
+  private settlePendingTenders(entries: LedgerEntry[]): Promise<void> {
+    return this.mutate((current) => {
+      if (!current) return current;
+
+      const awaiting = InterswitchPOSService.getAwaitingResults();
+      let changed = false;
+      const tenders = current.tenders.map((tender) => {
+        if (tender.status !== 'pending' && tender.status !== 'failed') return tender;
+
+        const entry = entries.find((candidate) => candidate.reference === tender.reference);
+        const settled = entry && settleTender(tender, entry, awaiting.includes(tender.reference));
+        if (!settled || settled.status === tender.status) return tender;
+
+        changed = true;
+        logger.info('payment', `Tender ${tender.reference} settled as ${settled.status} for order ${current.reference}`);
+        return settled;
+      });
+
+      return changed ? { ...current, tenders } : current;
+    });
+  }
+
+  /**
+   * Apply a change to the open order and persist it. Changes run one at a time
+   * against the latest order, so concurrent updates are not lost.
+   */
+  private mutate(change: (order: SplitOrder | null) => SplitOrder | null): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      const order = change(this.order);
+      if (order === this.order) return;
+
+      if (order) {
+        await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(order));
+      } else {
+        await AsyncStorage.removeItem(STORAGE_KEY);
+      }
+
+      this.order = order;
+      this.listeners.forEach((listener) => listener(order));
+    });
+
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  private async restore() {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        this.order = JSON.parse(stored);
+        this.listeners.forEach((listener) => listener(this.order));
+      }
+    } catch (error) {
+      logger.error('payment', 'Failed to load open split order', error);
+    }
+  }
+}
+
+/**
+ * Outcome of a pending or failed tender according to its ledger entry
+ */
+function settleTender(tender: Tender, entry: LedgerEntry, awaitingResult: boolean): Tender {
+  if (entry.status === 'completed' && entry.result) {
+    const { result } = entry;
+    return result.isSuccessful
+      ? { ...tender, status: 'approved', result, error: undefined }
+      : {
+        ...tender,
+        status: 'declined',
+        result,
+        error: describeResponseCode(result.responseCode, result.responseMessage).cashierMessage,
+      };
+  }
+
+  if (entry.status === 'cancelled') {
+    return { ...tender, status: 'cancelled', error: entry.cancellation?.message };
+  }
+
+  return tender.status === 'pending' && !awaitingResult ? { ...tender, status: 'failed' } : tender;
+}
+
+function getApprovedTenders(order: SplitOrder): Tender[] {
+  return order.tenders.filter((tender) => tender.status === 'approved');
+}
+
+/**
+ * Amount still to be paid on an order
+ */
+function getBalance(order: SplitOrder): Money {
+  const paid = sumMoney(getApprovedTenders(order).map((tender) => tender.amount));
+  return maxMoney(ZERO, subtractMoney(order.total, paid));
+}
+
+/**
+ * One consolidated receipt listing every approved tender of an order
+ */
+function createSplitReceipt(order: SplitOrder, merchant?: MerchantProfile): PrintItem[] {
+  const tenders = getApprovedTenders(order);
+
+  return InterswitchPOSService.createReceipt('split', {
+    merchant,
+    custom: {
+      orderReference: order.reference,
+      total: order.total,
+      paid: subtractMoney(order.total, getBalance(order)),
+      tenderCount: tenders.length,
+      tenders: tenders.map((tender) => ({
+        method: PAYMENT_METHODS[tender.paymentType]?.label ?? tender.paymentType,
+        amount: tender.amount,
+        reference: tender.reference,
+        cardPan: tender.result?.cardPan ?? '',
+        rrn: tender.result?.rrn ?? '',
+        authCode: tender.result?.authorizationCode ?? '',
+      })),
+      printedAt: Date.now(),
+    },
+  });
+}
+
+// Create and export singleton instance
+const splitTender = new SplitTender();
+export default splitTender;
+
+export { createSplitReceipt, getApprovedTenders, getBalance };
+
+export type { SplitOrder, Tender, TenderStatus };
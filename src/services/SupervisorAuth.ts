@@ -0,0 +1,103 @@
+import * as SecureStore from 'expo-secure-store';
+import logger from './Logger';
+
+const STORAGE_KEY = 'interswitch.supervisorPin';
+const LOCKOUT_KEY = 'interswitch.supervisorLockout';
+const MAX_ATTEMPTS = 5;
+const LOCKOUT_MS = 5 * 60 * 1000;
+
+const STORE_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+};
+
+// Failed attempts survive restarts so the PIN cannot be guessed by relaunching the app
+interface LockoutState {
+  failedAttempts: number;
+  lockedUntil: number;
+}
+
+/**
+ * Supervisor PIN used to approve sensitive actions such as switching to
+ * PRODUCTION. Stored in the platform keystore; repeated failures lock it out.
+ * Until a PIN exists anyone with the device can set one, so it should be set
+ * when the terminal is installed.
+ */
+class SupervisorAuth {
+
+  async hasPin(): Promise<boolean> {
+    return !!(await SecureStore.getItemAsync(STORAGE_KEY, STORE_OPTIONS));
+  }
+
+  /**
+   * Set or change the PIN. The current PIN is required once a PIN exists;
+   * the first PIN needs no approval.
+   */
+  async setPin(newPin: string, currentPin?: string): Promise<{ success: boolean; error?: string }> {
+    if (!/^\d{4,8}$/.test(newPin)) {
+      return { success: false, error: 'PIN must be 4 to 8 digits' };
+    }
+
+    if (await this.hasPin()) {
+      const verification = await this.verify(currentPin ?? '');
+      if (!verification.success) {
+        return verification;
+      }
+    }
+
+    await SecureStore.setItemAsync(STORAGE_KEY, newPin, STORE_OPTIONS);
+    logger.info('app', 'Supervisor PIN updated');
+    return { success: true };
+  }
+
+  /**
+   * Check a PIN entered by a supervisor
+   */
+  async verify(pin: string): Promise<{ success: boolean; error?: string }> {
+    const lockout = await this.getLockout();
+    if (Date.now() < lockout.lockedUntil) {
+      const minutes = Math.ceil((lockout.lockedUntil - Date.now()) / 60000);
+      return { success: false, error: `Too many attempts. Try again in ${minutes} min` };
+    }
+
+    const stored = await SecureStore.getItemAsync(STORAGE_KEY, STORE_OPTIONS);
+    if (!stored) {
+      return { success: false, error: 'No supervisor PIN has been set' };
+    }
+
+    if (pin !== stored) {
+      const failedAttempts = lockout.failedAttempts + 1;
+      logger.warn('app', `Supervisor PIN rejected (${failedAttempts}/${MAX_ATTEMPTS})`);
+
+      await this.saveLockout(failedAttempts >= MAX_ATTEMPTS
+        ? { failedAttempts: 0, lockedUntil: Date.now() + LOCKOUT_MS }
+        : { failedAttempts, lockedUntil: 0 });
+      return { success: false, error: 'Incorrect supervisor PIN' };
+    }
+
+    if (lockout.failedAttempts > 0 || lockout.lockedUntil > 0) {
+      await this.saveLockout({ failedAttempts: 0, lockedUntil: 0 });
+    }
+    return { success: true };
+  }
+
+  private async getLockout(): Promise<LockoutState> {
+    try {
+      const stored = await SecureStore.getItemAsync(LOCKOUT_KEY, STORE_OPTIONS);
+      if (stored) {
+        return JSON.parse(stored);
+      }
+    } catch (error) {
+      logger.error('app', 'Failed to load supervisor PIN lockout', error);
+    }
+
+    return { failedAttempts: 0, lockedUntil: 0 };
+  }
+
+  private saveLockout(lockout: LockoutState): Promise<void> {
+    return SecureStore.setItemAsync(LOCKOUT_KEY, JSON.stringify(lockout), STORE_OPTIONS);
+  }
+}
+
+// Create and export singleton instance
+const supervisorAuth = new SupervisorAuth();
+export default supervisorAuth;
@@ -0,0 +1,135 @@
+import logger from './Logger';
+
+type TerminalState =
+  | 'uninitialized'
+  | 'initializing'
+  | 'ready'
+  | 'busyPaying'
+  | 'busyPrinting'
+  | 'syncing'
+  | 'error';
+
+type TerminalEvent =
+  | 'initialize'
+  | 'initialized'
+  | 'fail'
+  | 'startPayment'
+  | 'finishPayment'
+  | 'startPrint'
+  | 'finishPrint'
+  | 'startSync'
+  | 'finishSync'
+  | 'reset';
+
+interface TerminalSnapshot {
+  state: TerminalState;
+  error?: string; // Why the terminal is in 'error'
+  since: number;
+}
+
+type TerminalStateListener = (snapshot: TerminalSnapshot) => void;
+
+// Every allowed transition. Anything missing here is rejected.
+const TERMINAL_TRANSITIONS: Record<TerminalState, Partial<Record<TerminalEvent, TerminalState>>> = {
+  uninitialized: { initialize: 'initializing' },
+  initializing: { initialized: 'ready', fail: 'error' },
+  ready: { initialize: 'initializing', startPayment: 'busyPaying', startPrint: 'busyPrinting', startSync: 'syncing' },
+  busyPaying: { finishPayment: 'ready' },
+  busyPrinting: { finishPrint: 'ready' },
+  syncing: { finishSync: 'ready' },
+  error: { initialize: 'initializing' },
+};
+
+const TERMINAL_STATE_LABELS: Record<TerminalState, string> = {
+  uninitialized: 'Not initialized',
+  initializing: 'Initializing',
+  ready: 'Ready',
+  busyPaying: 'Payment in progress',
+  busyPrinting: 'Printing',
+  syncing: 'Syncing',
+  error: 'Terminal error',
+};
+
+/**
+ * Lifecycle of the POS terminal. InterswitchPOSService drives the transitions;
+ * screens subscribe to show status and disable actions while the terminal is busy.
+ */
+class TerminalStateMachine {
+  private snapshot: TerminalSnapshot = { state: 'uninitialized', since: Date.now() };
+  private listeners = new Set<TerminalStateListener>();
+
+  getState(): TerminalState {
+    return this.snapshot.state;
+  }
+
+  getSnapshot(): TerminalSnapshot {
+    return { ...this.snapshot };
+  }
+
+  /**
+   * Whether the event is allowed in the current state
+   */
+  can(event: TerminalEvent): boolean {
+    return event === 'reset' || TERMINAL_TRANSITIONS[this.snapshot.state][event] !== undefined;
+  }
+
+  /**
+   * Apply an event. Throws if the current state does not allow it.
+   */
+  transition(event: TerminalEvent, error?: string): TerminalState {
+    const next = event === 'reset' ? 'uninitialized' : TERMINAL_TRANSITIONS[this.snapshot.state][event];
+    if (!next) {
+      throw new Error(`Terminal is ${TERMINAL_STATE_LABELS[this.snapshot.state].toLowerCase()} and cannot ${describeEvent(event)}`);
+    }
+
+    logger.debug('terminal', `Terminal state ${this.snapshot.state} -> ${next} (${event})`);
+    this.snapshot = { state: next, error: next === 'error' ? error : undefined, since: Date.now() };
+    this.listeners.forEach((listener) => listener({ ...this.snapshot }));
+    return next;
+  }
+
+  /**
+   * Apply an event only if it is allowed, e.g. when a late event may find the terminal already moved on
+   */
+  tryTransition(event: TerminalEvent, error?: string): boolean {
+    if (!this.can(event)) {
+      return false;
+    }
+
+    this.transition(event, error);
+    return true;
+  }
+
+  /**
+   * Get notified on every transition. Returns an unsubscribe function.
+   */
+  subscribe(listener: TerminalStateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+function describeEvent(event: TerminalEvent): string {
+  switch (event) {
+    case 'startPayment':
+      return 'start a payment';
+    case 'startPrint':
+      return 'print';
+    case 'startSync':
+      return 'sync';
+    case 'initialize':
+      return 'initialize';
+    default:
+      return event;
+  }
+}
+
+// Create and export singleton instance
+const terminalStateMachine = new TerminalStateMachine();
+export default terminalStateMachine;
+
+export { TERMINAL_STATE_LABELS, TERMINAL_TRANSITIONS };
+
+export type { TerminalEvent, TerminalSnapshot, TerminalState };
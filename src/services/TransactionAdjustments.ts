@@ -0,0 +1,120 @@
+import { compareMoney, Money, ZERO } from '../utils/money';
+import InterswitchPOSService from './InterswitchService';
+import logger from './Logger';
+import OperatorSession from './OperatorSession';
+import ReportService from './ReportService';
+import { describeResponseCode, getErrorCategory } from './ResponseCodes';
+import TransactionLedger, {
+  getDisplayStatus,
+  getNetAmount,
+  getTransactionType,
+  LedgerEntry
+} from './TransactionLedger';
+import type { AdjustmentResult, AdjustmentType } from './types';
+
+// Reversals are for correcting a sale straight away, e.g. a wrong amount
+const REVERSAL_WINDOW_MS = 30 * 60 * 1000;
+
+interface AdjustmentEligibility {
+  canReverse: boolean;
+  canVoid: boolean; // Open batch only, before the Z-report settles it
+  canRefund: boolean;
+  refundableAmount: Money;
+}
+
+/**
+ * Which adjustments an entry allows. Only approved sales that have not been
+ * reversed or voided can be adjusted; reversals and voids need the full amount.
+ * `batchOpenedAt` is when the current batch opened (ReportService.getCurrentBatch).
+ */
+function getAdjustmentEligibility(entry: LedgerEntry, batchOpenedAt: number, now = Date.now()): AdjustmentEligibility {
+  const adjustable = getTransactionType(entry) === 'Sale'
+    && getDisplayStatus(entry) === 'successful'
+    && !entry.adjustments?.some((adjustment) => adjustment.type !== 'Refund');
+  const untouched = adjustable && !entry.adjustments?.length;
+  const refundableAmount = adjustable ? getNetAmount(entry) : ZERO;
+
+  return {
+    canReverse: untouched && now - entry.createdAt <= REVERSAL_WINDOW_MS,
+    canVoid: untouched && entry.createdAt >= batchOpenedAt,
+    canRefund: refundableAmount > ZERO,
+    refundableAmount,
+  };
+}
+
+/**
+ * Reverse, void or refund a sale from the ledger. The adjustment gets its own
+ * ledger entry linked to the sale; refunds default to the remaining amount.
+ */
+async function adjustTransaction(
+  type: AdjustmentType,
+  originalReference: string,
+  options: { amount?: Money; reason?: string } = {}
+): Promise<{ success: boolean; result?: AdjustmentResult; error?: string }> {
+  const original = await TransactionLedger.getEntry(originalReference);
+  if (!original?.result) {
+    return { success: false, error: `Transaction ${originalReference} cannot be adjusted` };
+  }
+
+  const eligibility = getAdjustmentEligibility(original, (await ReportService.getCurrentBatch()).openedAt);
+  const allowed = type === 'Reversal' ? eligibility.canReverse : type === 'Void' ? eligibility.canVoid : eligibility.canRefund;
+  if (!allowed) {
+    return { success: false, error: `${type} is not available for this transaction` };
+  }
+
+  const amount = type === 'Refund' ? options.amount ?? eligibility.refundableAmount : original.amount;
+  if (type === 'Refund' && (
+    !Number.isSafeInteger(amount)
+    || amount <= ZERO
+    || compareMoney(amount, eligibility.refundableAmount) > 0
+  )) {
+    return {
+      success: false,
+      error: `Refund must be between ₦0.01 and ${InterswitchPOSService.formatCurrency(eligibility.refundableAmount)}`,
+    };
+  }
+
+  const reference = await InterswitchPOSService.generateTransactionReference();
+  const reason = options.reason?.trim() || undefined;
+
+  await TransactionLedger.recordInitiated({
+    reference,
+    amount,
+    paymentType: original.paymentType,
+    transactionType: type,
+    originalReference,
+    customer: original.customer,
+    remark: reason,
+    operator: await OperatorSession.getOperator(),
+  });
+
+  const data = {
+    originalReference,
+    originalRrn: original.result.rrn,
+    originalStan: original.result.stan,
+    amount,
+    reference,
+    reason,
+  };
+
+  try {
+    const result = type === 'Reversal'
+      ? await InterswitchPOSService.reverse(data)
+      : type === 'Void'
+        ? await InterswitchPOSService.void(data)
+        : await InterswitchPOSService.refund(data);
+
+    await TransactionLedger.recordCompleted(reference, result);
+    logger.info('payment', `${type} of ${originalReference} ${result.isSuccessful ? 'approved' : 'declined'}`);
+
+    return result.isSuccessful
+      ? { success: true, result }
+      : { success: false, result, error: describeResponseCode(result.responseCode, result.responseMessage).cashierMessage };
+  } catch (error: any) {
+    await TransactionLedger.recordFailed(reference, error.message || `${type} failed`, getErrorCategory(error));
+    return { success: false, error: error.message || `${type} failed` };
+  }
+}
+
+export { adjustTransaction, getAdjustmentEligibility, REVERSAL_WINDOW_MS };
+export type { AdjustmentEligibility };
@@ -0,0 +1,407 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DateRange, isInDateRange } from '../utils/dateRange';
+import { maxMoney, Money, parseMoney, subtractMoney, sumMoney, ZERO } from '../utils/money';
+import type { LineItem } from './Cart';
+import type { ChargeBreakdown } from './Charges';
+import type { PaymentCancellation } from './InterswitchService';
+import type { LimitRule } from './TransactionLimits';
+import logger from './Logger';
+import { DeclineCategory, getDeclineCategory } from './ResponseCodes';
+import type { AdjustmentType, PaymentData, PaymentResult } from './types';
+
+type PaymentType = NonNullable<PaymentData['paymentType']>;
+
+type TransactionType = 'Sale' | AdjustmentType;
+
+// Net effect of approved adjustments on a sale
+type AdjustmentState = 'reversed' | 'voided' | 'refunded' | 'partiallyRefunded';
+
+// 'completed' means the SDK returned a result, which may be approved or declined
+type LedgerStatus = 'initiated' | 'completed' | 'cancelled' | 'failed';
+
+// Status as shown to cashiers, derived from the ledger status and the SDK result
+type DisplayStatus = 'successful' | 'declined' | 'failed' | 'cancelled' | 'pending';
+
+interface LedgerCustomer {
+  name: string;
+  email: string;
+  mobile: string;
+}
+
+interface AdjustmentLink {
+  reference: string; // Ledger entry of the adjustment
+  type: AdjustmentType;
+  amount: Money;
+  completedAt: number;
+}
+
+interface ReprintRecord {
+  operator: string;
+  printedAt: number;
+}
+
+interface LedgerEntry {
+  reference: string;
+  amount: Money; // As sent to makePayment
+  paymentType: PaymentType;
+  transactionType?: TransactionType; // Missing on entries stored before adjustments existed, which are sales
+  originalReference?: string; // Sale that an adjustment applies to
+  adjustments?: AdjustmentLink[]; // Approved adjustments against a sale, oldest first
+  orderReference?: string; // Split-tender order this sale is one tender of
+  charges?: ChargeBreakdown; // Subtotal, service charge, VAT and tip in kobo, when any were added
+  items?: LineItem[]; // Cart lines when the sale was rung up from the catalogue
+  status: LedgerStatus;
+  customer?: LedgerCustomer;
+  remark?: string;
+  result?: PaymentResult;
+  cancellation?: PaymentCancellation;
+  error?: string;
+  declineCategory?: DeclineCategory; // Set for declined and failed entries
+  operator?: string; // Cashier who started the payment
+  limitOverrides?: LimitRule[]; // Transaction limits a supervisor approved going past
+  reprints?: ReprintRecord[]; // Audit trail of duplicate receipts, oldest first
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface NewLedgerEntry {
+  reference: string;
+  amount: Money;
+  paymentType: PaymentType;
+  transactionType?: TransactionType;
+  originalReference?: string;
+  orderReference?: string;
+  charges?: ChargeBreakdown;
+  items?: LineItem[];
+  customer?: LedgerCustomer;
+  remark?: string;
+  operator?: string;
+  limitOverrides?: LimitRule[];
+}
+
+interface LedgerStats {
+  approvedCount: number;
+  approvedTotal: Money; // Net of reversals, voids and refunds
+  transactionCount: number;
+}
+
+interface LedgerQuery {
+  search?: string; // Matches reference, order reference, RRN, customer name/email, masked PAN, item name/SKU or amount
+  statuses?: DisplayStatus[];
+  paymentTypes?: PaymentType[];
+  dateRange?: DateRange;
+  sortBy?: 'date' | 'amount';
+  sortOrder?: 'asc' | 'desc';
+  offset?: number;
+  limit?: number;
+}
+
+interface LedgerPage {
+  entries: LedgerEntry[];
+  total: number; // Number of entries matching the query, across all pages
+  hasMore: boolean;
+}
+
+type LedgerListener = (entries: LedgerEntry[]) => void;
+
+const STORAGE_KEY = '@interswitch/transaction-ledger';
+
+/**
+ * Persistent record of every payment started on this device, backed by AsyncStorage.
+ * Entries are keyed by transaction reference and kept newest first. Reads and
+ * writes reject while the stored ledger cannot be read.
+ */
+class TransactionLedger {
+  private entries: LedgerEntry[] | null = null;
+  private listeners = new Set<LedgerListener>();
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * All entries, newest first
+   */
+  async getEntries(): Promise<LedgerEntry[]> {
+    return [...await this.load()];
+  }
+
+  /**
+   * Find a single entry by transaction reference
+   */
+  async getEntry(reference: string): Promise<LedgerEntry | undefined> {
+    const entries = await this.load();
+    return entries.find((entry) => entry.reference === reference);
+  }
+
+  /**
+   * Most recent entry with a receipt to print, for "Reprint last"
+   */
+  async getLastCompleted(): Promise<LedgerEntry | undefined> {
+    const entries = await this.load();
+    return entries.find((entry) => entry.status === 'completed' && entry.result);
+  }
+
+  /**
+   * Search, filter, sort and page through the ledger
+   */
+  async query(query: LedgerQuery = {}): Promise<LedgerPage> {
+    const entries = await this.load();
+    const matches = entries.filter((entry) => matchesQuery(entry, query));
+
+    const direction = query.sortOrder === 'asc' ? 1 : -1;
+    const sortKey = query.sortBy === 'amount'
+      ? (entry: LedgerEntry) => entry.amount
+      : (entry: LedgerEntry) => entry.createdAt;
+    matches.sort((a, b) => (sortKey(a) - sortKey(b)) * direction);
+
+    const offset = query.offset ?? 0;
+    const limit = query.limit ?? matches.length;
+
+    return {
+      entries: matches.slice(offset, offset + limit),
+      total: matches.length,
+      hasMore: offset + limit < matches.length,
+    };
+  }
+
+  /**
+   * Record a payment as soon as it is sent to the terminal
+   */
+  async recordInitiated(entry: NewLedgerEntry): Promise<LedgerEntry> {
+    const now = Date.now();
+    const created: LedgerEntry = { ...entry, status: 'initiated', createdAt: now, updatedAt: now };
+
+    await this.mutate((entries) => [created, ...entries.filter((e) => e.reference !== entry.reference)]);
+    return created;
+  }
+
+  /**
+   * Record the PaymentResult delivered by the SDK (approved or declined).
+   * An approved adjustment is also linked to the sale it applies to.
+   */
+  recordCompleted(reference: string, result: PaymentResult): Promise<void> {
+    return this.mutate((entries) => {
+      const completed = entries.find((entry) => entry.reference === reference);
+      const type = completed && getTransactionType(completed);
+      const now = Date.now();
+
+      return entries.map((entry) => {
+        if (entry.reference === reference) {
+          const declineCategory = result.isSuccessful ? undefined : getDeclineCategory(result.responseCode);
+          return { ...entry, status: 'completed', result, declineCategory, updatedAt: now };
+        }
+
+        if (type && type !== 'Sale' && result.isSuccessful && entry.reference === completed.originalReference) {
+          const link: AdjustmentLink = { reference, type, amount: completed.amount, completedAt: now };
+          return { ...entry, adjustments: [...(entry.adjustments ?? []), link], updatedAt: now };
+        }
+
+        return entry;
+      });
+    });
+  }
+
+  /**
+   * Record a payment cancelled on the terminal
+   */
+  recordCancelled(reference: string, cancellation: PaymentCancellation): Promise<void> {
+    return this.update(reference, { status: 'cancelled', cancellation });
+  }
+
+  /**
+   * Record a payment that never produced a result (native error or timeout)
+   */
+  recordFailed(reference: string, error: string, declineCategory: DeclineCategory = 'systemError'): Promise<void> {
+    return this.update(reference, { status: 'failed', error, declineCategory });
+  }
+
+  /**
+   * Append a reprint to the entry's audit trail
+   */
+  recordReprint(reference: string, reprint: ReprintRecord): Promise<void> {
+    return this.mutate((entries) => entries.map((entry) => (
+      entry.reference === reference
+        ? { ...entry, reprints: [...(entry.reprints ?? []), reprint], updatedAt: Date.now() }
+        : entry
+    )));
+  }
+
+  /**
+   * Totals for the Home screen
+   */
+  async getStats(): Promise<LedgerStats> {
+    const entries = await this.load();
+    const approved = entries.filter((entry) => (
+      getTransactionType(entry) === 'Sale' && getDisplayStatus(entry) === 'successful'
+    ));
+
+    return {
+      approvedCount: approved.length,
+      approvedTotal: sumMoney(approved.map(getNetAmount)),
+      transactionCount: entries.length,
+    };
+  }
+
+  /**
+   * Remove every entry from the device
+   */
+  clear(): Promise<void> {
+    return this.mutate(() => []);
+  }
+
+  /**
+   * Get notified whenever the ledger changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: LedgerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async load(): Promise<LedgerEntry[]> {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    // Left unset on failure so nothing is written over the stored ledger; the next call retries
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      this.entries = stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      logger.error('app', 'Failed to load transaction ledger', error);
+      throw new Error('Transaction history could not be read. Restart the app before taking payments.');
+    }
+
+    return this.entries!;
+  }
+
+  private update(reference: string, changes: Partial<LedgerEntry>): Promise<void> {
+    return this.mutate((entries) => entries.map((entry) => (
+      entry.reference === reference ? { ...entry, ...changes, updatedAt: Date.now() } : entry
+    )));
+  }
+
+  /**
+   * Apply a change and persist it. Writes are queued so concurrent
+   * updates never overwrite each other.
+   */
+  private mutate(change: (entries: LedgerEntry[]) => LedgerEntry[]): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      const entries = change(await this.load());
+      this.entries = entries;
+
+      try {
+        await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+      } catch (error) {
+        logger.error('app', 'Failed to save transaction ledger', error);
+      }
+
+      this.listeners.forEach((listener) => listener([...entries]));
+    });
+
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+}
+
+/**
+ * Cashier-facing status of an entry
+ */
+function getDisplayStatus(entry: LedgerEntry): DisplayStatus {
+  switch (entry.status) {
+    case 'completed':
+      return entry.result?.isSuccessful ? 'successful' : 'declined';
+    case 'cancelled':
+      return 'cancelled';
+    case 'failed':
+      return 'failed';
+    default:
+      return 'pending';
+  }
+}
+
+function getTransactionType(entry: LedgerEntry): TransactionType {
+  return entry.transactionType ?? 'Sale';
+}
+
+/**
+ * Sale amount left after approved reversals, voids and refunds
+ */
+function getNetAmount(entry: LedgerEntry): Money {
+  const adjusted = sumMoney((entry.adjustments ?? []).map((adjustment) => adjustment.amount));
+  return maxMoney(ZERO, subtractMoney(entry.amount, adjusted));
+}
+
+function getAdjustmentState(entry: LedgerEntry): AdjustmentState | undefined {
+  const adjustments = entry.adjustments ?? [];
+
+  if (adjustments.some((adjustment) => adjustment.type === 'Reversal')) {
+    return 'reversed';
+  }
+  if (adjustments.some((adjustment) => adjustment.type === 'Void')) {
+    return 'voided';
+  }
+  if (adjustments.length > 0) {
+    return getNetAmount(entry) === ZERO ? 'refunded' : 'partiallyRefunded';
+  }
+
+  return undefined;
+}
+
+function matchesQuery(entry: LedgerEntry, query: LedgerQuery): boolean {
+  if (query.statuses?.length && !query.statuses.includes(getDisplayStatus(entry))) {
+    return false;
+  }
+
+  if (query.paymentTypes?.length && !query.paymentTypes.includes(entry.paymentType)) {
+    return false;
+  }
+
+  if (query.dateRange && !isInDateRange(entry.createdAt, query.dateRange)) {
+    return false;
+  }
+
+  const search = query.search?.trim().toLowerCase();
+  if (!search) {
+    return true;
+  }
+
+  const searchable = [
+    entry.reference,
+    entry.originalReference,
+    entry.orderReference,
+    entry.result?.rrn,
+    entry.result?.cardPan,
+    entry.customer?.name,
+    entry.customer?.email,
+    ...(entry.items ?? []).flatMap((item) => [item.name, item.sku]),
+  ];
+  if (searchable.some((value) => value?.toLowerCase().includes(search))) {
+    return true;
+  }
+
+  // Let cashiers type an amount such as "5000" or "5,000.00"
+  const amount = parseMoney(search);
+  return amount !== undefined && amount === entry.amount;
+}
+
+// Create and export singleton instance
+const transactionLedger = new TransactionLedger();
+export default transactionLedger;
+
+export { getAdjustmentState, getDisplayStatus, getNetAmount, getTransactionType };
+
+export type {
+  AdjustmentLink,
+  AdjustmentState,
+  DisplayStatus,
+  LedgerCustomer,
+  LedgerEntry,
+  LedgerPage,
+  LedgerQuery,
+  LedgerStats,
+  LedgerStatus,
+  NewLedgerEntry,
+  PaymentType,
+  ReprintRecord,
+  TransactionType
+};
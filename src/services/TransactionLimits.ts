@@ -0,0 +1,223 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getDateRange, isInDateRange } from '../utils/dateRange';
+import {
+  addMoney,
+  compareMoney,
+  formatMoney,
+  kobo,
+  Money,
+  sumMoney
+} from '../utils/money';
+import logger from './Logger';
+import { PAYMENT_METHODS } from './PaymentMethods';
+import TransactionLedger, { getDisplayStatus, getNetAmount, getTransactionType, PaymentType } from './TransactionLedger';
+
+// Which part of the policy a payment broke. Every rule can be overridden by a supervisor.
+type LimitRule = 'minimum' | 'maximum' | 'operatorCap' | 'dailyCap';
+
+interface AmountRange {
+  min: Money;
+  max: Money;
+}
+
+interface LimitsPolicy {
+  defaultRange: AmountRange; // For payment types without their own range
+  byPaymentType: Partial<Record<PaymentType, AmountRange>>;
+  operatorCaps: Record<string, Money>; // Largest single payment each operator may take
+  dailyCap?: Money; // Approved sales per terminal per calendar day, net of adjustments
+}
+
+interface LimitViolation {
+  rule: LimitRule;
+  limit: Money;
+  message: string;
+}
+
+interface PaymentToCheck {
+  amount: Money;
+  paymentType?: PaymentType;
+  operator?: string;
+}
+
+type LimitsListener = (policy: LimitsPolicy) => void;
+
+const STORAGE_KEY = '@interswitch/transaction-limits';
+
+const LIMIT_RULE_LABELS: Record<LimitRule, string> = {
+  minimum: 'Payment type minimum',
+  maximum: 'Payment type maximum',
+  operatorCap: 'Operator cap',
+  dailyCap: 'Daily terminal cap',
+};
+
+// The limits every merchant had before they became configurable
+const DEFAULT_POLICY: LimitsPolicy = {
+  defaultRange: { min: kobo(1000), max: kobo(99999999) },
+  byPaymentType: {},
+  operatorCaps: {},
+};
+
+/**
+ * Per-merchant transaction limits. Payment type ranges are checked synchronously
+ * by validatePaymentAmount; operator and daily caps need the operator and the
+ * ledger and are checked with check() before a payment starts.
+ */
+class TransactionLimits {
+  private policy: LimitsPolicy = { ...DEFAULT_POLICY };
+  private loaded: Promise<void>;
+  private listeners = new Set<LimitsListener>();
+
+  constructor() {
+    this.loaded = this.restore();
+  }
+
+  async getPolicy(): Promise<LimitsPolicy> {
+    await this.loaded;
+    return { ...this.policy };
+  }
+
+  /**
+   * Last known policy, without waiting for storage (defaults until loaded)
+   */
+  getCurrentPolicy(): LimitsPolicy {
+    return { ...this.policy };
+  }
+
+  /**
+   * Throws when a range has its minimum above its maximum or a cap is not positive
+   */
+  async update(changes: Partial<LimitsPolicy>): Promise<LimitsPolicy> {
+    await this.loaded;
+    const policy = { ...this.policy, ...changes };
+
+    const ranges = [['Default', policy.defaultRange], ...Object.entries(policy.byPaymentType)] as [string, AmountRange][];
+    ranges.forEach(([name, range]) => {
+      if (range.min <= 0 || compareMoney(range.min, range.max) > 0) {
+        throw new Error(`${name} minimum must be above ₦0 and no more than the maximum`);
+      }
+    });
+
+    const caps = [...Object.values(policy.operatorCaps), ...(policy.dailyCap === undefined ? [] : [policy.dailyCap])];
+    if (caps.some((cap) => cap <= 0)) {
+      throw new Error('Caps must be greater than ₦0');
+    }
+
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(policy));
+
+    this.policy = policy;
+    logger.info('payment', 'Transaction limits updated', changes);
+    this.listeners.forEach((listener) => listener({ ...policy }));
+    return { ...policy };
+  }
+
+  getRange(paymentType?: PaymentType): AmountRange {
+    return (paymentType && this.policy.byPaymentType[paymentType]) || this.policy.defaultRange;
+  }
+
+  /**
+   * Minimum and maximum for the payment type, from the last known policy
+   */
+  checkRange(amount: Money, paymentType?: PaymentType): LimitViolation | undefined {
+    const range = this.getRange(paymentType);
+    const scope = paymentType ? `${PAYMENT_METHODS[paymentType].label} payments` : 'payments';
+
+    if (compareMoney(amount, range.min) < 0) {
+      return { rule: 'minimum', limit: range.min, message: `Minimum for ${scope} is ${formatMoney(range.min)}` };
+    }
+
+    if (compareMoney(amount, range.max) > 0) {
+      return { rule: 'maximum', limit: range.max, message: `Maximum for ${scope} is ${formatMoney(range.max)}` };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Every limit the payment would break, in policy order. Empty when it is within limits.
+   */
+  async check(payment: PaymentToCheck): Promise<LimitViolation[]> {
+    await this.loaded;
+    const violations: LimitViolation[] = [];
+
+    const rangeViolation = this.checkRange(payment.amount, payment.paymentType);
+    if (rangeViolation) {
+      violations.push(rangeViolation);
+    }
+
+    const operatorCap = payment.operator ? this.policy.operatorCaps[payment.operator] : undefined;
+    if (operatorCap !== undefined && compareMoney(payment.amount, operatorCap) > 0) {
+      violations.push({
+        rule: 'operatorCap',
+        limit: operatorCap,
+        message: `${payment.operator} can take at most ${formatMoney(operatorCap)} per transaction`,
+      });
+    }
+
+    const { dailyCap } = this.policy;
+    if (dailyCap !== undefined) {
+      const dailyTotal = addMoney(await this.getDailyTotal(), payment.amount);
+      if (compareMoney(dailyTotal, dailyCap) > 0) {
+        violations.push({
+          rule: 'dailyCap',
+          limit: dailyCap,
+          message: `Today's sales would reach ${formatMoney(dailyTotal)}, over the daily cap of ${formatMoney(dailyCap)}`,
+        });
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Approved sales taken on this terminal today, net of reversals, voids and refunds
+   */
+  async getDailyTotal(now: Date = new Date()): Promise<Money> {
+    const today = getDateRange('today', now);
+    const entries = await TransactionLedger.getEntries();
+
+    return sumMoney(entries
+      .filter((entry) => (
+        getTransactionType(entry) === 'Sale'
+        && getDisplayStatus(entry) === 'successful'
+        && isInDateRange(entry.createdAt, today)
+      ))
+      .map(getNetAmount));
+  }
+
+  /**
+   * Get notified when the policy changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: LimitsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async restore() {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        this.policy = { ...DEFAULT_POLICY, ...JSON.parse(stored) };
+        this.listeners.forEach((listener) => listener({ ...this.policy }));
+      }
+    } catch (error) {
+      logger.error('payment', 'Failed to load transaction limits', error);
+    }
+  }
+}
+
+/**
+ * One message naming each broken rule, for toasts and approval prompts
+ */
+function describeViolations(violations: LimitViolation[]): string {
+  return violations.map((violation) => `${LIMIT_RULE_LABELS[violation.rule]}: ${violation.message}`).join('\n');
+}
+
+// Create and export singleton instance
+const transactionLimits = new TransactionLimits();
+export default transactionLimits;
+
+export { describeViolations, LIMIT_RULE_LABELS };
+
+export type { AmountRange, LimitRule, LimitsPolicy, LimitViolation, PaymentToCheck };
@@ -0,0 +1,127 @@
+import { kobo } from '../../utils/money';
+import { SimulatorPosDriver } from '../drivers/SimulatorPosDriver';
+import InterswitchPOSService from '../InterswitchService';
+import { getErrorCategory } from '../ResponseCodes';
+import TerminalStateMachine from '../TerminalStateMachine';
+import TransactionLedger from '../TransactionLedger';
+
+jest.mock('expo-secure-store', () => ({
+  WHEN_UNLOCKED_THIS_DEVICE_ONLY: 'WHEN_UNLOCKED_THIS_DEVICE_ONLY',
+  getItemAsync: jest.fn(async () => null),
+  setItemAsync: jest.fn(async () => undefined),
+  deleteItemAsync: jest.fn(async () => undefined),
+}));
+jest.mock('../Logger');
+
+const SALE = { amount: kobo(250000), paymentType: 'Card' as const, remark: 'Test sale' };
+
+let driver: SimulatorPosDriver;
+
+// Let the driver call and the async event handlers run
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const approval = (transactionReference: string) => ({
+  transactionReference,
+  isSuccessful: true,
+  responseCode: '00',
+  amount: 250000,
+});
+
+beforeEach(async () => {
+  driver = new SimulatorPosDriver();
+  driver.setScenario({ latencyMs: 0 });
+  InterswitchPOSService.setDriver(driver);
+  await InterswitchPOSService.initializeTerminal();
+});
+
+describe('pay() result validation', () => {
+  it('uses the requested amount when the result amount is unreadable', async () => {
+    driver.setScenario({ outcome: 'timeout' });
+    const outcome = InterswitchPOSService.pay({ ...SALE, reference: 'TXN_AMOUNT' });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    driver.sendEvent('onPaymentCompleted', {
+      transactionReference: 'TXN_AMOUNT',
+      isSuccessful: true,
+      responseCode: '00',
+      amount: 'not a number',
+    });
+
+    await expect(outcome).resolves.toMatchObject({
+      cancelled: false,
+      result: { transactionReference: 'TXN_AMOUNT', isSuccessful: true, amount: SALE.amount },
+    });
+  });
+
+  it('sends a result it cannot read to History instead of Retry', async () => {
+    driver.setScenario({ outcome: 'timeout' });
+    const outcome = InterswitchPOSService.pay({ ...SALE, reference: 'TXN_UNREADABLE' });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    driver.sendEvent('onPaymentCompleted', { transactionReference: 'TXN_UNREADABLE', amount: 250000 });
+
+    const error = await outcome.catch((rejection: Error) => rejection);
+    expect(getErrorCategory(error as Error)).toBe('unreadableResult');
+  });
+});
+
+describe('pay() reference matching', () => {
+  it('settles the payment named by the result', async () => {
+    driver.setScenario({ outcome: 'timeout' });
+    const outcome = InterswitchPOSService.pay({ ...SALE, reference: 'TXN_MATCH' });
+    await flush();
+
+    driver.sendEvent('onPaymentCompleted', approval('TXN_MATCH'));
+
+    await expect(outcome).resolves.toMatchObject({ result: { transactionReference: 'TXN_MATCH' } });
+    expect(TerminalStateMachine.getState()).toBe('ready');
+  });
+
+  it('does not settle a payment with a result for another reference', async () => {
+    driver.setScenario({ outcome: 'timeout' });
+    const outcome = InterswitchPOSService.pay({ ...SALE, reference: 'TXN_CURRENT' }, { timeoutMs: 50 });
+    await flush();
+
+    driver.sendEvent('onPaymentCompleted', approval('TXN_OTHER'));
+    await flush();
+
+    expect(TerminalStateMachine.getState()).toBe('busyPaying');
+    await expect(outcome).rejects.toThrow('timed out');
+  });
+});
+
+describe('pay() timeout', () => {
+  it('keeps the terminal busy until the late result arrives', async () => {
+    await TransactionLedger.recordInitiated({ reference: 'TXN_LATE', amount: SALE.amount, paymentType: 'Card' });
+    driver.setScenario({ outcome: 'timeout' });
+
+    const error = await InterswitchPOSService.pay({ ...SALE, reference: 'TXN_LATE' }, { timeoutMs: 10 })
+      .catch((rejection: Error) => rejection);
+
+    expect(getErrorCategory(error as Error)).toBe('timeout');
+    expect(TerminalStateMachine.getState()).toBe('busyPaying');
+    expect(InterswitchPOSService.getAwaitingResults()).toEqual(['TXN_LATE']);
+
+    driver.sendEvent('onPaymentCompleted', approval('TXN_LATE'));
+    await flush();
+
+    expect(TerminalStateMachine.getState()).toBe('ready');
+    expect(InterswitchPOSService.getAwaitingResults()).toEqual([]);
+    await expect(TransactionLedger.getEntry('TXN_LATE')).resolves.toMatchObject({
+      status: 'completed',
+      result: { isSuccessful: true },
+    });
+  });
+
+  it('frees the terminal once the cashier releases the timed-out payment', async () => {
+    driver.setScenario({ outcome: 'timeout' });
+    await InterswitchPOSService.pay({ ...SALE, reference: 'TXN_RELEASE' }, { timeoutMs: 10 }).catch(() => undefined);
+
+    expect(TerminalStateMachine.getState()).toBe('busyPaying');
+
+    InterswitchPOSService.releaseAwaitingResult('TXN_RELEASE');
+
+    expect(TerminalStateMachine.getState()).toBe('ready');
+    expect(InterswitchPOSService.getAwaitingResults()).toEqual([]);
+  });
+});
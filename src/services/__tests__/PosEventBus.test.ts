@@ -0,0 +1,71 @@
+import { normalizePaymentResult } from '../PosEventBus';
+
+const APPROVED = {
+  responseCode: '00',
+  responseMessage: 'Approved',
+  isSuccessful: true,
+  transactionReference: 'TXN_1',
+  rrn: '000000000001',
+  amount: 1500,
+  cardType: 'VISA',
+  transactionType: 'PURCHASE',
+  cardHolderName: 'OKA***',
+  cardExpiry: '[REDACTED]',
+  cardPan: '411111******1111',
+  aid: 'A0000000031010',
+  dateTime: '2026-10-18 10:00:00',
+  txnDate: 1792317600000,
+  authorizationCode: '123456',
+  stan: '000001',
+  authCode: '123456',
+  transactionCurrencyType: 'NGN',
+  timestamp: 1792317600000,
+  status: 'completed',
+};
+
+describe('normalizePaymentResult', () => {
+  it('accepts a complete result unchanged', () => {
+    expect(normalizePaymentResult(APPROVED)).toEqual({ result: APPROVED, problems: [], defaulted: [] });
+  });
+
+  it('fills null optional fields with defaults and lists them', () => {
+    const { result, problems, defaulted } = normalizePaymentResult({
+      ...APPROVED,
+      isSuccessful: false,
+      responseCode: '51',
+      cardHolderName: null,
+      aid: null,
+      authCode: null,
+    });
+
+    expect(problems).toEqual([]);
+    expect(defaulted).toEqual(['cardHolderName', 'aid', 'authCode']);
+    expect(result).toMatchObject({ transactionReference: 'TXN_1', responseCode: '51', cardHolderName: '', aid: '', authCode: '' });
+  });
+
+  it('defaults an unknown status and a missing timestamp', () => {
+    const { timestamp: _timestamp, ...withoutTimestamp } = APPROVED;
+    const { result, defaulted } = normalizePaymentResult({ ...withoutTimestamp, status: 'DONE' });
+
+    expect(defaulted).toEqual(['status', 'timestamp']);
+    expect(result?.status).toBe('completed');
+    expect(typeof result?.timestamp).toBe('number');
+  });
+
+  it('keeps fields that are not part of PaymentResult', () => {
+    const { result } = normalizePaymentResult({ ...APPROVED, originalReference: 'TXN_0' });
+
+    expect(result).toMatchObject({ originalReference: 'TXN_0' });
+  });
+
+  it.each(['transactionReference', 'isSuccessful', 'responseCode', 'amount'])('rejects a result without %s', (field) => {
+    const { result, problems } = normalizePaymentResult({ ...APPROVED, [field]: null });
+
+    expect(result).toBeUndefined();
+    expect(problems).toEqual([expect.stringContaining(field)]);
+  });
+
+  it('rejects a payload that is not an object', () => {
+    expect(normalizePaymentResult(null)).toEqual({ problems: ['payload is not an object'], defaulted: [] });
+  });
+});
@@ -0,0 +1,103 @@
+import { kobo } from '../../utils/money';
+import { SimulatorPosDriver } from '../drivers/SimulatorPosDriver';
+import InterswitchPOSService from '../InterswitchService';
+import SplitTender, { getBalance } from '../SplitTender';
+import TransactionLedger from '../TransactionLedger';
+
+jest.mock('expo-secure-store', () => ({
+  WHEN_UNLOCKED_THIS_DEVICE_ONLY: 'WHEN_UNLOCKED_THIS_DEVICE_ONLY',
+  getItemAsync: jest.fn(async () => null),
+  setItemAsync: jest.fn(async () => undefined),
+  deleteItemAsync: jest.fn(async () => undefined),
+}));
+jest.mock('../Logger');
+
+// Let the driver call, the event handlers and the ledger writes run
+const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+const latestReference = async () => (await TransactionLedger.getEntries())[0].reference;
+
+const approval = (transactionReference: string) => ({
+  transactionReference,
+  isSuccessful: true,
+  responseCode: '00',
+  amount: 200000,
+});
+
+let driver: SimulatorPosDriver;
+
+beforeEach(async () => {
+  // A new driver also stops waiting for results left over from the previous test
+  driver = new SimulatorPosDriver();
+  driver.setScenario({ latencyMs: 0 });
+  InterswitchPOSService.setDriver(driver);
+  await InterswitchPOSService.initializeTerminal();
+
+  if (await SplitTender.getOpenOrder()) {
+    await SplitTender.abandonOrder();
+  }
+  await SplitTender.startOrder(kobo(500000));
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('SplitTender.payTender', () => {
+  it('rejects a tender while another is in progress', async () => {
+    driver.setScenario({ outcome: 'timeout' });
+    const first = SplitTender.payTender('Card', kobo(200000));
+    await flush();
+
+    await expect(SplitTender.payTender('Card', kobo(200000))).resolves.toMatchObject({
+      success: false,
+      error: 'A tender is already in progress',
+    });
+
+    driver.sendEvent('onPaymentCompleted', approval(await latestReference()));
+
+    await expect(first).resolves.toMatchObject({ success: true });
+    const order = await SplitTender.getOpenOrder();
+    expect(order!.tenders).toHaveLength(1);
+    expect(getBalance(order!)).toBe(300000);
+  });
+
+  it('keeps a timed-out tender pending until its late result arrives', async () => {
+    jest.useFakeTimers();
+    driver.setScenario({ outcome: 'timeout' });
+    const tender = SplitTender.payTender('Card', kobo(200000));
+    await jest.advanceTimersByTimeAsync(120000);
+
+    await expect(tender).resolves.toMatchObject({ success: false, tender: { status: 'pending' } });
+    jest.useRealTimers();
+
+    await expect(SplitTender.payTender('Card', kobo(300000))).resolves.toMatchObject({
+      success: false,
+      error: expect.stringContaining('still waiting for its result'),
+    });
+    await expect(SplitTender.abandonOrder()).resolves.toMatchObject({ success: false, reversed: 0 });
+
+    driver.sendEvent('onPaymentCompleted', approval(await latestReference()));
+    await flush();
+
+    const order = await SplitTender.getOpenOrder();
+    expect(order!.tenders[0].status).toBe('approved');
+    expect(getBalance(order!)).toBe(300000);
+  });
+
+  it('fails a timed-out tender once the cashier releases the terminal', async () => {
+    jest.useFakeTimers();
+    driver.setScenario({ outcome: 'timeout' });
+    const tender = SplitTender.payTender('Card', kobo(200000));
+    await jest.advanceTimersByTimeAsync(120000);
+    await tender;
+    jest.useRealTimers();
+
+    InterswitchPOSService.releaseAwaitingResult(await latestReference());
+    driver.setScenario({ outcome: 'approve' });
+
+    await expect(SplitTender.payTender('Card', kobo(500000))).resolves.toMatchObject({ success: true });
+    const order = await SplitTender.getOpenOrder();
+    expect(order!.tenders.map((tender) => tender.status)).toEqual(['failed', 'approved']);
+  });
+});
@@ -0,0 +1,51 @@
+import SupervisorAuth from '../SupervisorAuth';
+
+const mockSecureStore = new Map<string, string>();
+
+jest.mock('expo-secure-store', () => ({
+  WHEN_UNLOCKED_THIS_DEVICE_ONLY: 'WHEN_UNLOCKED_THIS_DEVICE_ONLY',
+  getItemAsync: jest.fn(async (key: string) => mockSecureStore.get(key) ?? null),
+  setItemAsync: jest.fn(async (key: string, value: string) => {
+    mockSecureStore.set(key, value);
+  }),
+}));
+jest.mock('../Logger');
+
+const LOCKOUT_KEY = 'interswitch.supervisorLockout';
+
+describe('SupervisorAuth lockout', () => {
+  beforeEach(async () => {
+    mockSecureStore.clear();
+    await SupervisorAuth.setPin('2468');
+  });
+
+  it('locks out after five wrong PINs and keeps the lockout in the keystore', async () => {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect((await SupervisorAuth.verify('0000')).error).toBe('Incorrect supervisor PIN');
+    }
+
+    expect(JSON.parse(mockSecureStore.get(LOCKOUT_KEY)!).lockedUntil).toBeGreaterThan(Date.now());
+    expect(await SupervisorAuth.verify('2468')).toEqual({
+      success: false,
+      error: expect.stringContaining('Too many attempts'),
+    });
+  });
+
+  it('counts failures stored by an earlier session', async () => {
+    mockSecureStore.set(LOCKOUT_KEY, JSON.stringify({ failedAttempts: 4, lockedUntil: 0 }));
+
+    await SupervisorAuth.verify('0000');
+
+    expect((await SupervisorAuth.verify('2468')).error).toContain('Too many attempts');
+  });
+
+  it('resets the count after a correct PIN', async () => {
+    for (let attempt = 0; attempt < 4; attempt++) {
+      await SupervisorAuth.verify('0000');
+    }
+    expect(await SupervisorAuth.verify('2468')).toEqual({ success: true });
+
+    await SupervisorAuth.verify('0000');
+    expect(await SupervisorAuth.verify('2468')).toEqual({ success: true });
+  });
+});
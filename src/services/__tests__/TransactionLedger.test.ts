@@ -0,0 +1,38 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { kobo } from '../../utils/money';
+import TransactionLedger from '../TransactionLedger';
+
+jest.mock('../Logger');
+
+const STORED = [{
+  reference: 'TXN_1',
+  amount: 150000,
+  paymentType: 'Card',
+  status: 'completed',
+  createdAt: 1,
+  updatedAt: 1,
+}];
+
+describe('TransactionLedger load failures', () => {
+  beforeEach(async () => {
+    await AsyncStorage.setItem('@interswitch/transaction-ledger', JSON.stringify(STORED));
+  });
+
+  it('refuses writes when the stored ledger cannot be read', async () => {
+    jest.spyOn(AsyncStorage, 'getItem').mockRejectedValueOnce(new Error('disk error'));
+    const setItem = jest.spyOn(AsyncStorage, 'setItem');
+    setItem.mockClear();
+
+    await expect(TransactionLedger.recordInitiated({
+      reference: 'TXN_2',
+      amount: kobo(5000),
+      paymentType: 'Card',
+    })).rejects.toThrow('Transaction history could not be read');
+    expect(setItem).not.toHaveBeenCalled();
+
+    // The next call reads the ledger again and keeps what was stored
+    const entries = await TransactionLedger.getEntries();
+    expect(entries.map((entry) => entry.reference)).toEqual(['TXN_1']);
+  });
+});
@@ -0,0 +1,95 @@
+import { NativeEventEmitter } from 'react-native';
+import { fromNaira, toNaira } from '../../utils/money';
+import type {
+  AdjustmentData,
+  LogoConfig,
+  PaymentData,
+  PrintItem,
+  PrintResult,
+  TerminalConfig,
+  TerminalInfo
+} from '../types';
+import type { DriverResult, PosDriver, PosEventName, PosSubscription } from './PosDriver';
+
+// Events whose payload carries an amount in Naira
+const AMOUNT_EVENTS: PosEventName[] = ['onPaymentCompleted', 'onReversalCompleted', 'onVoidCompleted', 'onRefundCompleted'];
+
+/**
+ * Driver backed by the InterswitchPosModule native module (PAX SmartPOS SDK).
+ * The SDK works in Naira; amounts are converted to and from kobo here and nowhere else.
+ */
+class NativePosDriver implements PosDriver {
+  readonly name = 'native';
+  private eventEmitter: NativeEventEmitter;
+
+  constructor(private nativeModule: any) {
+    this.eventEmitter = new NativeEventEmitter(nativeModule);
+  }
+
+  initializeTerminal(config: TerminalConfig): Promise<DriverResult> {
+    return this.nativeModule.initializeTerminal(config);
+  }
+
+  setCompanyLogo(logoConfig: LogoConfig): Promise<DriverResult> {
+    return this.nativeModule.setCompanyLogo(logoConfig);
+  }
+
+  makePayment(paymentInfo: Required<PaymentData>): Promise<DriverResult> {
+    return this.nativeModule.makePayment({ ...paymentInfo, amount: toNaira(paymentInfo.amount) });
+  }
+
+  reverseTransaction(adjustmentInfo: Required<AdjustmentData>): Promise<DriverResult> {
+    return this.nativeModule.reverseTransaction({ ...adjustmentInfo, amount: toNaira(adjustmentInfo.amount) });
+  }
+
+  voidTransaction(adjustmentInfo: Required<AdjustmentData>): Promise<DriverResult> {
+    return this.nativeModule.voidTransaction({ ...adjustmentInfo, amount: toNaira(adjustmentInfo.amount) });
+  }
+
+  refundTransaction(adjustmentInfo: Required<AdjustmentData>): Promise<DriverResult> {
+    return this.nativeModule.refundTransaction({ ...adjustmentInfo, amount: toNaira(adjustmentInfo.amount) });
+  }
+
+  printReceipt(printData: PrintItem[]): Promise<PrintResult> {
+    return this.nativeModule.printReceipt(printData);
+  }
+
+  showSettings(): Promise<DriverResult> {
+    return this.nativeModule.showSettings();
+  }
+
+  callHome(): Promise<DriverResult> {
+    return this.nativeModule.callHome();
+  }
+
+  getTerminalInfo(): Promise<TerminalInfo> {
+    return this.nativeModule.getTerminalInfo();
+  }
+
+  getConstants(): Record<string, any> {
+    return this.nativeModule.getConstants ? this.nativeModule.getConstants() : {};
+  }
+
+  addListener(event: PosEventName, handler: (payload: any) => void): PosSubscription {
+    if (!AMOUNT_EVENTS.includes(event)) {
+      return this.eventEmitter.addListener(event, handler);
+    }
+
+    return this.eventEmitter.addListener(event, (payload: any) => handler(withKoboAmount(payload)));
+  }
+}
+
+/**
+ * A result payload with its Naira amount converted to kobo. A missing or
+ * unusable amount is passed through so the service rejects the result as invalid.
+ */
+function withKoboAmount(payload: any): any {
+  const amount = payload?.amount;
+  if (typeof amount !== 'number' || !Number.isSafeInteger(Math.round(amount * 100))) {
+    return payload;
+  }
+
+  return { ...payload, amount: fromNaira(amount) };
+}
+
+export default NativePosDriver;
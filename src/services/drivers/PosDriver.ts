@@ -0,0 +1,51 @@
+import type {
+  AdjustmentData,
+  LogoConfig,
+  PaymentData,
+  PrintItem,
+  PrintResult,
+  TerminalConfig,
+  TerminalInfo
+} from '../types';
+
+// Events emitted by a POS driver, named after the native module events
+type PosEventName =
+  | 'onPaymentCompleted'
+  | 'onPaymentCancelled'
+  | 'onReversalCompleted'
+  | 'onVoidCompleted'
+  | 'onRefundCompleted'
+  | 'onPrintCompleted'
+  | 'onPrintError';
+
+interface PosSubscription {
+  remove(): void;
+}
+
+interface DriverResult {
+  success: boolean;
+  message?: string;
+}
+
+/**
+ * Contract implemented by everything that can back InterswitchPOSService:
+ * the native PAX module or the pure-JS simulator. Amounts in and out are kobo.
+ */
+interface PosDriver {
+  readonly name: string;
+  initializeTerminal(config: TerminalConfig): Promise<DriverResult>;
+  setCompanyLogo(logoConfig: LogoConfig): Promise<DriverResult>;
+  makePayment(paymentInfo: Required<PaymentData>): Promise<DriverResult>;
+  // Adjustments start on the terminal; the outcome arrives as an on<Type>Completed event
+  reverseTransaction(adjustmentInfo: Required<AdjustmentData>): Promise<DriverResult>;
+  voidTransaction(adjustmentInfo: Required<AdjustmentData>): Promise<DriverResult>;
+  refundTransaction(adjustmentInfo: Required<AdjustmentData>): Promise<DriverResult>;
+  printReceipt(printData: PrintItem[]): Promise<PrintResult>;
+  showSettings(): Promise<DriverResult>;
+  callHome(): Promise<DriverResult>;
+  getTerminalInfo(): Promise<TerminalInfo>;
+  getConstants(): Record<string, any>;
+  addListener(event: PosEventName, handler: (payload: any) => void): PosSubscription;
+}
+
+export type { DriverResult, PosDriver, PosEventName, PosSubscription };
@@ -0,0 +1,274 @@
+import type { Money } from '../../utils/money';
+import type {
+  AdjustmentData,
+  AdjustmentResult,
+  AdjustmentType,
+  LogoConfig,
+  PaymentData,
+  PaymentResult,
+  PrintItem,
+  PrintResult,
+  TerminalConfig,
+  TerminalInfo
+} from '../types';
+import type { DriverResult, PosDriver, PosEventName, PosSubscription } from './PosDriver';
+
+type SimulatedOutcome = 'approve' | 'decline' | 'cancel' | 'timeout';
+
+interface SimulatorScenario {
+  outcome: SimulatedOutcome;
+  responseCode: string; // Used when outcome is 'decline'
+  responseMessage: string; // Used when outcome is 'decline'
+  latencyMs: number; // Delay before every simulated response or event
+  printer: 'ok' | 'outOfPaper';
+  cardType: string;
+  cardPan: string;
+}
+
+const DEFAULT_SCENARIO: SimulatorScenario = {
+  outcome: 'approve',
+  responseCode: '51',
+  responseMessage: 'Insufficient Funds',
+  latencyMs: 1500,
+  printer: 'ok',
+  cardType: 'VERVE',
+  cardPan: '506099******1234',
+};
+
+const SIMULATOR_SDK_VERSION = 'simulator-1.0.0';
+
+const ADJUSTMENT_EVENTS: Record<AdjustmentType, PosEventName> = {
+  Reversal: 'onReversalCompleted',
+  Void: 'onVoidCompleted',
+  Refund: 'onRefundCompleted',
+};
+
+/**
+ * Pure-JS stand-in for InterswitchPosModule. Behaves like the native module
+ * (same methods, same events) so flows can be built and tested without a
+ * PAX device, e.g. in Expo Go, on web and in unit tests.
+ *
+ * Outcomes are scriptable: setScenario() changes the default behaviour and
+ * queueScenario() scripts the next payments one at a time.
+ */
+class SimulatorPosDriver implements PosDriver {
+  readonly name = 'simulator';
+  private scenario: SimulatorScenario = { ...DEFAULT_SCENARIO };
+  private queuedScenarios: Partial<SimulatorScenario>[] = [];
+  private listeners = new Map<PosEventName, Set<(payload: any) => void>>();
+  private initialized = false;
+  private stanCounter = 0;
+
+  /**
+   * Change the default behaviour for all following operations
+   */
+  setScenario(scenario: Partial<SimulatorScenario>) {
+    this.scenario = { ...this.scenario, ...scenario };
+  }
+
+  /**
+   * Script the outcome of the next payment or adjustment. Queued scenarios are consumed in order.
+   */
+  queueScenario(...scenarios: Partial<SimulatorScenario>[]) {
+    this.queuedScenarios.push(...scenarios);
+  }
+
+  /**
+   * Restore default behaviour and drop any queued scenarios
+   */
+  resetScenario() {
+    this.scenario = { ...DEFAULT_SCENARIO };
+    this.queuedScenarios = [];
+  }
+
+  getScenario(): SimulatorScenario {
+    return { ...this.scenario };
+  }
+
+  /**
+   * Deliver a raw event as the SDK would, e.g. a malformed or late result
+   */
+  sendEvent(event: PosEventName, payload: any) {
+    this.emit(event, payload);
+  }
+
+  async initializeTerminal(config: TerminalConfig): Promise<DriverResult> {
+    await this.delay();
+    this.initialized = true;
+    return { success: true, message: `Simulated terminal initialized (${config.environment})` };
+  }
+
+  async setCompanyLogo(logoConfig: LogoConfig): Promise<DriverResult> {
+    return { success: true, message: `Simulated logo set (${logoConfig.type})` };
+  }
+
+  async makePayment(paymentInfo: Required<PaymentData>): Promise<DriverResult> {
+    if (!this.initialized) {
+      throw new Error('Terminal not initialized');
+    }
+
+    const scenario = this.nextScenario();
+
+    setTimeout(() => {
+      switch (scenario.outcome) {
+        case 'approve':
+          this.emit('onPaymentCompleted', this.buildPaymentResult(paymentInfo, scenario, true));
+          break;
+        case 'decline':
+          this.emit('onPaymentCompleted', this.buildPaymentResult(paymentInfo, scenario, false));
+          break;
+        case 'cancel':
+          this.emit('onPaymentCancelled', {
+            transactionReference: paymentInfo.reference,
+            message: 'Transaction was cancelled by user',
+            timestamp: Date.now(),
+          });
+          break;
+        case 'timeout':
+          // The device never answers, just like a hung card read
+          break;
+      }
+    }, scenario.latencyMs);
+
+    return { success: true, message: 'Payment started' };
+  }
+
+  reverseTransaction(adjustmentInfo: Required<AdjustmentData>): Promise<DriverResult> {
+    return this.startAdjustment('Reversal', adjustmentInfo);
+  }
+
+  voidTransaction(adjustmentInfo: Required<AdjustmentData>): Promise<DriverResult> {
+    return this.startAdjustment('Void', adjustmentInfo);
+  }
+
+  refundTransaction(adjustmentInfo: Required<AdjustmentData>): Promise<DriverResult> {
+    return this.startAdjustment('Refund', adjustmentInfo);
+  }
+
+  async printReceipt(printData: PrintItem[]): Promise<PrintResult> {
+    await this.delay();
+
+    const outOfPaper = this.scenario.printer === 'outOfPaper';
+    const result: PrintResult = {
+      status: outOfPaper ? 'OUT_OF_PAPER' : 'SUCCESS',
+      message: outOfPaper ? 'Printer out of paper' : `Printed ${printData.length} items`,
+      success: !outOfPaper,
+      timestamp: Date.now(),
+    };
+
+    this.emit(outOfPaper ? 'onPrintError' : 'onPrintCompleted', result);
+    return result;
+  }
+
+  async showSettings(): Promise<DriverResult> {
+    return { success: true, message: 'Simulator has no settings screen' };
+  }
+
+  async callHome(): Promise<DriverResult> {
+    await this.delay();
+    return { success: true, message: 'Simulated call home complete' };
+  }
+
+  async getTerminalInfo(): Promise<TerminalInfo> {
+    return {
+      isInitialized: this.initialized,
+      serialNumber: 'SIM00000001',
+      deviceType: 'Simulator',
+      sdkVersion: SIMULATOR_SDK_VERSION,
+    };
+  }
+
+  getConstants(): Record<string, any> {
+    return { SDK_VERSION: SIMULATOR_SDK_VERSION, IS_SIMULATOR: true };
+  }
+
+  addListener(event: PosEventName, handler: (payload: any) => void): PosSubscription {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(handler);
+
+    return {
+      remove: () => {
+        this.listeners.get(event)?.delete(handler);
+      },
+    };
+  }
+
+  private async startAdjustment(type: AdjustmentType, adjustmentInfo: Required<AdjustmentData>): Promise<DriverResult> {
+    if (!this.initialized) {
+      throw new Error('Terminal not initialized');
+    }
+
+    const scenario = this.nextScenario();
+
+    setTimeout(() => {
+      if (scenario.outcome === 'timeout') {
+        return;
+      }
+
+      // Adjustments have no cancel event, so a cancelled one is reported as declined
+      const result: AdjustmentResult = {
+        ...this.buildPaymentResult(adjustmentInfo, scenario, scenario.outcome === 'approve', type.toUpperCase()),
+        adjustmentType: type,
+        originalReference: adjustmentInfo.originalReference,
+      };
+      this.emit(ADJUSTMENT_EVENTS[type], result);
+    }, scenario.latencyMs);
+
+    return { success: true, message: `${type} started` };
+  }
+
+  private nextScenario(): SimulatorScenario {
+    return { ...this.scenario, ...this.queuedScenarios.shift() };
+  }
+
+  private emit(event: PosEventName, payload: any) {
+    this.listeners.get(event)?.forEach((handler) => handler(payload));
+  }
+
+  private delay(): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, this.scenario.latencyMs));
+  }
+
+  private buildPaymentResult(
+    request: { reference: string; amount: Money },
+    scenario: SimulatorScenario,
+    approved: boolean,
+    transactionType = 'PURCHASE'
+  ): PaymentResult {
+    const now = new Date();
+    const stan = String(++this.stanCounter).padStart(6, '0');
+    const authCode = approved ? String(Math.floor(100000 + Math.random() * 900000)) : '';
+
+    return {
+      responseCode: approved ? '00' : scenario.responseCode,
+      responseMessage: approved ? 'Approved' : scenario.responseMessage,
+      isSuccessful: approved,
+      transactionReference: request.reference,
+      rrn: `${now.getTime()}`.slice(-12),
+      amount: request.amount,
+      cardType: scenario.cardType,
+      transactionType,
+      cardHolderName: 'SIMULATED/CARDHOLDER',
+      cardExpiry: '2912',
+      cardPan: scenario.cardPan,
+      aid: 'A0000003710001',
+      dateTime: now.toISOString(),
+      txnDate: now.getTime(),
+      authorizationCode: authCode,
+      stan,
+      authCode,
+      transactionCurrencyType: 'NGN',
+      timestamp: now.getTime(),
+      status: 'completed',
+    };
+  }
+}
+
+// Shared simulator instance used when the native module is not linked
+const simulatorPosDriver = new SimulatorPosDriver();
+export default simulatorPosDriver;
+
+export { SimulatorPosDriver };
+export type { SimulatedOutcome, SimulatorScenario };
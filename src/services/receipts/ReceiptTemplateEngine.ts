@@ -0,0 +1,247 @@
+import { formatMoney, kobo, toDecimalString } from '../../utils/money';
+import type { PaymentResult, PrintItem } from '../types';
+
+interface MerchantProfile {
+  name?: string;
+  address?: string;
+  phone?: string;
+}
+
+/**
+ * Data available to {{placeholders}} and conditions:
+ * `transaction.*`, `merchant.*` and `custom.*`
+ */
+interface ReceiptContext {
+  transaction?: Partial<PaymentResult>;
+  merchant?: MerchantProfile;
+  custom?: Record<string, any>;
+}
+
+interface Conditional {
+  if?: string; // Render only when the condition holds, e.g. "merchant.name" or "!transaction.isSuccessful"
+}
+
+type TemplateNode =
+  | (Conditional & {
+    type: 'text';
+    text: string; // May contain {{path}} or {{path | filter}} placeholders
+    isTitle?: boolean;
+    isBold?: boolean;
+    displayCenter?: boolean;
+  })
+  | (Conditional & { type: 'newline' | 'separator' })
+  | (Conditional & {
+    type: 'image';
+    imageType: 'resource' | 'base64';
+    resourceName?: string;
+    base64Data?: string; // May be a placeholder such as {{merchant.logo}}
+  })
+  | (Conditional & { type: 'section'; items: TemplateNode[] })
+  | (Conditional & {
+    type: 'each';
+    source: string; // Path to an array, e.g. "custom.lines"
+    as: string; // Name each element is bound to inside items
+    items: TemplateNode[];
+  });
+
+interface ReceiptTemplate {
+  name: string;
+  description?: string;
+  items: TemplateNode[];
+}
+
+type TemplateFilter = (value: any, arg?: string) => string;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^}|]+?)\s*(?:\|\s*([a-zA-Z]+)(?::\s*([^}]*?))?\s*)?\}\}/g;
+
+const NODE_TYPES = ['text', 'newline', 'separator', 'image', 'section', 'each'];
+
+const BUILT_IN_FILTERS: Record<string, TemplateFilter> = {
+  // Kobo: 123450 -> "1234.50"
+  amount: (value) => (isKobo(value) ? toDecimalString(kobo(Number(value))) : ''),
+  // Kobo: 123450 -> "₦1,234.50"
+  currency: (value) => (isKobo(value) ? formatMoney(kobo(Number(value))) : ''),
+  upper: (value) => (isBlank(value) ? '' : String(value).toUpperCase()),
+  lower: (value) => (isBlank(value) ? '' : String(value).toLowerCase()),
+  date: (value) => (isBlank(value) ? '' : new Date(value).toLocaleString('en-GB')),
+  // {{custom.label | default: N/A}}
+  default: (value, fallback = '') => (isBlank(value) ? fallback : String(value)),
+};
+
+/**
+ * Compiles declarative receipt templates into PrintItem[] for printReceipt.
+ * Templates are plain JSON so layouts can be changed per client without code edits.
+ */
+class ReceiptTemplateEngine {
+  private templates = new Map<string, ReceiptTemplate>();
+  private filters: Record<string, TemplateFilter> = { ...BUILT_IN_FILTERS };
+
+  /**
+   * Register (or replace) a named template. Throws if the template is malformed.
+   */
+  registerTemplate(template: ReceiptTemplate) {
+    validateNodes(template.items, template.name);
+    this.templates.set(template.name, template);
+  }
+
+  /**
+   * Register a template from its JSON source
+   */
+  registerTemplateJson(json: string) {
+    this.registerTemplate(JSON.parse(json));
+  }
+
+  getTemplate(name: string): ReceiptTemplate | undefined {
+    return this.templates.get(name);
+  }
+
+  listTemplates(): ReceiptTemplate[] {
+    return [...this.templates.values()];
+  }
+
+  /**
+   * Add a custom {{value | filter}}
+   */
+  registerFilter(name: string, filter: TemplateFilter) {
+    this.filters[name] = filter;
+  }
+
+  /**
+   * Render a registered template
+   */
+  render(name: string, context: ReceiptContext): PrintItem[] {
+    const template = this.templates.get(name);
+    if (!template) {
+      throw new Error(`Receipt template "${name}" is not registered`);
+    }
+
+    return this.compile(template, context);
+  }
+
+  /**
+   * Render any template, registered or not
+   */
+  compile(template: ReceiptTemplate, context: ReceiptContext): PrintItem[] {
+    return this.compileNodes(template.items, { ...context });
+  }
+
+  private compileNodes(nodes: TemplateNode[], scope: Record<string, any>): PrintItem[] {
+    const items: PrintItem[] = [];
+
+    nodes.forEach((node) => {
+      if (node.if && !evaluateCondition(node.if, scope)) {
+        return;
+      }
+
+      switch (node.type) {
+        case 'text':
+          items.push(withoutUndefined({
+            type: 'text',
+            text: this.interpolate(node.text, scope),
+            isTitle: node.isTitle,
+            isBold: node.isBold,
+            displayCenter: node.displayCenter,
+          }));
+          break;
+        case 'newline':
+        case 'separator':
+          items.push({ type: node.type });
+          break;
+        case 'image':
+          items.push(withoutUndefined({
+            type: 'image',
+            imageType: node.imageType,
+            resourceName: node.resourceName,
+            base64Data: node.base64Data && this.interpolate(node.base64Data, scope),
+          }));
+          break;
+        case 'section':
+          items.push(...this.compileNodes(node.items, scope));
+          break;
+        case 'each': {
+          const values = resolvePath(scope, node.source);
+          if (Array.isArray(values)) {
+            values.forEach((value, index) => {
+              items.push(...this.compileNodes(node.items, { ...scope, [node.as]: value, index: index + 1 }));
+            });
+          }
+          break;
+        }
+      }
+    });
+
+    return items;
+  }
+
+  private interpolate(text: string, scope: Record<string, any>): string {
+    return text.replace(PLACEHOLDER_PATTERN, (_match, path: string, filterName?: string, arg?: string) => {
+      const value = resolvePath(scope, path.trim());
+
+      if (filterName) {
+        const filter = this.filters[filterName];
+        if (!filter) {
+          throw new Error(`Unknown receipt template filter "${filterName}"`);
+        }
+        return filter(value, arg?.trim());
+      }
+
+      return isBlank(value) ? '' : String(value);
+    });
+  }
+}
+
+/**
+ * Conditions are a path ("merchant.name"), a negated path ("!transaction.isSuccessful")
+ * or a comparison with a literal ("transaction.status == completed", "custom.copy != merchant")
+ */
+function evaluateCondition(condition: string, scope: Record<string, any>): boolean {
+  const comparison = condition.match(/^\s*([\w.]+)\s*(==|!=)\s*(.+?)\s*$/);
+  if (comparison) {
+    const [, path, operator, literal] = comparison;
+    const equal = String(resolvePath(scope, path) ?? '') === literal.replace(/^['"]|['"]$/g, '');
+    return operator === '==' ? equal : !equal;
+  }
+
+  const negated = condition.trim().startsWith('!');
+  const value = resolvePath(scope, condition.trim().replace(/^!/, ''));
+  const truthy = Array.isArray(value) ? value.length > 0 : !isBlank(value) && value !== false && value !== 0;
+
+  return negated ? !truthy : truthy;
+}
+
+function resolvePath(scope: Record<string, any>, path: string): any {
+  return path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), scope);
+}
+
+function isBlank(value: any): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function isKobo(value: any): boolean {
+  return !isBlank(value) && Number.isSafeInteger(Number(value));
+}
+
+function withoutUndefined(item: PrintItem): PrintItem {
+  return Object.fromEntries(Object.entries(item).filter(([, value]) => value !== undefined)) as PrintItem;
+}
+
+function validateNodes(nodes: TemplateNode[], templateName: string) {
+  if (!Array.isArray(nodes)) {
+    throw new Error(`Receipt template "${templateName}" must have an items array`);
+  }
+
+  nodes.forEach((node) => {
+    if (!NODE_TYPES.includes(node?.type)) {
+      throw new Error(`Receipt template "${templateName}" has an unknown item type "${(node as any)?.type}"`);
+    }
+    if (node.type === 'text' && typeof node.text !== 'string') {
+      throw new Error(`Receipt template "${templateName}" has a text item without text`);
+    }
+    if (node.type === 'section' || node.type === 'each') {
+      validateNodes(node.items, templateName);
+    }
+  });
+}
+
+export { evaluateCondition, ReceiptTemplateEngine };
+export type { MerchantProfile, ReceiptContext, ReceiptTemplate, TemplateFilter, TemplateNode };
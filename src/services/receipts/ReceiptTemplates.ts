@@ -0,0 +1,246 @@
+import { ReceiptTemplate, ReceiptTemplateEngine, TemplateNode } from './ReceiptTemplateEngine';
+
+const STATUS_LINES: TemplateNode[] = [
+  { type: 'text', text: 'APPROVED', isTitle: true, displayCenter: true, isBold: true, if: 'transaction.isSuccessful' },
+  { type: 'text', text: 'DECLINED', isTitle: true, displayCenter: true, isBold: true, if: '!transaction.isSuccessful' },
+];
+
+const MERCHANT_HEADER: TemplateNode = {
+  type: 'section',
+  items: [
+    { type: 'text', text: '{{merchant.name}}', isTitle: true, displayCenter: true, isBold: true, if: 'merchant.name' },
+    { type: 'text', text: '{{merchant.address}}', displayCenter: true, if: 'merchant.address' },
+    { type: 'text', text: 'Tel: {{merchant.phone}}', displayCenter: true, if: 'merchant.phone' },
+  ],
+};
+
+// Shown on reprints; custom.reprintCount and custom.reprintedAt are set by ReceiptReprinter
+const DUPLICATE_BANNER: TemplateNode = {
+  type: 'section',
+  if: 'custom.reprintCount',
+  items: [
+    { type: 'text', text: '*** DUPLICATE COPY ***', isTitle: true, displayCenter: true, isBold: true },
+    { type: 'text', text: 'Reprint #{{custom.reprintCount}}', displayCenter: true },
+    { type: 'text', text: '{{custom.reprintedAt | date}}', displayCenter: true, if: 'custom.reprintedAt' },
+    { type: 'separator' },
+  ],
+};
+
+// custom.copy is 'merchant' or 'customer' when printing per-copy receipts
+const COPY_LABEL: TemplateNode = {
+  type: 'text', text: '{{custom.copy | upper}} COPY', displayCenter: true, isBold: true, if: 'custom.copy',
+};
+
+// Cardholder signs the merchant copy of an approved card sale
+const SIGNATURE_BLOCK: TemplateNode = {
+  type: 'section',
+  if: 'custom.copy == merchant',
+  items: [
+    {
+      type: 'section',
+      if: 'transaction.isSuccessful',
+      items: [
+        {
+          type: 'section',
+          if: 'transaction.cardPan',
+          items: [
+            { type: 'newline' },
+            { type: 'newline' },
+            { type: 'text', text: 'Signature: ______________________' },
+            { type: 'text', text: 'I agree to pay the above total', displayCenter: true },
+            { type: 'text', text: 'according to my card issuer agreement', displayCenter: true },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+// One block per cart line in custom.items when the sale was rung up from the catalogue
+const ITEM_LINES: TemplateNode = {
+  type: 'section',
+  if: 'custom.items',
+  items: [
+    {
+      type: 'each',
+      source: 'custom.items',
+      as: 'item',
+      items: [
+        { type: 'text', text: '{{item.quantity}} x {{item.name}}' },
+        { type: 'text', text: '  @ ₦{{item.unitPrice | amount}}  ₦{{item.total | amount}}' },
+        { type: 'text', text: '  Discount -₦{{item.discount | amount}}', if: 'item.discount' },
+      ],
+    },
+    { type: 'separator' },
+  ],
+};
+
+// Breakdown of custom.charges when service charge, VAT or a tip was added
+const CHARGE_LINES: TemplateNode = {
+  type: 'section',
+  if: 'custom.charges',
+  items: [
+    { type: 'text', text: 'Subtotal: ₦{{custom.charges.subtotal | amount}}' },
+    {
+      type: 'text',
+      text: 'Service Charge ({{custom.charges.serviceChargeRate}}%): ₦{{custom.charges.serviceCharge | amount}}',
+      if: 'custom.charges.serviceCharge',
+    },
+    { type: 'text', text: 'VAT ({{custom.charges.vatRate}}%): ₦{{custom.charges.vat | amount}}', if: 'custom.charges.vat' },
+    { type: 'text', text: 'Tip: ₦{{custom.charges.tip | amount}}', if: 'custom.charges.tip' },
+  ],
+};
+
+// Full card-present receipt used after every sale
+const SALE_TEMPLATE: ReceiptTemplate = {
+  name: 'sale',
+  description: 'Standard sale receipt with merchant header and card details',
+  items: [
+    // Make sure you have a logo.png in android/app/src/main/res/drawable/
+    { type: 'image', imageType: 'resource', resourceName: 'logo' },
+    MERCHANT_HEADER,
+    { type: 'separator' },
+    DUPLICATE_BANNER,
+    { type: 'text', text: 'PAYMENT RECEIPT', isTitle: true, displayCenter: true, isBold: true },
+    COPY_LABEL,
+    { type: 'newline' },
+    ITEM_LINES,
+    CHARGE_LINES,
+    { type: 'text', text: 'Amount: ₦{{transaction.amount | amount}}', isBold: true },
+    { type: 'text', text: 'Card Type: {{transaction.cardType}}', if: 'transaction.cardType' },
+    { type: 'text', text: 'PAN: {{transaction.cardPan}}', if: 'transaction.cardPan' },
+    { type: 'text', text: 'RRN: {{transaction.rrn}}', if: 'transaction.rrn' },
+    { type: 'text', text: 'Reference: {{transaction.transactionReference}}' },
+    { type: 'text', text: 'Date: {{transaction.dateTime}}', if: 'transaction.dateTime' },
+    { type: 'text', text: 'Auth Code: {{transaction.authorizationCode}}', if: 'transaction.authorizationCode' },
+    { type: 'text', text: 'STAN: {{transaction.stan}}', if: 'transaction.stan' },
+    { type: 'separator' },
+    ...STATUS_LINES,
+    SIGNATURE_BLOCK,
+    { type: 'newline' },
+    { type: 'newline' },
+    { type: 'text', text: 'Thank you for your business!', displayCenter: true },
+    { type: 'newline' },
+    { type: 'text', text: 'Keep this receipt for your records', displayCenter: true },
+  ],
+};
+
+// Minimal receipt for testing the printer
+const SIMPLE_TEMPLATE: ReceiptTemplate = {
+  name: 'simple',
+  description: 'Short receipt with amount, reference and status',
+  items: [
+    DUPLICATE_BANNER,
+    { type: 'text', text: 'PAYMENT RECEIPT', isTitle: true, displayCenter: true, isBold: true },
+    { type: 'separator' },
+    { type: 'text', text: 'Amount: {{transaction.amount | currency}}', isBold: true },
+    { type: 'text', text: 'Reference: {{transaction.transactionReference}}' },
+    { type: 'text', text: 'Status: APPROVED', isBold: true, displayCenter: true, if: 'transaction.isSuccessful' },
+    { type: 'text', text: 'Status: DECLINED', isBold: true, displayCenter: true, if: '!transaction.isSuccessful' },
+    { type: 'separator' },
+    { type: 'text', text: 'Thank you!', displayCenter: true },
+  ],
+};
+
+// Refund, void or reversal slip. custom.originalReference points at the adjusted sale
+// and custom.adjustmentType ('Refund', 'Void' or 'Reversal') picks the wording.
+const REFUND_TEMPLATE: ReceiptTemplate = {
+  name: 'refund',
+  description: 'Refund, void or reversal receipt referencing the original sale',
+  items: [
+    MERCHANT_HEADER,
+    { type: 'separator' },
+    DUPLICATE_BANNER,
+    { type: 'text', text: 'REFUND RECEIPT', isTitle: true, displayCenter: true, isBold: true, if: '!custom.adjustmentType' },
+    { type: 'text', text: '{{custom.adjustmentType | upper}} RECEIPT', isTitle: true, displayCenter: true, isBold: true, if: 'custom.adjustmentType' },
+    COPY_LABEL,
+    { type: 'newline' },
+    { type: 'text', text: '{{custom.adjustmentType | default: Refund}} Amount: ₦{{transaction.amount | amount}}', isBold: true },
+    { type: 'text', text: 'PAN: {{transaction.cardPan}}', if: 'transaction.cardPan' },
+    { type: 'text', text: 'RRN: {{transaction.rrn}}', if: 'transaction.rrn' },
+    { type: 'text', text: 'Reference: {{transaction.transactionReference}}' },
+    { type: 'text', text: 'Original Ref: {{custom.originalReference}}', if: 'custom.originalReference' },
+    { type: 'text', text: 'Date: {{transaction.dateTime}}', if: 'transaction.dateTime' },
+    { type: 'separator' },
+    ...STATUS_LINES,
+    { type: 'newline' },
+    {
+      type: 'section',
+      if: 'custom.adjustmentType != Void',
+      items: [
+        { type: 'text', text: 'Refunds may take 3-5 working days', displayCenter: true, if: 'custom.adjustmentType != Reversal' },
+      ],
+    },
+  ],
+};
+
+// Generic report: custom.title, custom.subtitle and custom.lines as { label, value }
+const REPORT_TEMPLATE: ReceiptTemplate = {
+  name: 'report',
+  description: 'Summary report made of label/value lines',
+  items: [
+    MERCHANT_HEADER,
+    { type: 'separator' },
+    { type: 'text', text: '{{custom.title | upper}}', isTitle: true, displayCenter: true, isBold: true },
+    { type: 'text', text: '{{custom.subtitle}}', displayCenter: true, if: 'custom.subtitle' },
+    { type: 'separator' },
+    {
+      type: 'each',
+      source: 'custom.lines',
+      as: 'line',
+      items: [
+        { type: 'separator', if: 'line.separator' },
+        { type: 'text', text: '{{line.label}}', isBold: true, if: 'line.heading' },
+        { type: 'text', text: '{{line.label}}: {{line.value}}', if: "line.value != ''" },
+      ],
+    },
+    { type: 'separator' },
+    { type: 'text', text: 'Printed: {{custom.printedAt | date}}', displayCenter: true, if: 'custom.printedAt' },
+  ],
+};
+
+// Consolidated split-tender receipt: custom.orderReference, custom.total, custom.paid
+// and custom.tenders as { method, amount, reference, cardPan, rrn, authCode }
+const SPLIT_TEMPLATE: ReceiptTemplate = {
+  name: 'split',
+  description: 'One receipt for an order paid with several tenders',
+  items: [
+    MERCHANT_HEADER,
+    { type: 'separator' },
+    DUPLICATE_BANNER,
+    { type: 'text', text: 'PAYMENT RECEIPT', isTitle: true, displayCenter: true, isBold: true },
+    { type: 'text', text: 'Order: {{custom.orderReference}}', displayCenter: true },
+    { type: 'newline' },
+    { type: 'text', text: 'Total: ₦{{custom.total | amount}}', isBold: true },
+    { type: 'text', text: 'Paid in {{custom.tenderCount}} tenders', if: 'custom.tenderCount' },
+    {
+      type: 'each',
+      source: 'custom.tenders',
+      as: 'tender',
+      items: [
+        { type: 'separator' },
+        { type: 'text', text: '{{tender.method}}: ₦{{tender.amount | amount}}', isBold: true },
+        { type: 'text', text: 'PAN: {{tender.cardPan}}', if: 'tender.cardPan' },
+        { type: 'text', text: 'RRN: {{tender.rrn}}', if: 'tender.rrn' },
+        { type: 'text', text: 'Auth Code: {{tender.authCode}}', if: 'tender.authCode' },
+        { type: 'text', text: 'Reference: {{tender.reference}}' },
+      ],
+    },
+    { type: 'separator' },
+    { type: 'text', text: 'Total Paid: ₦{{custom.paid | amount}}', isBold: true },
+    { type: 'text', text: 'APPROVED', isTitle: true, displayCenter: true, isBold: true },
+    { type: 'newline' },
+    { type: 'text', text: 'Date: {{custom.printedAt | date}}', displayCenter: true, if: 'custom.printedAt' },
+    { type: 'text', text: 'Thank you for your business!', displayCenter: true },
+  ],
+};
+
+// Shared engine with the built-in templates registered
+const receiptTemplates = new ReceiptTemplateEngine();
+[SALE_TEMPLATE, SIMPLE_TEMPLATE, REFUND_TEMPLATE, REPORT_TEMPLATE, SPLIT_TEMPLATE].forEach((template) => {
+  receiptTemplates.registerTemplate(template);
+});
+
+export default receiptTemplates;
+
+export { REFUND_TEMPLATE, REPORT_TEMPLATE, SALE_TEMPLATE, SIMPLE_TEMPLATE, SPLIT_TEMPLATE };
@@ -0,0 +1,119 @@
+import type { Money } from '../utils/money';
+
+// Enhanced interfaces to match the native module. Amounts are kobo; the native
+// driver converts them to and from the Naira the SDK uses.
+interface TerminalConfig {
+  alias?: string;
+  clientId?: string;
+  clientSecret?: string;
+  merchantCode?: string;
+  merchantTelephone?: string;
+  environment: 'TEST' | 'PRODUCTION';
+  appVersion?: string;
+}
+
+interface LogoConfig {
+  type: 'resource' | 'base64';
+  resourceName?: string;
+  base64Data?: string;
+}
+
+interface PaymentData {
+  amount: Money;
+  paymentType?: 'Card' | 'QR' | 'USSD' | 'Transfer' | 'CNP' | 'ThankYouCash' | 'PayCode' | 'Cash';
+  reference?: string;
+  remark?: string;
+}
+
+interface PaymentResult {
+  responseCode: string;
+  responseMessage: string;
+  isSuccessful: boolean;
+  transactionReference: string;
+  rrn: string;
+  amount: Money;
+  cardType: string;
+  transactionType: string;
+  cardHolderName: string;
+  cardExpiry: string;
+  cardPan: string;
+  aid: string;
+  dateTime: string;
+  txnDate: number;
+  authorizationCode: string;
+  stan: string;
+  authCode: string;
+  transactionCurrencyType: string;
+  timestamp: number;
+  status: 'completed' | 'cancelled';
+}
+
+interface PaymentCancellation {
+  transactionReference: string;
+  message: string;
+  timestamp: number;
+  raw?: any;
+}
+
+// Operations that undo all or part of an approved sale
+type AdjustmentType = 'Reversal' | 'Void' | 'Refund';
+
+interface AdjustmentData {
+  originalReference: string; // transactionReference of the sale being adjusted
+  originalRrn: string;
+  originalStan: string;
+  amount: Money; // Reversals and voids always use the full sale amount
+  reference?: string; // Reference for the adjustment itself
+  reason?: string;
+}
+
+interface AdjustmentResult extends PaymentResult {
+  adjustmentType: AdjustmentType;
+  originalReference: string;
+}
+
+interface PrintItem {
+  type: 'text' | 'newline' | 'image' | 'separator';
+  text?: string;
+  isTitle?: boolean;
+  isBold?: boolean;
+  displayCenter?: boolean;
+  imageType?: 'resource' | 'base64';
+  resourceName?: string;
+  base64Data?: string;
+}
+
+interface PrintResult {
+  status: string;
+  message: string;
+  success: boolean;
+  timestamp: number;
+}
+
+interface TerminalInfo {
+  isInitialized: boolean;
+  serialNumber: string;
+  deviceType: string;
+  sdkVersion: string;
+}
+
+interface SuccessResult {
+  success: boolean;
+  message: string;
+  timestamp: number;
+}
+
+export type {
+  AdjustmentData,
+  AdjustmentResult,
+  AdjustmentType,
+  LogoConfig,
+  PaymentCancellation,
+  PaymentData,
+  PaymentResult,
+  PrintItem,
+  PrintResult,
+  SuccessResult,
+  TerminalConfig,
+  TerminalInfo
+};
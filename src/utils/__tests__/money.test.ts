@@ -0,0 +1,87 @@
+import * as fc from 'fast-check';
+
+import {
+  formatMoney,
+  fromNaira,
+  isWholeKobo,
+  kobo,
+  Money,
+  parseMoney,
+  toDecimalString,
+  toNaira,
+} from '../money';
+
+// Any non-negative amount a Money can hold
+const anyMoney = fc.integer({ min: 0, max: Number.MAX_SAFE_INTEGER }).map(kobo);
+
+// Up to ₦100bn either way, far above any single transaction or daily total
+const realisticMoney = fc.integer({ min: -10_000_000_000_000, max: 10_000_000_000_000 }).map(kobo);
+
+// A Naira amount as written in code or received from the SDK, e.g. 19.99
+const nairaLiteral = fc
+  .tuple(fc.integer({ min: 0, max: 100_000_000_000 }), fc.integer({ min: 0, max: 99 }))
+  .map(([naira, koboPart]) => Number(`${naira}.${String(koboPart).padStart(2, '0')}`));
+
+describe('parseMoney and toDecimalString', () => {
+  it('round-trip every amount', () => {
+    fc.assert(fc.property(anyMoney, (money) => {
+      expect(parseMoney(toDecimalString(money))).toBe(money);
+    }));
+  });
+
+  it('reject a third decimal place', () => {
+    fc.assert(fc.property(anyMoney, fc.integer({ min: 0, max: 9 }), (money, digit) => {
+      expect(parseMoney(`${toDecimalString(money)}${digit}`)).toBeUndefined();
+    }));
+  });
+});
+
+describe('fromNaira and toNaira', () => {
+  it('round-trip from kobo', () => {
+    fc.assert(fc.property(realisticMoney, (money) => {
+      expect(fromNaira(toNaira(money))).toBe(money);
+    }));
+  });
+
+  it('round-trip from Naira with at most two decimals', () => {
+    fc.assert(fc.property(nairaLiteral, (naira) => {
+      expect(isWholeKobo(naira)).toBe(true);
+      expect(toNaira(fromNaira(naira))).toBe(naira);
+    }));
+  });
+
+  it('always give whole kobo', () => {
+    fc.assert(fc.property(realisticMoney, (money) => {
+      expect(isWholeKobo(toNaira(money))).toBe(true);
+    }));
+  });
+});
+
+describe('formatMoney', () => {
+  it('parses back to the same amount', () => {
+    fc.assert(fc.property(anyMoney, (money) => {
+      expect(parseMoney(formatMoney(money))).toBe(money);
+    }));
+  });
+
+  it('groups thousands and always shows two decimals', () => {
+    fc.assert(fc.property(realisticMoney, (money) => {
+      const formatted = formatMoney(money);
+      expect(formatted).toMatch(/^-?₦\d{1,3}(,\d{3})*\.\d{2}$/);
+      expect(formatted.replace(/[₦,]/g, '')).toBe(toDecimalString(money));
+    }));
+  });
+});
+
+describe('19.99 regression', () => {
+  it('converts without float error', () => {
+    // The float multiplication the Money type replaced
+    expect(19.99 * 100).not.toBe(1999);
+
+    expect(fromNaira(19.99)).toBe(1999);
+    expect(toNaira(1999 as Money)).toBe(19.99);
+    expect(isWholeKobo(19.99)).toBe(true);
+    expect(parseMoney('19.99')).toBe(1999);
+    expect(formatMoney(fromNaira(19.99))).toBe('₦19.99');
+  });
+});
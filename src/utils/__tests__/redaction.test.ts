@@ -0,0 +1,133 @@
+import { maskPan, redact, redactText, REDACTED, TRUNCATED, truncateCardholderName } from '../redaction';
+
+// Luhn-valid test card numbers
+const VISA = '4111111111111111';
+const MASTERCARD = '5399838383838381';
+
+describe('maskPan', () => {
+  it('keeps the first 6 and last 4 digits', () => {
+    expect(maskPan(VISA)).toBe('411111******1111');
+    expect(maskPan('5061020000000000094')).toBe('506102*********0094');
+  });
+
+  it('strips spaces and dashes before masking', () => {
+    expect(maskPan('4111 1111 1111 1111')).toBe('411111******1111');
+    expect(maskPan('4111-1111-1111-1111')).toBe('411111******1111');
+  });
+
+  it('keeps only the last 4 digits of short numbers', () => {
+    expect(maskPan('123456789')).toBe('*****6789');
+    expect(maskPan('1234')).toBe('1234');
+  });
+
+  it('passes empty values through', () => {
+    expect(maskPan(undefined)).toBeUndefined();
+    expect(maskPan('')).toBe('');
+  });
+});
+
+describe('truncateCardholderName', () => {
+  it('keeps the first 3 characters', () => {
+    expect(truncateCardholderName('ADEBAYO/OLU')).toBe('ADE***');
+    expect(truncateCardholderName('  Ngozi Okafor ')).toBe('Ngo***');
+  });
+
+  it('hides names of 3 characters or fewer completely', () => {
+    expect(truncateCardholderName('Al')).toBe('***');
+    expect(truncateCardholderName('Ada')).toBe('***');
+  });
+
+  it('passes empty values through', () => {
+    expect(truncateCardholderName(undefined)).toBeUndefined();
+    expect(truncateCardholderName('')).toBe('');
+  });
+});
+
+describe('redactText', () => {
+  it('masks Luhn-valid card numbers inside text', () => {
+    expect(redactText(`Card ${VISA} declined`)).toBe('Card 411111******1111 declined');
+    expect(redactText('PAN 5399-8383-8383-8381 read')).toBe('PAN 539983******8381 read');
+  });
+
+  it('leaves digit runs that fail the Luhn check', () => {
+    expect(redactText('Reference 4111111111111112')).toBe('Reference 4111111111111112');
+  });
+
+  it('leaves numbers too short to be a card number', () => {
+    expect(redactText('RRN 000123456789, STAN 123456')).toBe('RRN 000123456789, STAN 123456');
+  });
+});
+
+describe('redact', () => {
+  it('replaces secrets whatever the key casing', () => {
+    const redacted = redact({ clientSecret: 'abc', PIN: '1234', apiKey: 'k', Authorization: 'Bearer x', track2: '4111=2512' });
+
+    expect(redacted).toEqual({
+      clientSecret: REDACTED,
+      PIN: REDACTED,
+      apiKey: REDACTED,
+      Authorization: REDACTED,
+      track2: REDACTED,
+    });
+  });
+
+  it('replaces expiry dates', () => {
+    expect(redact({ cardExpiry: '2512', expiryDate: '12/25', exp: '2512' })).toEqual({
+      cardExpiry: REDACTED,
+      expiryDate: REDACTED,
+      exp: REDACTED,
+    });
+  });
+
+  it('masks PAN fields', () => {
+    expect(redact({ cardPan: VISA, cardNumber: MASTERCARD })).toEqual({
+      cardPan: '411111******1111',
+      cardNumber: '539983******8381',
+    });
+  });
+
+  it('truncates cardholder names', () => {
+    expect(redact({ cardHolderName: 'OKAFOR/NGOZI' })).toEqual({ cardHolderName: 'OKA***' });
+  });
+
+  it('redacts nested objects and arrays', () => {
+    const redacted = redact({ config: { clientSecret: 'abc' }, results: [{ cardPan: VISA, rrn: '000123' }] });
+
+    expect(redacted).toEqual({
+      config: { clientSecret: REDACTED },
+      results: [{ cardPan: '411111******1111', rrn: '000123' }],
+    });
+  });
+
+  it('masks card numbers in other string fields and error messages', () => {
+    expect(redact({ remark: `Paid with ${VISA}` })).toEqual({ remark: 'Paid with 411111******1111' });
+    expect(redact(new Error(`Card ${VISA} blocked`)).message).toBe('Card 411111******1111 blocked');
+  });
+
+  it('leaves empty values and other fields untouched', () => {
+    expect(redact({ pin: '', cardPan: null, amount: 1500, isSuccessful: true })).toEqual({
+      pin: '',
+      cardPan: null,
+      amount: 1500,
+      isSuccessful: true,
+    });
+  });
+
+  it('replaces objects nested too deeply instead of returning them raw', () => {
+    let nested: Record<string, unknown> = { track: `;${VISA}=2512`, cardPan: VISA };
+    for (let level = 0; level < 12; level++) {
+      nested = { level: nested };
+    }
+
+    const serialized = JSON.stringify(redact(nested));
+    expect(serialized).not.toContain(VISA);
+    expect(serialized).toContain(TRUNCATED);
+  });
+
+  it('does not change the original value', () => {
+    const payload = { clientSecret: 'abc', cardPan: VISA };
+    redact(payload);
+
+    expect(payload).toEqual({ clientSecret: 'abc', cardPan: VISA });
+  });
+});
@@ -0,0 +1,51 @@
+type DateRangePreset = 'today' | 'yesterday' | 'last7Days' | 'last30Days' | 'thisMonth' | 'all';
+
+interface DateRange {
+  from?: number; // Inclusive, epoch milliseconds
+  to?: number; // Exclusive, epoch milliseconds
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_RANGE_LABELS: Record<DateRangePreset, string> = {
+  today: 'Today',
+  yesterday: 'Yesterday',
+  last7Days: 'Last 7 days',
+  last30Days: 'Last 30 days',
+  thisMonth: 'This month',
+  all: 'All time',
+};
+
+function startOfDay(date: Date): number {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+}
+
+/**
+ * Resolve a preset to a concrete range in local time
+ */
+function getDateRange(preset: DateRangePreset, now: Date = new Date()): DateRange {
+  const today = startOfDay(now);
+
+  switch (preset) {
+    case 'today':
+      return { from: today, to: today + DAY_MS };
+    case 'yesterday':
+      return { from: today - DAY_MS, to: today };
+    case 'last7Days':
+      return { from: today - 6 * DAY_MS, to: today + DAY_MS };
+    case 'last30Days':
+      return { from: today - 29 * DAY_MS, to: today + DAY_MS };
+    case 'thisMonth':
+      return { from: new Date(now.getFullYear(), now.getMonth(), 1).getTime(), to: today + DAY_MS };
+    default:
+      return {};
+  }
+}
+
+function isInDateRange(timestamp: number, range: DateRange): boolean {
+  return (range.from === undefined || timestamp >= range.from)
+    && (range.to === undefined || timestamp < range.to);
+}
+
+export { DATE_RANGE_LABELS, getDateRange, isInDateRange, startOfDay };
+export type { DateRange, DateRangePreset };
@@ -0,0 +1,142 @@
+/**
+ * An amount in whole kobo. Branded so a Naira float cannot be passed where kobo
+ * is expected; create one with kobo(), fromNaira() or parseMoney().
+ *
+ * Every amount in the app is Money: payments, results, the ledger and reports.
+ * Only the native SDK takes and returns Naira; NativePosDriver converts with
+ * fromNaira() and toNaira() at that edge.
+ */
+type Money = number & { readonly __unit: 'kobo' };
+
+const ZERO = 0 as Money;
+
+// Digits with at most two decimals, once ₦, commas and spaces are removed
+const MONEY_INPUT_PATTERN = /^(\d+)(?:\.(\d{0,2}))?$/;
+
+/**
+ * Wrap a whole number of kobo. Throws for fractions, NaN and Infinity.
+ */
+function kobo(value: number): Money {
+  if (!Number.isSafeInteger(value)) {
+    throw new Error(`${value} is not a whole number of kobo`);
+  }
+
+  return value as Money;
+}
+
+/**
+ * Naira to kobo. Naira amounts are rounded to the nearest kobo, which undoes
+ * binary float error such as 19.99 * 100 = 1998.9999999999998.
+ */
+function fromNaira(naira: number): Money {
+  return kobo(Math.round(naira * 100));
+}
+
+function toNaira(money: Money): number {
+  return money / 100;
+}
+
+/**
+ * Whether a Naira number is an exact amount of kobo, i.e. has at most two decimals.
+ * Compares against its own two-decimal rendering instead of multiplying by 100.
+ */
+function isWholeKobo(naira: number): boolean {
+  return Number.isFinite(naira) && Number(naira.toFixed(2)) === naira;
+}
+
+/**
+ * Parse what a cashier typed. Accepts an optional ₦, commas and spaces. Returns
+ * undefined for anything else, including negatives and more than two decimals.
+ */
+function parseMoney(input: string): Money | undefined {
+  const match = MONEY_INPUT_PATTERN.exec(input.replace(/[₦,\s]/g, ''));
+  if (!match) {
+    return undefined;
+  }
+
+  // Built from the digits so no float is involved
+  const value = Number(match[1]) * 100 + Number((match[2] ?? '').padEnd(2, '0'));
+  return Number.isSafeInteger(value) ? (value as Money) : undefined;
+}
+
+function addMoney(a: Money, b: Money): Money {
+  return (a + b) as Money;
+}
+
+function subtractMoney(a: Money, b: Money): Money {
+  return (a - b) as Money;
+}
+
+/**
+ * Multiply by a whole quantity, such as units on a cart line
+ */
+function multiplyMoney(money: Money, quantity: number): Money {
+  return kobo(money * quantity);
+}
+
+/**
+ * Percent of an amount, rounded half up to the nearest kobo. Rates are kept to
+ * basis points so 7.5% is exact.
+ */
+function percentOfMoney(money: Money, rate: number): Money {
+  const basisPoints = Math.round(rate * 100);
+  return Math.round((money * basisPoints) / 10000) as Money;
+}
+
+function sumMoney(values: Money[]): Money {
+  return values.reduce(addMoney, ZERO);
+}
+
+/**
+ * Negative, zero or positive as a is less than, equal to or greater than b
+ */
+function compareMoney(a: Money, b: Money): number {
+  return a - b;
+}
+
+function maxMoney(a: Money, b: Money): Money {
+  return compareMoney(a, b) >= 0 ? a : b;
+}
+
+function minMoney(a: Money, b: Money): Money {
+  return compareMoney(a, b) <= 0 ? a : b;
+}
+
+/**
+ * "1234.50", for inputs, CSV and receipts
+ */
+function toDecimalString(money: Money): string {
+  const sign = money < 0 ? '-' : '';
+  const absolute = Math.abs(money);
+  return `${sign}${Math.floor(absolute / 100)}.${String(absolute % 100).padStart(2, '0')}`;
+}
+
+/**
+ * "₦1,234.50". Built from the integer so it never shows float error.
+ */
+function formatMoney(money: Money): string {
+  const [whole, fraction] = toDecimalString(money).replace('-', '').split('.');
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  return `${money < 0 ? '-' : ''}₦${grouped}.${fraction}`;
+}
+
+export {
+  addMoney,
+  compareMoney,
+  formatMoney,
+  fromNaira,
+  isWholeKobo,
+  kobo,
+  maxMoney,
+  minMoney,
+  multiplyMoney,
+  parseMoney,
+  percentOfMoney,
+  subtractMoney,
+  sumMoney,
+  toDecimalString,
+  toNaira,
+  ZERO,
+};
+
+export type { Money };
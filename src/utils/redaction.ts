@@ -0,0 +1,124 @@
+const REDACTED = '[REDACTED]';
+const TRUNCATED = '[Truncated]';
+
+// Fields whose values must never leave the device, matched case-insensitively
+const SECRET_KEYS = ['clientsecret', 'secret', 'password', 'pin', 'token', 'apikey', 'authorization', 'track2'];
+const EXPIRY_KEYS = ['cardexpiry', 'expiry', 'expirydate', 'exp'];
+const PAN_KEYS = ['cardpan', 'pan', 'maskedpan', 'cardnumber'];
+const CARDHOLDER_KEYS = ['cardholdername', 'cardholder'];
+
+// Card numbers embedded in free text (15-19 digits, optionally spaced or dashed)
+const EMBEDDED_PAN_PATTERN = /\b\d(?:[ -]?\d){14,18}\b/g;
+
+// Objects nested deeper than this are replaced, not logged unredacted
+const MAX_DEPTH = 8;
+
+/**
+ * Mask a card number to its first 6 and last 4 digits
+ */
+function maskPan(pan?: string): string | undefined {
+  if (!pan) return pan;
+
+  const digits = pan.replace(/[\s-]/g, '');
+  if (digits.length < 10) return `${'*'.repeat(Math.max(digits.length - 4, 0))}${digits.slice(-4)}`;
+
+  return `${digits.slice(0, 6)}${'*'.repeat(digits.length - 10)}${digits.slice(-4)}`;
+}
+
+/**
+ * Keep only the first few characters of a cardholder name
+ */
+function truncateCardholderName(name?: string): string | undefined {
+  if (!name) return name;
+
+  const trimmed = name.trim();
+  return trimmed.length <= 3 ? '***' : `${trimmed.slice(0, 3)}***`;
+}
+
+/**
+ * Mask any Luhn-valid card numbers found inside a string
+ */
+function redactText(text: string): string {
+  return text.replace(EMBEDDED_PAN_PATTERN, (match) => {
+    const digits = match.replace(/[ -]/g, '');
+    return isLuhnValid(digits) ? maskPan(digits)! : match;
+  });
+}
+
+/**
+ * Deep copy of a value with secrets and card data removed, safe for logs.
+ * Secrets and expiry dates are replaced, PANs masked to 6+4 and cardholder
+ * names truncated. Strings are scanned for embedded card numbers.
+ */
+function redact<T>(value: T, depth = 0): T {
+  if (typeof value === 'string') {
+    return redactText(value) as T;
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (depth > MAX_DEPTH) {
+    return TRUNCATED as T;
+  }
+
+  if (value instanceof Error) {
+    const error = new Error(redactText(value.message));
+    error.name = value.name;
+    error.stack = value.stack && redactText(value.stack);
+    return error as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1)) as T;
+  }
+
+  const result: Record<string, unknown> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([key, fieldValue]) => {
+    result[key] = redactField(key, fieldValue, depth);
+  });
+
+  return result as T;
+}
+
+function redactField(key: string, value: unknown, depth: number): unknown {
+  const normalizedKey = key.toLowerCase();
+
+  if (value === undefined || value === null || value === '') {
+    return value;
+  }
+
+  if (SECRET_KEYS.includes(normalizedKey) || EXPIRY_KEYS.includes(normalizedKey)) {
+    return REDACTED;
+  }
+
+  if (PAN_KEYS.includes(normalizedKey)) {
+    return maskPan(String(value));
+  }
+
+  if (CARDHOLDER_KEYS.includes(normalizedKey)) {
+    return truncateCardholderName(String(value));
+  }
+
+  return redact(value, depth + 1);
+}
+
+function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+  let double = false;
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = Number(digits[i]);
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+
+  return sum % 10 === 0;
+}
+
+export { maskPan, redact, redactText, REDACTED, TRUNCATED, truncateCardholderName };
@@ -0,0 +1,26 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+interface ShareFileOptions {
+  mimeType: string;
+  UTI?: string; // iOS uniform type identifier
+  dialogTitle?: string;
+}
+
+/**
+ * Write text to a file in the cache directory and open the OS share sheet for it
+ */
+async function shareTextFile(fileName: string, content: string, options: ShareFileOptions): Promise<void> {
+  const file = new File(Paths.cache, fileName);
+  file.create({ overwrite: true });
+  file.write(content);
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  await Sharing.shareAsync(file.uri, options);
+}
+
+export { shareTextFile };
+export type { ShareFileOptions };